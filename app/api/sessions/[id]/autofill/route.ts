@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import { pickAutofillSongs } from '@/lib/music/autofill';
+
+export const dynamic = 'force-dynamic';
+
+// Earlier sessions whose songs feed the backlog
+const MAX_BACKLOG_SESSIONS = 20;
+const MAX_BACKLOG_SONGS = 500;
+
+interface AutofillBody {
+  participantId?: string;
+}
+
+/**
+ * Infinite mode: top the queue up to min_queue_size songs after the current one.
+ * The host's client calls this when the queue runs low; songs are picked here
+ * and autofill_queue() inserts only as many as are still missing, for the DJ.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: AutofillBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { participantId } = body;
+
+  if (!participantId) {
+    return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const [{ data: session, error: sessionError }, { data: participant, error: participantError }] =
+      await Promise.all([
+        supabase.from('sessions').select('*').eq('id', sessionId).maybeSingle(),
+        supabase
+          .from('participants')
+          .select('is_host')
+          .eq('id', participantId)
+          .eq('session_id', sessionId)
+          .maybeSingle(),
+      ]);
+
+    if (sessionError) throw sessionError;
+    if (participantError) throw participantError;
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // Suggestions spend API quota - only the host's client fills the queue
+    if (!participant?.is_host) {
+      return NextResponse.json({ error: 'Only the host can fill the queue' }, { status: 403 });
+    }
+
+    if (!session.infinite_mode || session.status !== 'playing') {
+      return NextResponse.json({ songs: [] });
+    }
+
+    const { data: songs, error: songsError } = await supabase
+      .from('songs')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (songsError) throw songsError;
+
+    const currentIndex = session.current_song_index ?? 0;
+    const needed = (session.min_queue_size ?? 3) - (songs.length - currentIndex - 1);
+
+    if (needed <= 0) {
+      return NextResponse.json({ songs: [] });
+    }
+
+    const backlogSessionIds = await getBacklogSessionIds(sessionId);
+    const [{ data: backlog, error: backlogError }, { data: scores, error: scoresError }] = await Promise.all([
+      backlogSessionIds.length > 0
+        ? supabase.from('songs').select('*').in('session_id', backlogSessionIds).limit(MAX_BACKLOG_SONGS)
+        : Promise.resolve({ data: [], error: null }),
+      supabase.from('scores').select('*').in('session_id', [sessionId, ...backlogSessionIds]),
+    ]);
+
+    if (backlogError) throw backlogError;
+    if (scoresError) throw scoresError;
+
+    const picked = await pickAutofillSongs({
+      played: songs.slice(0, currentIndex + 1),
+      songs,
+      backlog: backlog ?? [],
+      scores: scores ?? [],
+      count: needed,
+    });
+
+    if (picked.length === 0) {
+      console.log(`[Autofill] No songs found for session ${sessionId}`);
+      return NextResponse.json({ songs: [] });
+    }
+
+    const { data: added, error } = await supabase.rpc('autofill_queue', {
+      p_session_id: sessionId,
+      p_songs: picked.map((song) => ({ ...song })),
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Autofill error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to fill the queue' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ songs: added });
+  } catch (error) {
+    console.error('Autofill error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fill the queue' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * The group's other sessions: sessions in the same persistent group,
+ * or that any of this session's signed-in participants took part in
+ */
+async function getBacklogSessionIds(sessionId: string): Promise<string[]> {
+  const supabase = getSupabaseAdmin();
+
+  const [{ data: groups }, { data: members }] = await Promise.all([
+    supabase.from('group_sessions').select('group_id').eq('session_id', sessionId),
+    supabase.from('participants').select('user_id').eq('session_id', sessionId).not('user_id', 'is', null),
+  ]);
+
+  const groupIds = (groups ?? []).map((g) => g.group_id);
+  const userIds = (members ?? []).map((m) => m.user_id).filter((id): id is string => !!id);
+
+  const [{ data: groupSessions }, { data: userSessions }] = await Promise.all([
+    groupIds.length > 0
+      ? supabase.from('group_sessions').select('session_id').in('group_id', groupIds)
+      : Promise.resolve({ data: [] as { session_id: string }[] }),
+    userIds.length > 0
+      ? supabase
+          .from('participants')
+          .select('session_id')
+          .in('user_id', userIds)
+          .order('joined_at', { ascending: false })
+          .limit(MAX_BACKLOG_SESSIONS)
+      : Promise.resolve({ data: [] as { session_id: string }[] }),
+  ]);
+
+  return [...new Set([...(groupSessions ?? []), ...(userSessions ?? [])].map((s) => s.session_id))]
+    .filter((id) => id !== sessionId)
+    .slice(0, MAX_BACKLOG_SESSIONS);
+}
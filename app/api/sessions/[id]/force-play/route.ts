@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import type { ForcePlayMode } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const MODES: ForcePlayMode[] = ['next', 'now'];
+
+interface ForcePlayBody {
+  participantId?: string;
+  songId?: string;
+  mode?: ForcePlayMode;
+}
+
+/**
+ * Spend a force play token on one of your own upcoming songs.
+ * The database checks allowForcePlay, tokens left and the cooldown.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: ForcePlayBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { participantId, songId, mode } = body;
+
+  if (!participantId || !songId) {
+    return NextResponse.json(
+      { error: 'participantId and songId are required' },
+      { status: 400 }
+    );
+  }
+
+  if (!mode || !MODES.includes(mode)) {
+    return NextResponse.json({ error: 'Unknown force play mode' }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: session, error } = await supabase.rpc('use_force_play', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_song_id: songId,
+      p_mode: mode,
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Force play error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to force play song' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Force play error:', error);
+    return NextResponse.json(
+      { error: 'Failed to force play song' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface HeartbeatBody {
+  participantId?: string;
+}
+
+/**
+ * The host's client calls this every few seconds.
+ * transfer_host() only lets someone else take over once these stop.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: HeartbeatBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { participantId } = body;
+
+  if (!participantId) {
+    return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: lastSeenAt, error } = await supabase.rpc('touch_participant', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Heartbeat error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to record heartbeat' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ lastSeenAt });
+  } catch (error) {
+    console.error('Heartbeat error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record heartbeat' },
+      { status: 500 }
+    );
+  }
+}
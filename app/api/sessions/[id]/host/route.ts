@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface TransferHostBody {
+  participantId?: string;
+  newHostId?: string;
+  expectedHostId?: string | null;
+}
+
+/**
+ * Hand the host role to another participant.
+ * Used both for explicit transfers by the host and for host migration,
+ * where the elected participant claims the role after the host disconnects.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: TransferHostBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { participantId, newHostId, expectedHostId } = body;
+
+  if (!participantId || !newHostId) {
+    return NextResponse.json(
+      { error: 'participantId and newHostId are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: session, error } = await supabase.rpc('transfer_host', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_new_host_id: newHostId,
+      p_expected_host_id: expectedHostId ?? undefined,
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Host transfer error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to transfer host' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Host transfer error:', error);
+    return NextResponse.json(
+      { error: 'Failed to transfer host' },
+      { status: 500 }
+    );
+  }
+}
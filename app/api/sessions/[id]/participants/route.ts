@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { issueParticipantSecret } from '@/lib/api/participant-auth';
+import { getSessionSettings } from '@/lib/session/settings';
+
+export const dynamic = 'force-dynamic';
+
+interface JoinBody {
+  userName?: string;
+  host?: boolean; // joining as the host of the session just created
+}
+
+/**
+ * Join a session and get the participant secret the session routes check.
+ * Creates the participant (linked to the signed-in account, if any); secrets
+ * are only ever issued for the participant created by the same request.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: JoinBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const userName = typeof body.userName === 'string' ? body.userName.trim() : '';
+  const host = body.host === true;
+
+  if (!userName) {
+    return NextResponse.json({ error: 'userName is required' }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError) throw sessionError;
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (session.status === 'finished') {
+      return NextResponse.json({ error: 'This session has already ended.' }, { status: 409 });
+    }
+
+    if (session.expires_at && new Date(session.expires_at) < new Date()) {
+      return NextResponse.json({ error: 'This session has expired.' }, { status: 409 });
+    }
+
+    // settings.maxParticipants, the infinite mode DJ doesn't count
+    const { count, error: countError } = await supabase
+      .from('participants')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+      .eq('is_dj', false);
+
+    if (countError) throw countError;
+
+    const { maxParticipants } = getSessionSettings(session.settings);
+    if ((count ?? 0) >= maxParticipants) {
+      return NextResponse.json(
+        { error: `This session is full (max ${maxParticipants} participants).` },
+        { status: 409 }
+      );
+    }
+
+    // Signed-in participants are linked to their account (see user_profiles)
+    const authSession = await auth.api.getSession({ headers: request.headers });
+
+    // The host joins as sessions.host_id, and only as the first participant
+    // (guard_participant_host() rejects anything else)
+    const { data: participant, error: insertError } = await supabase
+      .from('participants')
+      .insert({
+        ...(host ? { id: session.host_id } : {}),
+        session_id: sessionId,
+        user_name: userName,
+        user_id: authSession?.user.id ?? null,
+        is_host: host,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (host && (insertError.code === '42501' || insertError.code === '23505')) {
+        return NextResponse.json({ error: 'This session already has a host' }, { status: 409 });
+      }
+      throw insertError;
+    }
+
+    const secret = await issueParticipantSecret(supabase, participant.id);
+
+    return NextResponse.json({ participant, secret });
+  } catch (error) {
+    console.error('Join session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to join session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import { PERKS, PERK_TYPES } from '@/lib/session/perks';
+import type { PerkType } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+interface BuyPerkBody {
+  participantId?: string;
+  perk?: PerkType;
+  targetId?: string;
+}
+
+/**
+ * Spend karma on a perk.
+ * The database checks the balance, applies the perk and records the spend in karma_history.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: BuyPerkBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { participantId, perk, targetId } = body;
+
+  if (!participantId) {
+    return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
+  }
+
+  if (!perk || !PERK_TYPES.includes(perk)) {
+    return NextResponse.json({ error: 'Unknown perk' }, { status: 400 });
+  }
+
+  if (PERKS[perk].target && !targetId) {
+    return NextResponse.json({ error: `targetId is required for ${perk}` }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: purchase, error } = await supabase.rpc('buy_perk', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_perk: perk,
+      p_target_id: targetId,
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Buy perk error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to buy perk' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ purchase });
+  } catch (error) {
+    console.error('Buy perk error:', error);
+    return NextResponse.json(
+      { error: 'Failed to buy perk' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import type { PlaybackAction } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const ACTIONS: PlaybackAction[] = ['pause', 'resume', 'seek'];
+
+interface PlaybackBody {
+  action?: PlaybackAction;
+  participantId?: string;
+  position?: number; // seconds (seek)
+}
+
+/**
+ * Pause, resume or seek the current song for the whole room (host only).
+ * The database keeps paused_at/position_offset on the session.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: PlaybackBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { action, participantId, position } = body;
+
+  if (!action || !ACTIONS.includes(action)) {
+    return NextResponse.json({ error: 'Unknown playback action' }, { status: 400 });
+  }
+
+  if (!participantId) {
+    return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
+  }
+
+  if (action === 'seek' && (typeof position !== 'number' || !Number.isFinite(position))) {
+    return NextResponse.json({ error: 'position is required for seek' }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: session, error } = await supabase.rpc('control_playback', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_action: action,
+      p_position: action === 'seek' ? position : undefined,
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Playback control error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to control playback' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Playback control error:', error);
+    return NextResponse.json(
+      { error: 'Failed to control playback' },
+      { status: 500 }
+    );
+  }
+}
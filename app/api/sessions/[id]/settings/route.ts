@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import { getSessionSettings, toSettingsJson } from '@/lib/session/settings';
+import type { Json } from '@/lib/supabase/database.types';
+
+export const dynamic = 'force-dynamic';
+
+interface SettingsBody {
+  participantId?: string;
+  settings?: Json;
+}
+
+/**
+ * Replace the session settings (host only).
+ * The database enforces quotas, the voting window and force play rules from
+ * these, so they can't be written by clients directly.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: SettingsBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { participantId, settings } = body;
+
+  if (!participantId) {
+    return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
+  }
+
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return NextResponse.json({ error: 'settings must be an object' }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: session, error } = await supabase.rpc('update_session_settings', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_settings: toSettingsJson(getSessionSettings(settings)),
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Update settings error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to update settings' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Update settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import type { SessionTransitionAction } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const ACTIONS: SessionTransitionAction[] = ['start', 'advance', 'finish', 'previous', 'replay'];
+
+// song_replays.reason limit
+const MAX_REASON_LENGTH = 200;
+
+interface TransitionBody {
+  action?: SessionTransitionAction;
+  participantId?: string;
+  expectedIndex?: number | null;
+  reason?: string; // previous/replay
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: TransitionBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { action, participantId, expectedIndex, reason } = body;
+
+  if (!action || !ACTIONS.includes(action)) {
+    return NextResponse.json({ error: 'Unknown transition action' }, { status: 400 });
+  }
+
+  if (!participantId) {
+    return NextResponse.json({ error: 'participantId is required' }, { status: 400 });
+  }
+
+  if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+    return NextResponse.json(
+      { error: `reason must be at most ${MAX_REASON_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: session, error } = await supabase.rpc('transition_session', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_action: action,
+      p_expected_index: expectedIndex ?? undefined,
+      p_reason: reason || undefined,
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Session transition error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to update session' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Session transition error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+
+export const dynamic = 'force-dynamic';
+
+// songs.unplayable_reason limit
+const MAX_REASON_LENGTH = 200;
+
+interface UnplayableBody {
+  participantId?: string;
+  songId?: string;
+  reason?: string;
+}
+
+/**
+ * Mark a song the host's player couldn't play (host only).
+ * Unplayable songs don't count toward their adder's song quota.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sessionId } = await params;
+
+  let body: UnplayableBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { participantId, songId, reason } = body;
+
+  if (!participantId || !songId) {
+    return NextResponse.json({ error: 'participantId and songId are required' }, { status: 400 });
+  }
+
+  if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+    return NextResponse.json(
+      { error: `reason must be at most ${MAX_REASON_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    const { data: song, error } = await supabase.rpc('mark_song_unplayable', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_song_id: songId,
+      p_reason: reason || undefined,
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Mark unplayable error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to mark song as unplayable' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ song });
+  } catch (error) {
+    console.error('Mark unplayable error:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark song as unplayable' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+
+// Mark this route as dynamic to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+/**
+ * Karma reconcile job - call periodically (e.g. from a cron job).
+ * Rebuilds participants.karma from the karma_history ledger, for one
+ * session (?sessionId=...) or for every participant.
+ */
+export async function POST(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data: fixedCount, error } = await supabase.rpc(
+      'reconcile_karma',
+      sessionId ? { p_session_id: sessionId } : {}
+    );
+
+    if (error) throw error;
+
+    if (fixedCount) {
+      console.warn(`[Karma] Reconciled ${fixedCount} participant totals from the ledger`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      fixedCount,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Karma reconcile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile karma' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+
+// Mark this route as dynamic to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server clock for playback - call periodically (e.g. from a cron job).
+ * Advances every playing session whose current song has ended, so the
+ * party keeps going even when no client is around to report the end.
+ */
+export async function POST() {
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data: advancedCount, error } = await supabase.rpc('advance_due_sessions');
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      advancedCount,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Session tick error:', error);
+    return NextResponse.json(
+      { error: 'Failed to advance sessions' },
+      { status: 500 }
+    );
+  }
+}
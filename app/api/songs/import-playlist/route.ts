@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+import { httpStatusForPgError } from '@/lib/supabase/errors';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import { detectPlaylistLink, findDuplicateSong, isMusicSource, MUSIC_SOURCES } from '@/lib/music';
+import { getMusicProvider } from '@/lib/music/registry';
+import { MusicProviderError, musicErrorResponse } from '@/lib/music/errors';
+import { checkMusicRateLimit } from '@/lib/music/rate-limit';
+import { MAX_SONG_DURATION } from '@/lib/session/limits';
+import { getSessionSettings } from '@/lib/session/settings';
+import type { MusicSource } from '@/lib/music';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_BATCH_SIZE = 50;
+
+interface ImportPlaylistBody {
+  sessionId?: string;
+  participantId?: string;
+  roundId?: string | null;
+  source?: MusicSource;
+  trackIds?: string[];
+}
+
+/**
+ * List a playlist's tracks: GET /api/songs/import-playlist?playlist=<link or ID>
+ * Returns them in the same shape as /api/songs/search.
+ */
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkMusicRateLimit(request);
+  if (rateLimited) return musicErrorResponse(rateLimited);
+
+  const playlist = request.nextUrl.searchParams.get('playlist');
+
+  if (!playlist) {
+    return NextResponse.json({ error: 'playlist parameter is required' }, { status: 400 });
+  }
+
+  const link = detectPlaylistLink(playlist);
+  const provider = link && getMusicProvider(link.source);
+
+  if (!link || !provider?.getPlaylist) {
+    return NextResponse.json({ error: 'Not a supported playlist link' }, { status: 400 });
+  }
+
+  const { label } = MUSIC_SOURCES[link.source];
+
+  try {
+    const results = await provider.getPlaylist(link.playlistId);
+
+    if (!results) {
+      return NextResponse.json(
+        { error: `This ${label} playlist is unavailable or private` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ source: link.source, playlistId: link.playlistId, results });
+  } catch (error) {
+    if (error instanceof MusicProviderError) return musicErrorResponse(error);
+
+    console.error(`${label} playlist error:`, error);
+    return NextResponse.json(
+      { error: `Failed to load ${label} playlist` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add several tracks to the queue in one batch.
+ * Track metadata is looked up again here rather than trusted from the client;
+ * add_songs() enforces the quota and inserts all positions in one transaction.
+ */
+export async function POST(request: NextRequest) {
+  let body: ImportPlaylistBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { sessionId, participantId, roundId, source, trackIds } = body;
+
+  if (!sessionId || !participantId) {
+    return NextResponse.json(
+      { error: 'sessionId and participantId are required' },
+      { status: 400 }
+    );
+  }
+
+  if (!isMusicSource(source)) {
+    return NextResponse.json({ error: 'Unknown music source' }, { status: 400 });
+  }
+
+  if (!Array.isArray(trackIds) || trackIds.length === 0 || trackIds.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `Pick between 1 and ${MAX_BATCH_SIZE} songs` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    if (!(await verifyParticipant(supabase, request, sessionId, participantId))) {
+      return NextResponse.json({ error: 'Not allowed to act as this participant' }, { status: 403 });
+    }
+
+    // Looking the tracks up spends provider quota like a search
+    const rateLimited = await checkMusicRateLimit(request, sessionId);
+    if (rateLimited) return musicErrorResponse(rateLimited);
+
+    const tracks = await getMusicProvider(source).getTracks([...new Set(trackIds)]);
+
+    const tooLong = tracks.filter((track) => track.duration > MAX_SONG_DURATION);
+    if (tooLong.length > 0) {
+      return NextResponse.json(
+        { error: `Too long (max 6 minutes): ${tooLong.map((track) => track.title).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Songs already in the queue are skipped rather than failing the batch -
+    // likely duplicates from other uploads or sources too when the host blocks them
+    const [{ data: existing, error: existingError }, { data: session, error: sessionError }] = await Promise.all([
+      supabase
+        .from('songs')
+        .select('source, source_id, title, artist, duration')
+        .eq('session_id', sessionId),
+      supabase.from('sessions').select('settings').eq('id', sessionId).maybeSingle(),
+    ]);
+
+    if (existingError) throw existingError;
+    if (sessionError) throw sessionError;
+
+    const { blockDuplicateSongs } = getSessionSettings(session?.settings);
+    const queued = new Set(
+      (existing ?? []).filter((song) => song.source === source).map((song) => song.source_id)
+    );
+    const toAdd = tracks.filter(
+      (track) =>
+        !queued.has(track.id) && !(blockDuplicateSongs && findDuplicateSong(track, existing ?? []))
+    );
+    const skipped = trackIds.length - toAdd.length;
+
+    if (toAdd.length === 0) {
+      return NextResponse.json({ songs: [], skipped });
+    }
+
+    const { data: songs, error } = await supabase.rpc('add_songs', {
+      p_session_id: sessionId,
+      p_participant_id: participantId,
+      p_round_id: roundId ?? undefined,
+      p_songs: toAdd.map((track) => ({
+        title: track.title,
+        artist: track.artist,
+        raw_title: track.rawTitle ?? null,
+        album_art: track.thumbnail,
+        duration: track.duration,
+        source: track.source,
+        source_id: track.id,
+      })),
+    });
+
+    if (error) {
+      const status = httpStatusForPgError(error.code);
+      if (status === 500) {
+        console.error('Import playlist error:', error);
+      }
+      return NextResponse.json(
+        { error: status === 500 ? 'Failed to add songs' : error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ songs, skipped });
+  } catch (error) {
+    if (error instanceof MusicProviderError) return musicErrorResponse(error);
+
+    console.error('Import playlist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add songs' },
+      { status: 500 }
+    );
+  }
+}
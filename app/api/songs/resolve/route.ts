@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectMusicLink, MUSIC_SOURCES } from '@/lib/music';
+import { getMusicProvider } from '@/lib/music/registry';
+import { MusicProviderError, musicErrorResponse } from '@/lib/music/errors';
+import { checkMusicRateLimit } from '@/lib/music/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Resolve a pasted link: GET /api/songs/resolve?url=...
+ * Returns the track in the same shape as /api/songs/search.
+ */
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkMusicRateLimit(request);
+  if (rateLimited) return musicErrorResponse(rateLimited);
+
+  const url = request.nextUrl.searchParams.get('url');
+
+  if (!url) {
+    return NextResponse.json({ error: 'url parameter is required' }, { status: 400 });
+  }
+
+  const link = detectMusicLink(url);
+  if (!link) {
+    return NextResponse.json(
+      { error: 'Not a YouTube, Spotify or SoundCloud track link' },
+      { status: 400 }
+    );
+  }
+
+  const { label } = MUSIC_SOURCES[link.source];
+
+  try {
+    const track = await getMusicProvider(link.source).resolve(url);
+
+    if (!track) {
+      return NextResponse.json(
+        { error: `This ${label} track is unavailable, private or can't be played here` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ source: link.source, results: [track] });
+  } catch (error) {
+    if (error instanceof MusicProviderError) return musicErrorResponse(error);
+
+    console.error(`${label} resolve error:`, error);
+    return NextResponse.json(
+      { error: `Failed to look up ${label} link` },
+      { status: 500 }
+    );
+  }
+}
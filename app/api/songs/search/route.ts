@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isMusicSource, MUSIC_SOURCES } from '@/lib/music';
+import { getMusicProvider } from '@/lib/music/registry';
+import { MusicProviderError, musicErrorResponse } from '@/lib/music/errors';
+import { checkMusicRateLimit } from '@/lib/music/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Search a music source: GET /api/songs/search?source=youtube&q=...
+ * Every provider returns the same Track shape.
+ */
+export async function GET(request: NextRequest) {
+  const rateLimited = await checkMusicRateLimit(request);
+  if (rateLimited) return musicErrorResponse(rateLimited);
+
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('q');
+  const source = searchParams.get('source') ?? 'youtube';
+
+  if (!query) {
+    return NextResponse.json({ error: 'Query parameter is required' }, { status: 400 });
+  }
+
+  if (!isMusicSource(source)) {
+    return NextResponse.json({ error: 'Unknown music source' }, { status: 400 });
+  }
+
+  try {
+    const results = await getMusicProvider(source).search(query);
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (error instanceof MusicProviderError) return musicErrorResponse(error);
+
+    console.error(`${MUSIC_SOURCES[source].label} search error:`, error);
+    return NextResponse.json(
+      { error: `Failed to search ${MUSIC_SOURCES[source].label}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { GET as searchSongs } from '@/app/api/songs/search/route';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Search Spotify: GET /api/spotify/search?q=...
+ * Kept for older clients, same as /api/songs/search?source=spotify
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  url.searchParams.set('source', 'spotify');
+  return searchSongs(new NextRequest(url, { headers: request.headers }));
+}
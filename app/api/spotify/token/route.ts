@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { headers } from 'next/headers';
+import { auth } from '@/lib/auth/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Access token for the Web Playback SDK.
+ * Playback needs the signed-in user's own Spotify account (Premium),
+ * so this returns the token from the linked account, refreshing it if needed.
+ */
+export async function GET() {
+  try {
+    const requestHeaders = await headers();
+    const session = await auth.api.getSession({ headers: requestHeaders });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Sign in to play Spotify songs' }, { status: 401 });
+    }
+
+    const token = await auth.api.getAccessToken({
+      body: { providerId: 'spotify' },
+      headers: requestHeaders,
+    });
+
+    return NextResponse.json({
+      accessToken: token.accessToken,
+      expiresAt: token.accessTokenExpiresAt?.getTime() ?? null,
+    });
+  } catch (error) {
+    // No linked Spotify account (or the refresh failed)
+    console.error('Spotify token error:', error);
+    return NextResponse.json({ error: 'Connect your Spotify account to play this song' }, { status: 401 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server clock for client clock sync (lib/session/clock.ts).
+ * Session timestamps are set by the database's NOW(), so this reads the
+ * database clock (server_now()) rather than this server's Date.now().
+ */
+export async function GET() {
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data: now, error } = await supabase.rpc('server_now');
+    if (error) throw error;
+
+    return NextResponse.json(
+      { now },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Server time error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read server time' },
+      { status: 500, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
@@ -1,123 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { GET as searchSongs } from '@/app/api/songs/search/route';
 
-const YOUTUBE_API_KEY = process.env.NEXT_PUBLIC_YOUTUBE_API_KEY;
-
-interface YouTubeSearchItem {
-  id: { videoId: string };
-  snippet: {
-    title: string;
-    channelTitle: string;
-    thumbnails: {
-      medium: { url: string };
-    };
-  };
-}
-
-interface YouTubeVideoItem {
-  id: string;
-  snippet: {
-    title: string;
-    channelTitle: string;
-    thumbnails: {
-      medium: { url: string };
-    };
-  };
-  contentDetails: {
-    duration: string;
-  };
-}
+export const dynamic = 'force-dynamic';
 
+/**
+ * Search YouTube: GET /api/youtube/search?q=...
+ * Kept for older clients, same as /api/songs/search?source=youtube
+ */
 export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get('q');
-
-  if (!query) {
-    return NextResponse.json({ error: 'Query parameter is required' }, { status: 400 });
-  }
-
-  if (!YOUTUBE_API_KEY) {
-    return NextResponse.json({ error: 'YouTube API key not configured' }, { status: 500 });
-  }
-
-  try {
-    const response = await fetch(
-      `https://www.googleapis.com/youtube/v3/search?` +
-        new URLSearchParams({
-          part: 'snippet',
-          q: query,
-          type: 'video',
-          videoCategoryId: '10', // Music category
-          maxResults: '10',
-          key: YOUTUBE_API_KEY,
-        })
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('YouTube API error:', errorText);
-      let errorData;
-      try {
-        errorData = JSON.parse(errorText);
-      } catch {
-        errorData = { error: errorText };
-      }
-      throw new Error(`YouTube API request failed: ${JSON.stringify(errorData)}`);
-    }
-
-    const data = await response.json();
-
-    // Get video details to get duration
-    const videoIds = data.items.map((item: YouTubeSearchItem) => item.id.videoId).join(',');
-
-    const detailsResponse = await fetch(
-      `https://www.googleapis.com/youtube/v3/videos?` +
-        new URLSearchParams({
-          part: 'contentDetails,snippet',
-          id: videoIds,
-          key: YOUTUBE_API_KEY,
-        })
-    );
-
-    if (!detailsResponse.ok) {
-      const errorText = await detailsResponse.text();
-      console.error('YouTube API details error:', errorText);
-      throw new Error(`YouTube API details request failed: ${errorText}`);
-    }
-
-    const detailsData = await detailsResponse.json();
-
-    // Format results
-    const results = detailsData.items.map((item: YouTubeVideoItem) => {
-      // Parse ISO 8601 duration (e.g., PT4M13S)
-      const duration = parseDuration(item.contentDetails.duration);
-
-      return {
-        id: item.id,
-        title: item.snippet.title,
-        artist: item.snippet.channelTitle,
-        thumbnail: item.snippet.thumbnails.medium.url,
-        duration,
-      };
-    });
-
-    return NextResponse.json({ results });
-  } catch (error) {
-    console.error('YouTube search error:', error);
-    return NextResponse.json(
-      { error: 'Failed to search YouTube' },
-      { status: 500 }
-    );
-  }
-}
-
-// Parse ISO 8601 duration to seconds
-function parseDuration(duration: string): number {
-  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (!match) return 0;
-
-  const hours = parseInt(match[1] || '0');
-  const minutes = parseInt(match[2] || '0');
-  const seconds = parseInt(match[3] || '0');
-
-  return hours * 3600 + minutes * 60 + seconds;
+  const url = new URL(request.url);
+  url.searchParams.set('source', 'youtube');
+  return searchSongs(new NextRequest(url, { headers: request.headers }));
 }
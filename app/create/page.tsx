@@ -5,12 +5,16 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SessionSettingsEditor from '@/components/session/session-settings-editor';
+import { ChevronDown, ChevronUp } from 'lucide-react';
 import { supabase } from '@/lib/supabase/client';
 import { useSession } from '@/lib/auth/auth-client';
 import type { Database } from '@/lib/supabase/database.types';
+import type { SessionSettings } from '@/lib/types';
+import { DEFAULT_SESSION_SETTINGS, toSettingsJson } from '@/lib/session/settings';
+import { joinAsParticipant } from '@/lib/session/participant-secret';
 
 type Group = Database['public']['Tables']['groups']['Row'];
-type GroupMember = Database['public']['Tables']['group_members']['Row'];
 
 export default function CreateSessionPage() {
   const router = useRouter();
@@ -22,9 +26,10 @@ export default function CreateSessionPage() {
   const [userName, setUserName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
 
   const [group, setGroup] = useState<Group | null>(null);
-  const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
 
   // Load group data if groupId is provided
   useEffect(() => {
@@ -51,14 +56,6 @@ export default function CreateSessionPage() {
       if (groupError) throw groupError;
       setGroup(groupData);
       setSessionName(`${groupData.name} Session`);
-
-      const { data: membersData, error: membersError } = await supabase
-        .from('group_members')
-        .select('*')
-        .eq('group_id', id);
-
-      if (membersError) throw membersError;
-      setGroupMembers(membersData || []);
     } catch (err) {
       console.error('Error loading group:', err);
       setError('Failed to load group details');
@@ -116,7 +113,7 @@ export default function CreateSessionPage() {
 
       const sessionCode = codeData as string;
 
-      // Create host participant first (we'll use this ID as host_id)
+      // Host participant ID, picked up front so it can be the session's host_id
       const hostId = crypto.randomUUID();
 
       // Create session
@@ -129,6 +126,7 @@ export default function CreateSessionPage() {
           host_id: hostId,
           session_code: sessionCode,
           status: 'waiting',
+          settings: toSettingsJson(settings),
         })
         .select()
         .single();
@@ -139,24 +137,8 @@ export default function CreateSessionPage() {
       // Extract session ID to work around type inference issue
       const sessionId_forInsert = (session as { id: string }).id;
 
-      // Add host as participant
-      const { error: participantError } = await supabase
-        .from('participants')
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore - Supabase types issue
-        .insert([
-          {
-            id: hostId,
-            session_id: sessionId_forInsert,
-            user_name: userName,
-            is_host: true,
-          },
-        ]);
-
-      if (participantError) throw participantError;
-
-      // Store participant ID in localStorage
-      localStorage.setItem('participantId', hostId);
+      // Join as the host (server-side, stores participant ID and secret in localStorage)
+      await joinAsParticipant(sessionId_forInsert, { userName, host: true });
       localStorage.setItem('userName', userName);
 
       // If this session is for a group, link it
@@ -173,29 +155,7 @@ export default function CreateSessionPage() {
           // Don't fail session creation if linking fails
         }
 
-        // Add all group members as participants (except host, who is already added)
-        const currentUserEmail = localStorage.getItem('userEmail');
-        const otherMembers = groupMembers.filter(m => m.user_email !== currentUserEmail);
-
-        if (otherMembers.length > 0) {
-          const participantInserts = otherMembers.map(member => ({
-            id: crypto.randomUUID(),
-            session_id: sessionId_forInsert,
-            user_name: member.user_name,
-            is_host: false,
-          }));
-
-          const { error: membersError } = await supabase
-            .from('participants')
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore - Supabase types issue
-            .insert(participantInserts);
-
-          if (membersError) {
-            console.error('Error adding group members:', membersError);
-            // Don't fail session creation if adding members fails
-          }
-        }
+        // Group members join as participants when they open the session (useSessionInit)
       }
 
       // Redirect to session
@@ -249,6 +209,26 @@ export default function CreateSessionPage() {
               />
             </div>
 
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowSettings(!showSettings)}
+                className="flex items-center gap-1 text-sm font-medium"
+              >
+                {showSettings ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                Session rules
+              </button>
+              {showSettings && (
+                <div className="mt-3">
+                  <SessionSettingsEditor
+                    settings={settings}
+                    onChange={setSettings}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+            </div>
+
             {error && (
               <div className="bg-destructive/10 text-destructive p-3 rounded-md text-sm border border-destructive/20">
                 {error}
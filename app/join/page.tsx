@@ -7,6 +7,9 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/lib/supabase/client';
 import { useSession } from '@/lib/auth/auth-client';
+import type { Json } from '@/lib/supabase/database.types';
+import { getSessionSettings } from '@/lib/session/settings';
+import { joinAsParticipant } from '@/lib/session/participant-secret';
 
 export default function JoinSessionPage() {
   const router = useRouter();
@@ -41,7 +44,7 @@ export default function JoinSessionPage() {
       }
 
       // Extract session data to work around type inference issues
-      const sessionData = session as { id: string; status: string; expires_at: string | null };
+      const sessionData = session as { id: string; status: string; expires_at: string | null; settings: Json };
 
       // Check if session is still active
       if (sessionData.status === 'finished') {
@@ -53,36 +56,20 @@ export default function JoinSessionPage() {
         throw new Error('This session has expired.');
       }
 
-      // Check participant limit (max 10)
+      // Check participant limit (settings.maxParticipants, the infinite mode DJ doesn't count)
       const { data: participants } = await supabase
         .from('participants')
         .select('id')
-        .eq('session_id', sessionData.id);
+        .eq('session_id', sessionData.id)
+        .eq('is_dj', false);
 
-      const maxParticipants = 10; // Enforced limit
+      const { maxParticipants } = getSessionSettings(sessionData.settings);
       if (participants && participants.length >= maxParticipants) {
-        throw new Error('This session is full (max 10 participants).');
+        throw new Error(`This session is full (max ${maxParticipants} participants).`);
       }
 
-      // Create participant
-      const participantId = crypto.randomUUID();
-      const { error: participantError } = await supabase
-        .from('participants')
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore - Supabase types issue
-        .insert([
-          {
-            id: participantId,
-            session_id: sessionData.id,
-            user_name: userName,
-            is_host: false,
-          },
-        ]);
-
-      if (participantError) throw participantError;
-
-      // Store participant ID in localStorage
-      localStorage.setItem('participantId', participantId);
+      // Create participant (server-side, stores participant ID and secret in localStorage)
+      await joinAsParticipant(sessionData.id, { userName });
       localStorage.setItem('userName', userName);
 
       // Redirect to session
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Trophy, Star, Music, Sparkles, Calendar, Crown } from 'lucide-react';
+import { supabase } from '@/lib/supabase/client';
+import type { Database } from '@/lib/supabase/database.types';
+
+type UserProfile = Database['public']['Views']['user_profiles']['Row'];
+type UserSessionStats = Database['public']['Views']['user_session_stats']['Row'];
+
+export default function ProfilePage() {
+  const router = useRouter();
+  const params = useParams();
+  const userId = params.id as string;
+
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [history, setHistory] = useState<UserSessionStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProfile();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  const loadProfile = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Lifetime totals
+      const { data: profileData, error: profileError } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+      setProfile(profileData);
+
+      // Session history, newest first
+      const { data: historyData, error: historyError } = await supabase
+        .from('user_session_stats')
+        .select('*')
+        .eq('user_id', userId)
+        .order('played_at', { ascending: false })
+        .limit(50);
+
+      if (historyError) throw historyError;
+      setHistory(historyData || []);
+    } catch (err) {
+      console.error('Error loading profile:', err);
+      setError('Failed to load profile');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen p-4 flex items-center justify-center">
+        <div className="text-muted-foreground">Loading profile...</div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen p-4 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground mb-4">{error || 'Profile not found'}</p>
+          <Button onClick={() => router.push('/')}>Back to Home</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: 'Karma', value: profile.total_karma ?? 0, icon: Sparkles },
+    { label: 'Wins', value: profile.wins ?? 0, icon: Trophy },
+    { label: 'Sessions', value: profile.sessions_played ?? 0, icon: Calendar },
+    { label: 'Songs Added', value: profile.songs_added ?? 0, icon: Music },
+    {
+      label: `Avg Score (${profile.votes_received ?? 0} votes)`,
+      value: (profile.average_score ?? 0).toFixed(1),
+      icon: Star,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" size="sm" onClick={() => router.back()} className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex items-center gap-4">
+            <Avatar className="h-16 w-16">
+              <AvatarImage src={profile.image || undefined} alt={profile.name || 'User'} />
+              <AvatarFallback className="text-xl">
+                {profile.name?.charAt(0).toUpperCase() || '?'}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <h1 className="text-3xl font-bold">{profile.name || 'Unknown'}</h1>
+              <p className="text-xs text-muted-foreground mt-1">
+                Member since {profile.member_since ? new Date(profile.member_since).toLocaleDateString() : 'Unknown'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 text-destructive px-4 py-3 rounded-lg text-sm mb-6">
+            {error}
+          </div>
+        )}
+
+        {/* Lifetime stats */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+          {stats.map(({ label, value, icon: Icon }) => (
+            <div key={label} className="bg-card p-4 rounded-lg">
+              <Icon className="h-4 w-4 text-muted-foreground mb-2" />
+              <div className="text-2xl font-bold">{value}</div>
+              <div className="text-xs text-muted-foreground">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Session history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Session History</CardTitle>
+            <CardDescription>
+              {history.length === 0 ? 'No sessions yet' : `Last ${history.length} sessions`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {history.map((entry) => (
+                <div
+                  key={entry.participant_id}
+                  className="flex items-center gap-4 p-3 rounded-lg bg-secondary/50"
+                >
+                  <div className="flex h-10 w-10 items-center justify-center rounded-full bg-secondary font-bold">
+                    {entry.won ? <Trophy className="h-5 w-5 text-yellow-500" /> : `#${entry.place ?? '-'}`}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold truncate">
+                      {entry.session_name || 'Untitled session'}
+                      {entry.is_host && <Crown className="inline h-3 w-3 ml-2 text-yellow-500" />}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {entry.played_at ? new Date(entry.played_at).toLocaleDateString() : 'Unknown date'}
+                      {' · '}
+                      {entry.songs_added ?? 0} songs · {entry.total_votes_received ?? 0} votes
+                    </div>
+                  </div>
+                  {entry.session_status !== 'finished' && (
+                    <Badge variant="secondary" className="text-xs">
+                      {entry.session_status === 'playing' ? 'Live' : 'Waiting'}
+                    </Badge>
+                  )}
+                  <div className="text-right">
+                    <div className="font-bold flex items-center gap-1 justify-end">
+                      <Star className="h-3 w-3 fill-white text-white" />
+                      {(entry.average_score ?? 0).toFixed(1)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{entry.karma ?? 0} karma</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
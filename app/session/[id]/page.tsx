@@ -1,13 +1,30 @@
 'use client';
 
 import AddSongDialog from '@/components/session/add-song-dialog';
+import type { RoundOption } from '@/components/session/add-song-dialog';
 import SessionResults from '@/components/session/session-results';
 import SessionHeader from '@/components/session/session-header';
+import PerkShop from '@/components/session/perk-shop';
 import PlayingView from '@/components/session/playing-view';
 import WaitingView from '@/components/session/waiting-view';
+import ClockDebugOverlay from '@/components/session/clock-debug-overlay';
+import UnplayableSongNotice from '@/components/session/unplayable-song-notice';
 import { useSessionStore } from '@/lib/store/session-store';
+import { getSessionSettings } from '@/lib/session/settings';
+import { getHiddenSubmitterSongIds } from '@/lib/session/blind-mode';
+import { countRoundSongs, isRoundPlayed } from '@/lib/session/rounds';
+import { getRemainingSongCount } from '@/lib/session/limits';
+import { getPlaybackPosition } from '@/lib/session/playback';
+import { countPerks, PERK_TYPES } from '@/lib/session/perks';
 import { useSessionInit } from '@/hooks/use-session-init';
 import { useSkipVoting } from '@/hooks/use-skip-voting';
+import { useHostMigration } from '@/hooks/use-host-migration';
+import { useInfiniteQueue } from '@/hooks/use-infinite-queue';
+import { useClockSync } from '@/hooks/use-clock-sync';
+import { useForcePlayCooldown } from '@/hooks/use-force-play-cooldown';
+import { useVotingWindow } from '@/hooks/use-voting-window';
+import type { PerkType } from '@/lib/types';
+import type { Track } from '@/lib/music';
 import { useParams } from 'next/navigation';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
@@ -22,28 +39,47 @@ export default function SessionPage() {
   const session = useSessionStore((state) => state.session);
   const participants = useSessionStore((state) => state.participants);
   const songs = useSessionStore((state) => state.songs);
+  const rounds = useSessionStore((state) => state.rounds);
   const scores = useSessionStore((state) => state.scores);
   const skipVotes = useSessionStore((state) => state.skipVotes);
   const reactions = useSessionStore((state) => state.reactions);
   // chatMessages removed - now handled by ChatMessagesContainer to prevent re-renders
   const currentParticipant = useSessionStore((state) => state.currentParticipant);
   const onlineUsers = useSessionStore((state) => state.onlineUsers);
+  const forcePlays = useSessionStore((state) => state.forcePlays);
+  const lastForcePlay = useSessionStore((state) => state.lastForcePlay);
+  const unplayableReports = useSessionStore((state) => state.unplayableReports);
+  const ballots = useSessionStore((state) => state.ballots);
+  const perkPurchases = useSessionStore((state) => state.perkPurchases);
+  const playbackEvents = useSessionStore((state) => state.playbackEvents);
 
   // Actions don't cause re-renders
   const setCurrentParticipant = useSessionStore((state) => state.setCurrentParticipant);
   const addScore = useSessionStore((state) => state.addScore);
   const addSong = useSessionStore((state) => state.addSong);
+  const importSongs = useSessionStore((state) => state.importSongs);
   const addReaction = useSessionStore((state) => state.addReaction);
   const removeReaction = useSessionStore((state) => state.removeReaction);
-  const updateSession = useSessionStore((state) => state.updateSession);
+  const transitionSession = useSessionStore((state) => state.transitionSession);
+  const controlPlayback = useSessionStore((state) => state.controlPlayback);
   const nextSong = useSessionStore((state) => state.nextSong);
+  const rewindSong = useSessionStore((state) => state.rewindSong);
+  const reportUnplayableSong = useSessionStore((state) => state.reportUnplayableSong);
   const shuffleQueue = useSessionStore((state) => state.shuffleQueue);
   const toggleInfiniteMode = useSessionStore((state) => state.toggleInfiniteMode);
+  const transferHost = useSessionStore((state) => state.transferHost);
+  const updateSettings = useSessionStore((state) => state.updateSettings);
+  const addRound = useSessionStore((state) => state.addRound);
+  const removeRound = useSessionStore((state) => state.removeRound);
+  const forcePlaySong = useSessionStore((state) => state.forcePlaySong);
+  const submitBallot = useSessionStore((state) => state.submitBallot);
+  const buyPerk = useSessionStore((state) => state.buyPerk);
 
   const [currentRating, setCurrentRating] = useState(0);
   const [hasVoted, setHasVoted] = useState(false);
   const [copiedCode, setCopiedCode] = useState(false);
   const [showAddSong, setShowAddSong] = useState(false);
+  const [showPerkShop, setShowPerkShop] = useState(false);
 
   // Memoize computed values
   const currentSong = useMemo(
@@ -56,6 +92,92 @@ export default function SessionPage() {
     [currentParticipant]
   );
 
+  const settings = useMemo(() => getSessionSettings(session?.settings), [session?.settings]);
+
+  const previousSong = useMemo(
+    () => session && session.current_song_index ? songs[session.current_song_index - 1] ?? null : null,
+    [session, songs]
+  );
+
+  // Voting window of the current song, plus the grace period of the previous one
+  const { votingWindow, graceSong, graceRemaining } = useVotingWindow({
+    session,
+    currentSong,
+    previousSong,
+    votingDuration: settings.votingDuration,
+  });
+
+  const graceRating = useMemo(
+    () =>
+      graceSong && currentParticipant
+        ? scores.find((s) => s.song_id === graceSong.id && s.participant_id === currentParticipant.id)?.rating ?? 0
+        : 0,
+    [graceSong, currentParticipant, scores]
+  );
+
+  // Blind mode: songs whose submitter is still masked for this viewer
+  const hiddenSongIds = useMemo(
+    () =>
+      session && settings.blindMode
+        ? getHiddenSubmitterSongIds(session, songs, participants, scores, currentParticipant?.id)
+        : new Set<string>(),
+    [session, settings.blindMode, songs, participants, scores, currentParticipant?.id]
+  );
+
+  // songsPerParticipant quota left for this participant
+  const remainingSongs = useMemo(
+    () => getRemainingSongCount(settings, songs, currentParticipant?.id, perkPurchases),
+    [settings, songs, currentParticipant?.id, perkPurchases]
+  );
+
+  // This participant's songs that were skipped as unplayable
+  const ownUnplayableSongs = useMemo(
+    () => songs.filter((s) => s.added_by === currentParticipant?.id && s.status === 'unplayable'),
+    [songs, currentParticipant?.id]
+  );
+
+  // Perks this participant has bought, and the songs a veto could hit
+  const ownedPerks = useMemo(
+    () =>
+      Object.fromEntries(
+        PERK_TYPES.map((perk) => [perk, countPerks(perkPurchases, currentParticipant?.id, perk)])
+      ) as Record<PerkType, number>,
+    [perkPurchases, currentParticipant?.id]
+  );
+  const vetoableSongs = useMemo(
+    () =>
+      songs.filter(
+        (song, index) =>
+          song.added_by !== currentParticipant?.id &&
+          (session?.status !== 'playing' || index > (session.current_song_index ?? -1))
+      ),
+    [songs, session?.status, session?.current_song_index, currentParticipant?.id]
+  );
+  const karma = participants.find((p) => p.id === currentParticipant?.id)?.karma ?? 0;
+
+  // Force play power card: tokens left and cooldown countdown
+  const { tokensLeft, cooldownRemaining } = useForcePlayCooldown(settings, currentParticipant?.id);
+  const forcePlay = useMemo(
+    () => (settings.allowForcePlay ? { tokensLeft, cooldownRemaining } : undefined),
+    [settings.allowForcePlay, tokensLeft, cooldownRemaining]
+  );
+
+  // Rounds this participant can still add songs to
+  const roundOptions = useMemo<RoundOption[]>(
+    () =>
+      rounds
+        .filter((round) => !session || !isRoundPlayed(round, songs, session.current_song_index))
+        .map((round) => ({
+          id: round.id,
+          name: round.name,
+          prompt: round.prompt,
+          remaining: currentParticipant
+            ? round.songs_per_participant - countRoundSongs(songs, round.id, currentParticipant.id)
+            : 0,
+        })),
+    [rounds, songs, session, currentParticipant]
+  );
+
   // Skip button settings
   const SKIP_AVAILABLE_AFTER_SECONDS = 30;
 
@@ -69,6 +191,13 @@ export default function SessionPage() {
     skipAvailableAfterSeconds: SKIP_AVAILABLE_AFTER_SECONDS,
   });
 
+  // Elect a new host if the current one disconnects
+  useHostMigration();
+  useInfiniteQueue(isHost);
+
+  // Estimate this client's clock offset so playback lines up across devices
+  useClockSync();
+
   // Sync current participant when participants list updates
   useEffect(() => {
     const participantId = localStorage.getItem('participantId');
@@ -111,7 +240,9 @@ export default function SessionPage() {
   };
 
   const handleVote = useCallback(async (rating: number) => {
-    if (!session || session.current_song_index === null || !currentParticipant || hasVoted) return;
+    // Ratings can be changed until the window closes - the database has the final say
+    if (!session || session.current_song_index === null || !currentParticipant) return;
+    if (votingWindow.phase !== 'open') return;
 
     const currentSong = songs[session.current_song_index];
     if (!currentSong) return;
@@ -125,29 +256,34 @@ export default function SessionPage() {
     setCurrentRating(rating);
     setHasVoted(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [session, currentParticipant, hasVoted, songs]); // Removed addScore - store functions stable
+  }, [session, currentParticipant, votingWindow.phase, songs]); // Removed addScore - store functions stable
+
+  const handleGraceVote = useCallback(async (rating: number) => {
+    if (!session || !currentParticipant || !graceSong) return;
+
+    await addScore({
+      session_id: session.id,
+      song_id: graceSong.id,
+      participant_id: currentParticipant.id,
+      rating,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, currentParticipant, graceSong]);
 
   const handleSongEnd = useCallback(async () => {
     console.log('Song ended, is host:', currentParticipant?.is_host);
-    // Only host can advance to next song
-    if (currentParticipant?.is_host) {
-      try {
-        await nextSong();
-        console.log('Advanced to next song');
-      } catch (error) {
-        console.error('Error advancing to next song:', error);
-      }
+    // Every client reports the end - the server checks the song is really over
+    // and only advances once, so playback continues even if the host's tab sleeps
+    try {
+      await nextSong();
+      console.log('Advanced to next song');
+    } catch (error) {
+      console.error('Error advancing to next song:', error);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentParticipant]); // Removed nextSong - store functions stable
 
-  const handleAddSong = async (song: {
-    id: string;
-    title: string;
-    artist: string;
-    thumbnail: string;
-    duration: number;
-  }) => {
+  const handleAddSong = async (song: Track, roundId?: string) => {
     console.log('handleAddSong called', { session, currentParticipant, song });
 
     if (!session) {
@@ -162,8 +298,14 @@ export default function SessionPage() {
       throw new Error(error);
     }
 
-    // Check for duplicate songs (same YouTube video ID)
-    const isDuplicate = songs.some((s) => s.source_id === song.id);
+    if (remainingSongs === 0) {
+      const error = `You can only add ${settings.songsPerParticipant + ownedPerks.extra_slot} songs to this session`;
+      console.error(error);
+      throw new Error(error);
+    }
+
+    // Check for duplicate songs (same YouTube video / Spotify track ID)
+    const isDuplicate = songs.some((s) => s.source === song.source && s.source_id === song.id);
     if (isDuplicate) {
       const error = 'This song is already in the queue';
       console.error(error);
@@ -175,12 +317,14 @@ export default function SessionPage() {
         session_id: session.id,
         title: song.title,
         artist: song.artist,
+        raw_title: song.rawTitle ?? null,
         album_art: song.thumbnail,
         duration: song.duration,
-        source: 'youtube' as const,
+        source: song.source,
         source_id: song.id,
         added_by: currentParticipant.id,
         position: songs.length,
+        round_id: roundId ?? null,
       };
 
       console.log('Adding song to database:', songData);
@@ -200,11 +344,7 @@ export default function SessionPage() {
       await shuffleQueue();
 
       // Start the session with the first song (after shuffle)
-      await updateSession({
-        status: 'playing',
-        current_song_index: 0,
-        current_song_started_at: new Date().toISOString(),
-      });
+      await transitionSession('start');
     } catch (error) {
       console.error('Error starting session:', error);
     }
@@ -220,21 +360,108 @@ export default function SessionPage() {
     if (!confirmed) return;
 
     try {
-      await updateSession({
-        status: 'finished',
-      });
+      await transitionSession('finish');
     } catch (error) {
       console.error('Error finishing session:', error);
     }
   };
 
+  const handleTogglePause = async () => {
+    if (!session || !isHost) return;
+
+    try {
+      await controlPlayback(session.paused_at ? 'resume' : 'pause');
+    } catch (error) {
+      console.error('Error pausing or resuming playback:', error);
+    }
+  };
+
+  const handleSeek = async (position: number) => {
+    if (!session || !isHost) return;
+
+    try {
+      await controlPlayback('seek', position);
+    } catch (error) {
+      console.error('Error seeking playback:', error);
+    }
+  };
+
+  // Previous song / replay - the reason is kept in the song's replay history
+  const handleRewind = async (action: 'previous' | 'replay') => {
+    if (!session || !isHost) return;
+
+    const reason = window.prompt(
+      action === 'previous'
+        ? 'Go back to the previous song? Add a reason (optional):'
+        : 'Replay this song from the start? Add a reason (optional):',
+      ''
+    );
+    if (reason === null) return;
+
+    try {
+      await rewindSong(action, reason.trim() || undefined);
+    } catch (error) {
+      console.error('Error going back to a song:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to go back: ${errorMessage}`);
+    }
+  };
+
+  // Our player couldn't play the current song - if we're the host, the song is skipped
+  const handleUnplayable = async (reason: string, errorCode?: number) => {
+    if (!currentSong) return;
+
+    try {
+      await reportUnplayableSong(currentSong.id, reason, errorCode);
+    } catch (error) {
+      console.error('Error reporting unplayable song:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to skip the unplayable song: ${errorMessage}`);
+    }
+  };
+
+  const handleToggleBlindMode = async () => {
+    if (!session || !isHost) return;
+
+    try {
+      await updateSettings({ blindMode: !settings.blindMode });
+    } catch (error) {
+      console.error('Error toggling blind mode:', error);
+    }
+  };
+
+  const handleToggleBlockDuplicates = async () => {
+    if (!session || !isHost) return;
+
+    try {
+      await updateSettings({ blockDuplicateSongs: !settings.blockDuplicateSongs });
+    } catch (error) {
+      console.error('Error toggling duplicate blocking:', error);
+    }
+  };
+
+  const handleTransferHost = async (participantId: string) => {
+    if (!session || !isHost) return;
+
+    const newHost = participants.find((p) => p.id === participantId);
+    const confirmed = window.confirm(
+      `Make ${newHost?.user_name || 'this participant'} the host? You will lose host controls.`
+    );
+
+    if (!confirmed) return;
+
+    try {
+      await transferHost(participantId);
+    } catch (error) {
+      console.error('Error transferring host:', error);
+    }
+  };
+
   // Calculate initial playback position when song loads - only compute once per song
   const initialPlaybackTime = useMemo(() => {
     if (!session?.current_song_started_at) return 0;
-    const startTime = new Date(session.current_song_started_at).getTime();
-    const now = Date.now();
-    const elapsed = Math.floor((now - startTime) / 1000);
-    return elapsed;
+    return Math.floor(getPlaybackPosition(session) ?? 0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session?.current_song_started_at]); // Only recalculate when song changes
 
   if (isLoading || !session) {
@@ -257,6 +484,12 @@ export default function SessionPage() {
         participants={participants}
         songs={songs}
         scores={scores}
+        rounds={rounds}
+        forcePlays={forcePlays}
+        ballots={ballots}
+        playbackEvents={playbackEvents}
+        currentParticipantId={currentParticipant?.id}
+        onSubmitBallot={submitBallot}
       />
     );
   }
@@ -270,17 +503,28 @@ export default function SessionPage() {
           sessionCode={session.session_code}
           copiedCode={copiedCode}
           infiniteMode={session.infinite_mode ?? false}
+          blindMode={settings.blindMode}
+          blockDuplicates={settings.blockDuplicateSongs}
           onCopyCode={handleCopyCode}
           onAddSong={() => setShowAddSong(true)}
           onShuffleQueue={shuffleQueue}
           onToggleInfiniteMode={toggleInfiniteMode}
+          onToggleBlindMode={handleToggleBlindMode}
+          onToggleBlockDuplicates={handleToggleBlockDuplicates}
           onFinishSession={handleFinishSession}
+          onTransferHost={handleTransferHost}
           isHost={isHost}
           isPlaying={session.status === 'playing'}
           onlineUsers={onlineUsers}
           currentUserId={currentParticipant?.id}
+          karma={currentParticipant ? karma : undefined}
+          ownedPerks={ownedPerks}
+          onOpenPerkShop={() => setShowPerkShop(true)}
         />
 
+        {/* Our songs that couldn't be played */}
+        <UnplayableSongNotice songs={ownUnplayableSongs} onPickReplacement={() => setShowAddSong(true)} />
+
         {/* Playing View */}
         {session.status === 'playing' && currentSong ? (
           <PlayingView
@@ -294,33 +538,78 @@ export default function SessionPage() {
             currentSongIndex={session.current_song_index}
             sessionStartedAt={session.current_song_started_at}
             initialPlaybackTime={initialPlaybackTime}
+            pausedAt={session.paused_at}
+            positionOffset={session.position_offset}
+            isHost={isHost}
             currentRating={currentRating}
             hasVoted={hasVoted}
+            votingWindow={votingWindow}
+            graceSong={graceSong}
+            graceRemaining={graceRemaining}
+            graceRating={graceRating}
             elapsedTime={elapsedTime}
             skipAvailableAfterSeconds={SKIP_AVAILABLE_AFTER_SECONDS}
+            blindMode={settings.blindMode}
+            hiddenSongIds={hiddenSongIds}
+            rounds={rounds}
+            forcePlay={forcePlay}
+            lastForcePlay={lastForcePlay}
+            unplayableReports={unplayableReports}
             onSongEnd={handleSongEnd}
+            onUnplayable={handleUnplayable}
             onVote={handleVote}
+            onGraceVote={handleGraceVote}
             onSkipVote={handleSkipVote}
             onAddReaction={addReaction}
             onRemoveReaction={removeReaction}
+            onForcePlay={forcePlaySong}
+            onTogglePause={handleTogglePause}
+            onSeek={handleSeek}
+            onPrevious={() => handleRewind('previous')}
+            onReplay={() => handleRewind('replay')}
           />
         ) : (
           <WaitingView
             songs={songs}
             participants={participants}
             isHost={isHost}
+            hiddenSongIds={hiddenSongIds}
+            rounds={rounds}
+            remainingSongs={remainingSongs}
             onStartSession={handleStartSession}
             onAddSong={() => setShowAddSong(true)}
+            onAddRound={addRound}
+            onRemoveRound={removeRound}
           />
         )}
 
         {/* Add Song Dialog */}
         <AddSongDialog
+          sessionId={session.id}
+          participantId={currentParticipant?.id}
           open={showAddSong}
           onOpenChange={setShowAddSong}
           onAddSong={handleAddSong}
+          onImportSongs={importSongs}
           existingSongs={songs}
+          blockDuplicates={settings.blockDuplicateSongs}
+          rounds={roundOptions}
+          remainingSongs={remainingSongs}
         />
+
+        {/* Perk Shop */}
+        <PerkShop
+          open={showPerkShop}
+          onOpenChange={setShowPerkShop}
+          karma={karma}
+          ownedPerks={ownedPerks}
+          vetoableSongs={vetoableSongs}
+          allowForcePlay={settings.allowForcePlay}
+          onBuyPerk={buyPerk}
+        />
+
+        {/* Clock sync debug info (?debug) */}
+        <ClockDebugOverlay />
       </div>
     </div>
   );
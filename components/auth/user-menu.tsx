@@ -53,7 +53,7 @@ export default function UserMenu() {
     <div className="flex items-center gap-2">
       {/* Karma Badge */}
       {karma !== undefined && (
-        <Link href="/profile">
+        <Link href={`/profile/${user.id}`}>
           <Button variant="ghost" size="sm" className="gap-1">
             <Trophy className="h-4 w-4 text-yellow-500" />
             <span className="font-semibold">{karma}</span>
@@ -76,7 +76,7 @@ export default function UserMenu() {
           </div>
 
           <div className="py-1">
-            <Link href="/profile">
+            <Link href={`/profile/${user.id}`}>
               <button className="w-full px-3 py-2 text-sm text-left hover:bg-muted flex items-center gap-2">
                 <User className="h-4 w-4" />
                 Profile
@@ -4,62 +4,118 @@ import { useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search, Plus, Loader2 } from 'lucide-react';
+import { Search, Plus, Loader2, ListMusic, AlertTriangle } from 'lucide-react';
 import Image from 'next/image';
+import { detectMusicLink, detectPlaylistLink, findDuplicateSong, MUSIC_SOURCES, MUSIC_SOURCE_LIST } from '@/lib/music';
+import { MAX_SONG_DURATION } from '@/lib/session/limits';
+import { participantHeaders } from '@/lib/session/participant-secret';
+import type { DuplicateCandidate, MusicSource, Track } from '@/lib/music';
 
-interface SearchResult {
+export interface RoundOption {
   id: string;
-  title: string;
-  artist: string;
-  thumbnail: string;
-  duration: number;
+  name: string;
+  prompt: string | null;
+  remaining: number; // songs the current participant can still add
 }
 
 interface AddSongDialogProps {
+  sessionId?: string; // lookups are rate limited per session
+  participantId?: string; // verified with the participant secret for the session limit
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onAddSong: (song: SearchResult) => Promise<void>;
-  existingSongs: Array<{ source_id: string }>;
+  onAddSong: (song: Track, roundId?: string) => Promise<void>;
+  onImportSongs?: (source: MusicSource, trackIds: string[], roundId?: string) => Promise<{ added: number; skipped: number }>;
+  existingSongs: Array<DuplicateCandidate & { album_art?: string | null }>;
+  blockDuplicates?: boolean; // host setting: likely duplicates can't be added
+  rounds?: RoundOption[];
+  remainingSongs?: number; // songsPerParticipant quota left for the current participant
 }
 
-export default function AddSongDialog({ open, onOpenChange, onAddSong, existingSongs }: AddSongDialogProps) {
+export default function AddSongDialog({ sessionId, participantId, open, onOpenChange, onAddSong, onImportSongs, existingSongs, blockDuplicates = false, rounds = [], remainingSongs }: AddSongDialogProps) {
+  const [selectedRoundId, setSelectedRoundId] = useState<string | null>(null);
+  const [source, setSource] = useState<MusicSource>('youtube');
   const [searchQuery, setSearchQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<Track[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [addingId, setAddingId] = useState<string | null>(null);
+  const [isPlaylist, setIsPlaylist] = useState(false); // results are a playlist to pick from
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!searchQuery.trim()) return;
+  // Default to the first round that still has room
+  const selectedRound =
+    rounds.find((r) => r.id === selectedRoundId) ?? rounds.find((r) => r.remaining > 0) ?? rounds[0];
+  const isQuotaReached = (!!selectedRound && selectedRound.remaining <= 0) || remainingSongs === 0;
+  const selectionLimit = Math.min(remainingSongs ?? Infinity, selectedRound?.remaining ?? Infinity);
+
+  const isTooLong = (song: Track) => song.duration > MAX_SONG_DURATION;
+  const isQueued = (song: Track) =>
+    existingSongs.some((s) => s.source === song.source && s.source_id === song.id);
+
+  const search = async (query: string, searchSource: MusicSource) => {
+    if (!query.trim()) return;
+
+    // A pasted link is looked up directly, whichever source tab is selected
+    const playlist = onImportSongs ? detectPlaylistLink(query) : null;
+    const link = playlist ? null : detectMusicLink(query);
 
     setIsSearching(true);
+    setSearchError(null);
+    setSelectedIds([]);
     try {
-      const response = await fetch(`/api/youtube/search?q=${encodeURIComponent(searchQuery)}`);
+      const session: Record<string, string> = sessionId && participantId ? { sessionId, participantId } : {};
+      const init = { headers: participantHeaders() };
+      const response = playlist
+        ? await fetch(`/api/songs/import-playlist?` + new URLSearchParams({ playlist: query.trim(), ...session }), init)
+        : link
+          ? await fetch(`/api/songs/resolve?` + new URLSearchParams({ url: query.trim(), ...session }), init)
+          : await fetch(`/api/songs/search?` + new URLSearchParams({ source: searchSource, q: query, ...session }), init);
       const data = await response.json();
 
+      if (playlist || link) setSource((playlist ?? link)!.source);
+      setIsPlaylist(!!playlist && !!data.results);
+
       if (data.results) {
         setResults(data.results);
+      } else {
+        setResults([]);
+        setSearchError(data.error || 'Search failed');
       }
     } catch (error) {
       console.error('Search error:', error);
+      setSearchError('Search failed');
     } finally {
       setIsSearching(false);
     }
   };
 
-  const handleAddSong = async (song: SearchResult) => {
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await search(searchQuery, source);
+  };
+
+  // Switching source re-runs the current query against the new source
+  const handleSourceChange = (newSource: MusicSource) => {
+    if (newSource === source) return;
+    setSource(newSource);
+    if (detectMusicLink(searchQuery) || detectPlaylistLink(searchQuery)) return;
+    setResults([]);
+    search(searchQuery, newSource);
+  };
+
+  const handleAddSong = async (song: Track) => {
     console.log('Attempting to add song:', song);
 
     // Validate song duration (max 6 minutes)
-    const MAX_DURATION = 360; // 6 minutes in seconds
-    if (song.duration > MAX_DURATION) {
+    if (isTooLong(song)) {
       alert(`This song is too long! Maximum duration is 6 minutes. This song is ${formatDuration(song.duration)}.`);
       return;
     }
 
     setAddingId(song.id);
     try {
-      await onAddSong(song);
+      await onAddSong(song, selectedRound?.id);
       console.log('Song added successfully!');
       // Optionally close dialog after adding
       // onOpenChange(false);
@@ -72,6 +128,33 @@ export default function AddSongDialog({ open, onOpenChange, onAddSong, existingS
     }
   };
 
+  const toggleSelected = (songId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(songId)
+        ? ids.filter((id) => id !== songId)
+        : ids.length < selectionLimit
+          ? [...ids, songId]
+          : ids
+    );
+  };
+
+  const handleImportSelected = async () => {
+    if (!onImportSongs || selectedIds.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const { added, skipped } = await onImportSongs(source, selectedIds, selectedRound?.id);
+      console.log(`Imported ${added} songs (${skipped} skipped)`);
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('Error importing songs:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to add songs: ${errorMessage}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -84,13 +167,51 @@ export default function AddSongDialog({ open, onOpenChange, onAddSong, existingS
         <DialogHeader>
           <DialogTitle>Add Song</DialogTitle>
           <DialogDescription>
-            Search for a song on YouTube to add to the queue
+            Search for a song on {MUSIC_SOURCES[source].label} or paste a song or playlist link to add to the queue
+            {remainingSongs !== undefined &&
+              ` · ${remainingSongs} ${remainingSongs === 1 ? 'song' : 'songs'} left`}
           </DialogDescription>
         </DialogHeader>
 
+        {rounds.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {rounds.map((round) => (
+                <Button
+                  key={round.id}
+                  type="button"
+                  size="sm"
+                  variant={round.id === selectedRound?.id ? 'default' : 'outline'}
+                  onClick={() => setSelectedRoundId(round.id)}
+                >
+                  {round.name}
+                  <span className="ml-1 text-xs opacity-70">({round.remaining} left)</span>
+                </Button>
+              ))}
+            </div>
+            {selectedRound?.prompt && (
+              <p className="text-sm text-muted-foreground">{selectedRound.prompt}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {MUSIC_SOURCE_LIST.map(({ source: value, label }) => (
+            <Button
+              key={value}
+              type="button"
+              size="sm"
+              variant={value === source ? 'default' : 'outline'}
+              onClick={() => handleSourceChange(value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
         <form onSubmit={handleSearch} className="flex gap-2">
           <Input
-            placeholder="Search for a song..."
+            placeholder="Search for a song or paste a link..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="flex-1"
@@ -106,62 +227,127 @@ export default function AddSongDialog({ open, onOpenChange, onAddSong, existingS
 
         <div className="flex-1 overflow-y-auto space-y-2 mt-4">
           {results.length === 0 && !isSearching && (
-            <p className="text-center text-muted-foreground py-8">
-              Search for songs to add to your queue
+            <p className={`text-center py-8 ${searchError ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {searchError ?? 'Search for songs to add to your queue'}
             </p>
           )}
 
           {results.map((song) => {
-            const isTooLong = song.duration > 360; // 6 minutes
-            const isDuplicate = existingSongs.some((s) => s.source_id === song.id);
-            const isDisabled = isTooLong || isDuplicate;
+            const tooLong = isTooLong(song);
+            const isDuplicate = isQueued(song);
+            // Same song as another upload or from another source
+            const similar = isDuplicate ? undefined : findDuplicateSong(song, existingSongs);
+            const isBlocked = !!similar && blockDuplicates;
+            const isSelected = selectedIds.includes(song.id);
+            const isDisabled = tooLong || isDuplicate || isBlocked || (isQuotaReached && !isSelected);
 
             return (
               <div
-                key={song.id}
+                key={`${song.source}:${song.id}`}
                 className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
                   isDisabled ? 'opacity-50 border-destructive/50' : 'hover:bg-muted/50'
                 }`}
               >
-                <Image
-                  src={song.thumbnail}
-                  alt={song.title}
-                  width={80}
-                  height={60}
-                  className="rounded object-cover"
-                />
+                {song.thumbnail ? (
+                  <Image
+                    src={song.thumbnail}
+                    alt={song.title}
+                    width={80}
+                    height={60}
+                    className="rounded object-cover"
+                  />
+                ) : (
+                  <div className="w-20 h-[60px] rounded bg-muted" />
+                )}
                 <div className="flex-1 min-w-0">
-                  <div className="font-medium truncate">{song.title}</div>
+                  <div className="font-medium truncate" title={song.rawTitle}>{song.title}</div>
                   <div className="text-sm text-muted-foreground truncate">{song.artist}</div>
                   <div className={`text-xs mt-1 ${isDisabled ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
                     {formatDuration(song.duration)}
-                    {isTooLong && ' (Too long - max 6 min)'}
+                    {tooLong && ' (Too long - max 6 min)'}
                     {isDuplicate && ' (Already in queue)'}
+                    {isBlocked && !tooLong && ' (Duplicate)'}
+                    {isQuotaReached && !tooLong && !isDuplicate && !isBlocked &&
+                      (remainingSongs === 0 ? ' (No songs left)' : ' (Round is full)')}
                   </div>
-                </div>
-                <Button
-                  size="sm"
-                  onClick={() => handleAddSong(song)}
-                  disabled={addingId === song.id || isDisabled}
-                  variant={isDisabled ? 'ghost' : 'default'}
-                >
-                  {addingId === song.id ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : isTooLong ? (
-                    'Too Long'
-                  ) : isDuplicate ? (
-                    'In Queue'
-                  ) : (
-                    <>
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add
-                    </>
+                  {similar && (
+                    <div className="flex items-center gap-2 mt-2 text-xs text-yellow-600 dark:text-yellow-500">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      {similar.album_art && (
+                        <Image
+                          src={similar.album_art}
+                          alt={similar.title}
+                          width={24}
+                          height={18}
+                          className="rounded object-cover"
+                        />
+                      )}
+                      <span className="truncate">
+                        Someone already added this: {similar.title} · {similar.artist}
+                      </span>
+                    </div>
                   )}
-                </Button>
+                </div>
+                {isPlaylist ? (
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={isSelected}
+                    disabled={isImporting || tooLong || isDuplicate || isBlocked || (!isSelected && selectedIds.length >= selectionLimit)}
+                    onChange={() => toggleSelected(song.id)}
+                    aria-label={`Select ${song.title}`}
+                  />
+                ) : (
+                  <Button
+                    size="sm"
+                    onClick={() => handleAddSong(song)}
+                    disabled={addingId === song.id || isDisabled}
+                    variant={isDisabled ? 'ghost' : 'default'}
+                  >
+                    {addingId === song.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : tooLong ? (
+                      'Too Long'
+                    ) : isDuplicate ? (
+                      'In Queue'
+                    ) : isBlocked ? (
+                      'Duplicate'
+                    ) : isQuotaReached ? (
+                      'Full'
+                    ) : (
+                      <>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add
+                      </>
+                    )}
+                  </Button>
+                )}
               </div>
             );
           })}
         </div>
+
+        {isPlaylist && results.length > 0 && (
+          <div className="flex items-center justify-between gap-3 border-t pt-3">
+            <span className="text-sm text-muted-foreground">
+              {selectedIds.length} selected
+              {Number.isFinite(selectionLimit) && ` · up to ${selectionLimit}`}
+            </span>
+            <Button
+              onClick={handleImportSelected}
+              disabled={selectedIds.length === 0 || isImporting}
+            >
+              {isImporting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <ListMusic className="h-4 w-4 mr-1" />
+                  Add selected
+                </>
+              )}
+            </Button>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
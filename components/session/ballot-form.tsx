@@ -0,0 +1,103 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { ListOrdered, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { Database } from '@/lib/supabase/database.types';
+import { BALLOT_SIZE } from '@/lib/session/scoring';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+
+interface BallotFormProps {
+  songs: Song[]; // songs this participant may rank (not their own)
+  ranking: string[] | null; // submitted ballot, if any
+  onSubmit: (ranking: string[]) => Promise<void>;
+}
+
+/**
+ * BallotForm - Rank your favourite songs of the session (borda scoring)
+ * Tap songs in order of preference; tap again to remove
+ */
+const BallotForm = memo(function BallotForm({ songs, ranking, onSubmit }: BallotFormProps) {
+  const [picked, setPicked] = useState<string[]>(ranking ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const size = Math.min(BALLOT_SIZE, songs.length);
+  const isUnchanged = !!ranking && ranking.join() === picked.join();
+
+  const toggle = (songId: string) => {
+    setError(null);
+    setPicked((current) =>
+      current.includes(songId)
+        ? current.filter((id) => id !== songId)
+        : current.length < size
+          ? [...current, songId]
+          : current
+    );
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(picked);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit ballot');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (size === 0) return null;
+
+  return (
+    <div className="bg-card p-4 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-semibold">
+          <ListOrdered className="h-4 w-4" />
+          Your ballot
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {ranking ? 'Submitted · you can still change it' : `Pick your top ${size}`}
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        {songs.map((song) => {
+          const rank = picked.indexOf(song.id);
+          return (
+            <button
+              key={song.id}
+              type="button"
+              onClick={() => toggle(song.id)}
+              className={`flex w-full items-center gap-3 rounded-md p-2 text-left text-sm transition-colors ${
+                rank !== -1 ? 'bg-secondary' : 'hover:bg-secondary/50'
+              }`}
+            >
+              <span className="flex h-6 w-6 items-center justify-center rounded-full border text-xs font-bold">
+                {rank !== -1 ? rank + 1 : ''}
+              </span>
+              <span className="flex-1 min-w-0 truncate">
+                {song.title} <span className="text-muted-foreground">· {song.artist}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <Button
+        size="sm"
+        onClick={handleSubmit}
+        disabled={isSaving || picked.length !== size || isUnchanged}
+      >
+        {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {ranking ? 'Update ballot' : 'Submit ballot'}
+      </Button>
+    </div>
+  );
+});
+
+export default BallotForm;
@@ -3,6 +3,7 @@
 import { memo, useEffect } from 'react';
 import ChatMessages from './chat-messages';
 import { useSessionStore } from '@/lib/store/session-store';
+import { PERKS } from '@/lib/session/perks';
 import type { Database } from '@/lib/supabase/database.types';
 
 type Participant = Database['public']['Tables']['participants']['Row'];
@@ -26,6 +27,10 @@ const ChatMessagesContainer = memo(function ChatMessagesContainer({
   const chatMessages = useSessionStore((state) => state.chatMessages);
   const loadChatMessages = useSessionStore((state) => state.loadChatMessages);
   const sendChatMessage = useSessionStore((state) => state.sendChatMessage);
+  const buyPerk = useSessionStore((state) => state.buyPerk);
+
+  const pinCost = PERKS.pin_chat.cost;
+  const karma = participants.find((p) => p.id === currentParticipantId)?.karma ?? 0;
 
   // Load messages when song changes
   useEffect(() => {
@@ -40,6 +45,8 @@ const ChatMessagesContainer = memo(function ChatMessagesContainer({
       participants={participants}
       currentParticipantId={currentParticipantId}
       onSendMessage={(message) => sendChatMessage(songId, message)}
+      onPinMessage={karma >= pinCost ? (messageId) => buyPerk('pin_chat', messageId) : undefined}
+      pinCost={pinCost}
     />
   );
 });
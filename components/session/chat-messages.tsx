@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { MessageCircle, Send, ChevronDown, ChevronUp } from 'lucide-react';
+import { MessageCircle, Send, ChevronDown, ChevronUp, Pin } from 'lucide-react';
 import type { Database } from '@/lib/supabase/database.types';
 
 type ChatMessage = Database['public']['Tables']['chat_messages']['Row'];
@@ -15,6 +15,8 @@ interface ChatMessagesProps {
   participants: Participant[];
   currentParticipantId?: string;
   onSendMessage: (message: string) => Promise<void>;
+  onPinMessage?: (messageId: string) => Promise<void>; // pin_chat perk (omit when unaffordable)
+  pinCost?: number;
 }
 
 /**
@@ -25,10 +27,13 @@ export default function ChatMessages({
   participants,
   currentParticipantId,
   onSendMessage,
+  onPinMessage,
+  pinCost,
 }: ChatMessagesProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [inputMessage, setInputMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [pinningId, setPinningId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when new messages arrive (only if open)
@@ -53,6 +58,23 @@ export default function ChatMessages({
     }
   };
 
+  const handlePinMessage = async (messageId: string) => {
+    if (!onPinMessage || pinningId) return;
+
+    setPinningId(messageId);
+    try {
+      await onPinMessage(messageId);
+    } catch (error) {
+      console.error('Error pinning message:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to pin message: ${errorMessage}`);
+    } finally {
+      setPinningId(null);
+    }
+  };
+
+  const pinnedMessage = messages.find((m) => m.pinned_at);
+
   const getParticipantName = (participantId: string) => {
     const participant = participants.find(p => p.id === participantId);
     return participant?.user_name || 'Unknown';
@@ -81,6 +103,21 @@ export default function ChatMessages({
         )}
       </button>
 
+      {/* Pinned message - visible even when collapsed */}
+      {pinnedMessage && (
+        <div className="flex items-start gap-2 border-t px-3 py-2 text-xs bg-yellow-500/10">
+          <Pin className="h-3 w-3 mt-0.5 text-yellow-500 shrink-0" />
+          <div className="min-w-0">
+            <span className="font-medium">
+              {pinnedMessage.participant_id === currentParticipantId
+                ? 'You'
+                : getParticipantName(pinnedMessage.participant_id)}:
+            </span>{' '}
+            <span>{pinnedMessage.message}</span>
+          </div>
+        </div>
+      )}
+
       {/* Collapsible content */}
       {isOpen && (
         <div className="border-t">
@@ -98,12 +135,24 @@ export default function ChatMessages({
                 return (
                   <div
                     key={message.id}
-                    className="text-xs"
+                    className="group flex items-start gap-1 text-xs"
                   >
-                    <span className="font-medium">
-                      {isCurrentUser ? 'You' : senderName}:
-                    </span>{' '}
-                    <span>{message.message}</span>
+                    <div className="flex-1 min-w-0">
+                      <span className="font-medium">
+                        {isCurrentUser ? 'You' : senderName}:
+                      </span>{' '}
+                      <span>{message.message}</span>
+                    </div>
+                    {onPinMessage && !message.pinned_at && (
+                      <button
+                        onClick={() => handlePinMessage(message.id)}
+                        disabled={pinningId !== null}
+                        className="opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
+                        title={pinCost ? `Pin for ${pinCost} karma` : 'Pin message'}
+                      >
+                        <Pin className="h-3 w-3" />
+                      </button>
+                    )}
                   </div>
                 );
               })
@@ -0,0 +1,56 @@
+'use client';
+
+import { memo, useEffect, useState } from 'react';
+import { useClockState } from '@/hooks/use-clock-sync';
+
+// Drift under this is inaudible between devices in the same room
+const DRIFT_OK_SECONDS = 0.5;
+
+function formatMs(ms: number): string {
+  return `${ms > 0 ? '+' : ''}${Math.round(ms)}ms`;
+}
+
+/**
+ * ClockDebugOverlay - Clock offset and playback drift of this client
+ * Only shown with ?debug in the URL
+ */
+const ClockDebugOverlay = memo(function ClockDebugOverlay() {
+  const [enabled, setEnabled] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const { offset, rtt, syncedAt, drift } = useClockState();
+
+  useEffect(() => {
+    setEnabled(new URLSearchParams(window.location.search).has('debug'));
+  }, []);
+
+  // Keep "synced Xs ago" current
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  if (!enabled) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 rounded-lg border bg-background/90 p-3 font-mono text-xs shadow-lg backdrop-blur space-y-1">
+      <p className="font-semibold">Clock sync</p>
+      <p>Offset: {syncedAt ? formatMs(offset) : 'not synced'}</p>
+      <p>Round trip: {rtt !== null ? `${rtt}ms` : '-'}</p>
+      <p>Synced: {syncedAt ? `${Math.round((now - syncedAt) / 1000)}s ago` : '-'}</p>
+      <p>
+        Playback drift:{' '}
+        {drift !== null ? (
+          <span className={Math.abs(drift) <= DRIFT_OK_SECONDS ? 'text-green-500' : 'text-yellow-500'}>
+            {formatMs(drift * 1000)}
+          </span>
+        ) : (
+          '-'
+        )}
+      </p>
+    </div>
+  );
+});
+
+export default ClockDebugOverlay;
@@ -0,0 +1,74 @@
+'use client';
+
+import { memo } from 'react';
+import { ArrowLeftRight, ShieldAlert, ShieldCheck, UserX } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { FLAGGED_VOTE_WEIGHT } from '@/lib/session/fairness';
+import type { FairnessReport } from '@/lib/session/fairness';
+
+interface FairnessPanelProps {
+  report: FairnessReport;
+  downweighted: boolean;
+}
+
+/**
+ * FairnessPanel - Voting patterns flagged by the fairness check:
+ * pairs who rate each other far above everyone else, and outlier voters
+ */
+const FairnessPanel = memo(function FairnessPanel({ report, downweighted }: FairnessPanelProps) {
+  const { pairs, outliers, flaggedVotes } = report;
+
+  if (pairs.length === 0 && outliers.length === 0) {
+    return (
+      <div className="flex items-center gap-2 bg-card p-4 rounded-lg text-sm text-muted-foreground">
+        <ShieldCheck className="h-4 w-4" />
+        No suspicious voting patterns
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card p-4 rounded-lg space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-semibold">
+          <ShieldAlert className="h-4 w-4 text-yellow-500" />
+          {flaggedVotes} flagged {flaggedVotes === 1 ? 'vote' : 'votes'}
+        </div>
+        <Badge variant="secondary" className="text-xs">
+          {downweighted
+            ? `Counted at ${Math.round(FLAGGED_VOTE_WEIGHT * 100)}% weight`
+            : 'Counted in full'}
+        </Badge>
+      </div>
+
+      {pairs.map(({ participants: [a, b], mutualAverage, othersAverage }) => (
+        <div key={`${a.id}:${b.id}`} className="flex items-start gap-2">
+          <ArrowLeftRight className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+          <div className="min-w-0">
+            <div className="font-medium truncate">
+              {a.user_name || 'Unknown'} ⇄ {b.user_name || 'Unknown'}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Rate each other {mutualAverage[0].toFixed(1)} / {mutualAverage[1].toFixed(1)} ⭐ vs.{' '}
+              {othersAverage[0].toFixed(1)} / {othersAverage[1].toFixed(1)} ⭐ for everyone else
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {outliers.map(({ participant, deviation, votes }) => (
+        <div key={participant.id} className="flex items-start gap-2">
+          <UserX className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+          <div className="min-w-0">
+            <div className="font-medium truncate">{participant.user_name || 'Unknown'}</div>
+            <div className="text-xs text-muted-foreground">
+              {deviation.toFixed(1)} ⭐ away from the room on average ({votes} votes)
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export default FairnessPanel;
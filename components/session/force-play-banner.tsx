@@ -0,0 +1,51 @@
+'use client';
+
+import { memo, useEffect, useState } from 'react';
+import { Zap } from 'lucide-react';
+import type { BroadcastEvents } from '@/lib/realtime';
+import { HIDDEN_SUBMITTER_NAME } from '@/lib/session/blind-mode';
+
+// How long the announcement stays up
+const BANNER_DURATION_MS = 8000;
+
+interface ForcePlayBannerProps {
+  forcePlay: BroadcastEvents['force_play_used'] | null;
+  blindMode: boolean;
+}
+
+/**
+ * ForcePlayBanner - Announces who just used a force play
+ * In blind mode the name stays hidden (a force play is always on your own song)
+ */
+const ForcePlayBanner = memo(function ForcePlayBanner({ forcePlay, blindMode }: ForcePlayBannerProps) {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (!forcePlay) return;
+
+    // Don't replay an old announcement when the view remounts
+    const remaining = BANNER_DURATION_MS - (Date.now() - forcePlay.timestamp);
+    if (remaining <= 0) return;
+
+    setVisible(true);
+    const timeout = setTimeout(() => setVisible(false), remaining);
+    return () => clearTimeout(timeout);
+  }, [forcePlay]);
+
+  if (!forcePlay || !visible) return null;
+
+  const name = blindMode ? HIDDEN_SUBMITTER_NAME : forcePlay.participant_name;
+
+  return (
+    <div className="flex items-center justify-center gap-2 rounded-lg bg-yellow-500/10 border border-yellow-500/30 p-2 text-sm animate-in fade-in slide-in-from-top-2 duration-300">
+      <Zap className="h-4 w-4 text-yellow-500 fill-yellow-500" />
+      <span>
+        <span className="font-semibold">{name}</span> used a force play:{' '}
+        <span className="font-medium">{forcePlay.song_title}</span>{' '}
+        {forcePlay.mode === 'now' ? 'is playing now' : 'plays next'}
+      </span>
+    </div>
+  );
+});
+
+export default ForcePlayBanner;
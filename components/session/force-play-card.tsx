@@ -0,0 +1,98 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { Loader2, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { Database } from '@/lib/supabase/database.types';
+import type { ForcePlayMode } from '@/lib/types';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+
+interface ForcePlayCardProps {
+  eligibleSongs: Song[]; // your own upcoming songs that can be pulled forward
+  upNextSongId?: string; // already next - "Play next" would waste a card
+  tokensLeft: number;
+  cooldownRemaining: number; // seconds
+  onForcePlay: (songId: string, mode: ForcePlayMode) => Promise<void>;
+}
+
+const formatCountdown = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * ForcePlayCard - Spend a force play token to play one of your songs next or now
+ */
+const ForcePlayCard = memo(function ForcePlayCard({
+  eligibleSongs,
+  upNextSongId,
+  tokensLeft,
+  cooldownRemaining,
+  onForcePlay,
+}: ForcePlayCardProps) {
+  const [pending, setPending] = useState<string | null>(null);
+
+  const canUse = tokensLeft > 0 && cooldownRemaining === 0;
+
+  const handleForcePlay = async (songId: string, mode: ForcePlayMode) => {
+    setPending(`${songId}:${mode}`);
+    try {
+      await onForcePlay(songId, mode);
+    } catch (error) {
+      console.error('Error using force play:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to force play: ${errorMessage}`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-yellow-500/30 p-3 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1 font-semibold">
+          <Zap className={`h-3 w-3 ${canUse ? 'text-yellow-500 fill-yellow-500' : ''}`} />
+          Force Play
+        </span>
+        <span className="text-muted-foreground">
+          {tokensLeft === 0
+            ? 'No cards left'
+            : cooldownRemaining > 0
+              ? `Ready in ${formatCountdown(cooldownRemaining)}`
+              : `${tokensLeft} ${tokensLeft === 1 ? 'card' : 'cards'} left`}
+        </span>
+      </div>
+
+      {eligibleSongs.length === 0 ? (
+        <div className="text-xs text-muted-foreground">
+          None of your songs can be pulled forward right now
+        </div>
+      ) : (
+        eligibleSongs.map((song) => (
+          <div key={song.id} className="flex items-center gap-2 text-sm">
+            <span className="flex-1 min-w-0 truncate">{song.title}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!canUse || pending !== null || song.id === upNextSongId}
+              onClick={() => handleForcePlay(song.id, 'next')}
+            >
+              {pending === `${song.id}:next` ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Play next'}
+            </Button>
+            <Button
+              size="sm"
+              disabled={!canUse || pending !== null}
+              onClick={() => handleForcePlay(song.id, 'now')}
+            >
+              {pending === `${song.id}:now` ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Play now'}
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+});
+
+export default ForcePlayCard;
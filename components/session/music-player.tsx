@@ -0,0 +1,45 @@
+'use client';
+
+import { memo, type ComponentType } from 'react';
+import YouTubePlayerComponent from '@/components/session/youtube-player';
+import SpotifyPlayerComponent from '@/components/session/spotify-player';
+import SoundCloudPlayerComponent from '@/components/session/soundcloud-player';
+import { getMusicSource } from '@/lib/music';
+import type { MusicPlayerProps, MusicSource } from '@/lib/music';
+
+// Embeddable player for each music source
+const PLAYERS: Record<MusicSource, ComponentType<MusicPlayerProps>> = {
+  youtube: function YouTubeSourcePlayer({ sourceId, ...props }) {
+    return <YouTubePlayerComponent videoId={sourceId} {...props} />;
+  },
+  spotify: function SpotifySourcePlayer({ sourceId, ...props }) {
+    return <SpotifyPlayerComponent trackId={sourceId} {...props} />;
+  },
+  soundcloud: function SoundCloudSourcePlayer({ sourceId, ...props }) {
+    return <SoundCloudPlayerComponent trackId={sourceId} {...props} />;
+  },
+};
+
+interface MusicPlayerComponentProps extends MusicPlayerProps {
+  source: string; // songs.source
+}
+
+/**
+ * MusicPlayer - Picks the player for a song's source
+ */
+const MusicPlayer = memo(function MusicPlayer({ source, ...props }: MusicPlayerComponentProps) {
+  const info = getMusicSource(source);
+
+  if (!info) {
+    return (
+      <div className="w-full aspect-video bg-black rounded-lg flex items-center justify-center text-white/70 text-sm">
+        Unsupported music source: {source}
+      </div>
+    );
+  }
+
+  const Player = PLAYERS[info.source];
+  return <Player {...props} />;
+});
+
+export default MusicPlayer;
@@ -9,6 +9,7 @@ import { Crown, Radio } from 'lucide-react';
 interface OnlineUsersProps {
   users: PresenceState[];
   currentUserId?: string;
+  onTransferHost?: (userId: string) => void;
 }
 
 /**
@@ -19,10 +20,12 @@ interface OnlineUsersProps {
  * - Shows host badge
  * - Highlights current user
  * - Shows listening status
+ * - Lets the host hand over the crown (when onTransferHost is provided)
  */
 const OnlineUsers = memo(function OnlineUsers({
   users,
   currentUserId,
+  onTransferHost,
 }: OnlineUsersProps) {
   if (users.length === 0) {
     return null;
@@ -66,6 +69,17 @@ const OnlineUsers = memo(function OnlineUsers({
               <Crown className="h-3.5 w-3.5 text-yellow-500" />
             )}
 
+            {/* Transfer host - revealed on hover */}
+            {onTransferHost && !user.is_host && !isCurrentUser && (
+              <button
+                onClick={() => onTransferHost(user.user_id)}
+                className="hidden group-hover:flex items-center justify-center h-5 w-5 rounded-full bg-muted hover:bg-yellow-500/20 transition-colors"
+                title={`Make ${user.user_name} the host`}
+              >
+                <Crown className="h-3 w-3 text-muted-foreground" />
+              </button>
+            )}
+
             {/* Tooltip on hover */}
             <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-popover text-popover-foreground text-xs rounded shadow-lg opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity whitespace-nowrap z-10">
               {user.user_name}
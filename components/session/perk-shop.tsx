@@ -0,0 +1,127 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Loader2, Trophy } from 'lucide-react';
+import { PERKS, PERK_TYPES } from '@/lib/session/perks';
+import type { Database } from '@/lib/supabase/database.types';
+import type { PerkType } from '@/lib/types';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+
+interface PerkShopProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  karma: number;
+  ownedPerks: Record<PerkType, number>;
+  vetoableSongs: Song[]; // other participants' upcoming songs
+  allowForcePlay: boolean;
+  onBuyPerk: (perk: PerkType, targetId?: string) => Promise<void>;
+}
+
+/**
+ * PerkShop - Spend karma on perks (extra slot, force play token, veto)
+ * Pinning a chat message is bought from the chat itself
+ */
+const PerkShop = memo(function PerkShop({
+  open,
+  onOpenChange,
+  karma,
+  ownedPerks,
+  vetoableSongs,
+  allowForcePlay,
+  onBuyPerk,
+}: PerkShopProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [showVetoPicker, setShowVetoPicker] = useState(false);
+
+  const handleBuy = async (perk: PerkType, targetId?: string) => {
+    setPending(targetId ?? perk);
+    try {
+      await onBuyPerk(perk, targetId);
+      if (perk === 'veto') setShowVetoPicker(false);
+    } catch (error) {
+      console.error('Error buying perk:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      alert(`Failed to buy perk: ${errorMessage}`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const unavailableReason = (perk: PerkType): string | null => {
+    if (perk === 'pin_chat') return 'Use the pin button in the chat';
+    if (perk === 'force_play_token' && !allowForcePlay) return 'Force play is disabled';
+    if (perk === 'veto' && vetoableSongs.length === 0) return 'No songs to veto';
+    return null;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Perk Shop</DialogTitle>
+          <DialogDescription className="flex items-center gap-1">
+            <Trophy className="h-4 w-4 text-yellow-500" />
+            You have {karma} karma
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {PERK_TYPES.map((perk) => {
+            const { label, description, cost } = PERKS[perk];
+            const reason = unavailableReason(perk);
+            const canAfford = karma >= cost;
+
+            return (
+              <div key={perk} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">
+                      {label}
+                      {ownedPerks[perk] > 0 && (
+                        <span className="ml-2 text-xs text-muted-foreground">owned ×{ownedPerks[perk]}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{reason ?? description}</div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={perk === 'veto' && showVetoPicker ? 'default' : 'outline'}
+                    disabled={!!reason || !canAfford || pending !== null}
+                    onClick={() =>
+                      perk === 'veto' ? setShowVetoPicker(!showVetoPicker) : handleBuy(perk)
+                    }
+                  >
+                    {pending === perk ? <Loader2 className="h-3 w-3 animate-spin" /> : `${cost} karma`}
+                  </Button>
+                </div>
+
+                {perk === 'veto' && showVetoPicker && (
+                  <div className="space-y-1 border-t pt-2">
+                    {vetoableSongs.map((song) => (
+                      <div key={song.id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 min-w-0 truncate">{song.title}</span>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={pending !== null}
+                          onClick={() => handleBuy('veto', song.id)}
+                        >
+                          {pending === song.id ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Veto'}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+export default PerkShop;
@@ -0,0 +1,82 @@
+'use client';
+
+import { memo } from 'react';
+import { Ban, Check, RotateCcw, SkipBack, SkipForward, Square, Zap } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { Database } from '@/lib/supabase/database.types';
+import type { PlaybackEndReason } from '@/lib/types';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+type Participant = Database['public']['Tables']['participants']['Row'];
+type PlaybackEvent = Database['public']['Tables']['playback_events']['Row'];
+
+const END_REASONS: Record<PlaybackEndReason, { label: string; icon: LucideIcon }> = {
+  finished: { label: 'Played to the end', icon: Check },
+  skipped: { label: 'Skipped', icon: SkipForward },
+  unplayable: { label: "Couldn't be played", icon: Ban },
+  force_played: { label: 'Force played over', icon: Zap },
+  previous: { label: 'Host went back', icon: SkipBack },
+  replay: { label: 'Replayed', icon: RotateCcw },
+  session_ended: { label: 'Session ended', icon: Square },
+};
+
+function formatDuration(seconds: number) {
+  const total = Math.round(seconds);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+interface PlaybackTimelineProps {
+  events: PlaybackEvent[]; // ordered by started_at
+  songs: Song[];
+  participants: Participant[];
+}
+
+/**
+ * PlaybackTimeline - What actually played, in order: how long each song
+ * ran and why it stopped (replays and skips show up as their own rows)
+ */
+const PlaybackTimeline = memo(function PlaybackTimeline({ events, songs, participants }: PlaybackTimelineProps) {
+  return (
+    <div className="space-y-2">
+      {events.map((event, index) => {
+        const song = songs.find((s) => s.id === event.song_id);
+        const adder = participants.find((p) => p.id === song?.added_by);
+        const reason = event.end_reason ? END_REASONS[event.end_reason as PlaybackEndReason] : undefined;
+        const Icon = reason?.icon;
+
+        return (
+          <div key={event.id} className="flex items-center gap-3 bg-card p-3 rounded-lg text-sm">
+            <div className="w-6 text-xs font-semibold text-muted-foreground">{index + 1}</div>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">{song?.title || 'Removed song'}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {song?.artist}
+                {adder && ` · added by ${adder.user_name || 'Unknown'}`}
+              </div>
+            </div>
+            {reason && Icon && (
+              <Badge variant="secondary" className="text-xs">
+                <Icon className="h-3 w-3 mr-1" />
+                {reason.label}
+              </Badge>
+            )}
+            <div className="text-right text-xs text-muted-foreground tabular-nums">
+              <div>
+                {event.played_seconds !== null ? formatDuration(event.played_seconds) : '-'}
+                {song && ` / ${formatDuration(song.duration)}`}
+              </div>
+              <div>
+                {new Date(event.started_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+export default PlaybackTimeline;
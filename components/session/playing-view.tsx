@@ -1,16 +1,24 @@
 'use client';
 
 import ChatMessagesContainer from '@/components/session/chat-messages-container';
+import ForcePlayBanner from '@/components/session/force-play-banner';
+import RoundHeader from '@/components/session/round-header';
 import SongProgressBar from '@/components/session/song-progress-bar';
 import SongQueueList from '@/components/session/song-queue-list';
 import SongReactions from '@/components/session/song-reactions';
+import SubmitterName from '@/components/session/submitter-name';
+import VotingCountdown from '@/components/session/voting-countdown';
 import VotingStars from '@/components/session/voting-stars';
-import YouTubePlayerComponent from '@/components/session/youtube-player';
+import MusicPlayer from '@/components/session/music-player';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { BroadcastEvents } from '@/lib/realtime';
 import type { Database } from '@/lib/supabase/database.types';
-import { SkipForward } from 'lucide-react';
+import type { ForcePlayMode } from '@/lib/types';
+import type { VotingWindow } from '@/lib/session/voting';
+import { getCompetitors, isDjSong } from '@/lib/session/dj';
+import { Ban, Pause, Play, Radio, RotateCcw, SkipBack, SkipForward } from 'lucide-react';
 import { memo } from 'react';
 
 type Song = Database['public']['Tables']['songs']['Row'];
@@ -18,6 +26,7 @@ type Participant = Database['public']['Tables']['participants']['Row'];
 type Score = Database['public']['Tables']['scores']['Row'];
 type SkipVote = Database['public']['Tables']['skip_votes']['Row'];
 type Reaction = Database['public']['Tables']['reactions']['Row'];
+type Round = Database['public']['Tables']['rounds']['Row'];
 
 interface PlayingViewProps {
   currentSong: Song;
@@ -30,15 +39,35 @@ interface PlayingViewProps {
   currentSongIndex: number | null;
   sessionStartedAt: string | null;
   initialPlaybackTime: number;
+  pausedAt: string | null;
+  positionOffset: number;
+  isHost: boolean;
   currentRating: number;
   hasVoted: boolean;
+  votingWindow: VotingWindow;
+  graceSong: Song | null; // previous song, still votable for a few seconds
+  graceRemaining: number;
+  graceRating: number;
   elapsedTime: number;
   skipAvailableAfterSeconds: number;
+  blindMode: boolean;
+  hiddenSongIds: Set<string>;
+  rounds: Round[];
+  forcePlay?: { tokensLeft: number; cooldownRemaining: number }; // omitted when force play is off
+  lastForcePlay: BroadcastEvents['force_play_used'] | null;
+  unplayableReports: BroadcastEvents['song_unplayable'][];
   onSongEnd: () => void;
+  onUnplayable: (reason: string, errorCode?: number) => void;
   onVote: (rating: number) => Promise<void>;
+  onGraceVote: (rating: number) => Promise<void>;
   onSkipVote: () => void;
   onAddReaction: (songId: string, emoji: string) => Promise<void>;
   onRemoveReaction: (songId: string, emoji: string) => Promise<void>;
+  onForcePlay: (songId: string, mode: ForcePlayMode) => Promise<void>;
+  onTogglePause: () => void; // host only
+  onSeek: (position: number) => void; // host only
+  onPrevious: () => void; // host only
+  onReplay: () => void; // host only
 }
 
 const PlayingView = memo(function PlayingView({
@@ -52,22 +81,53 @@ const PlayingView = memo(function PlayingView({
   currentSongIndex,
   sessionStartedAt,
   initialPlaybackTime,
+  pausedAt,
+  positionOffset,
+  isHost,
   currentRating,
   hasVoted,
+  votingWindow,
+  graceSong,
+  graceRemaining,
+  graceRating,
   elapsedTime,
   skipAvailableAfterSeconds,
+  blindMode,
+  hiddenSongIds,
+  rounds,
+  forcePlay,
+  lastForcePlay,
+  unplayableReports,
   onSongEnd,
+  onUnplayable,
   onVote,
+  onGraceVote,
   onSkipVote,
   onAddReaction,
   onRemoveReaction,
+  onForcePlay,
+  onTogglePause,
+  onSeek,
+  onPrevious,
+  onReplay,
 }: PlayingViewProps) {
   const canSkip = elapsedTime >= skipAvailableAfterSeconds;
   const songSkipVotes = skipVotes.filter((v) => v.song_id === currentSong.id);
   const hasSkipVoted = currentParticipant
     ? songSkipVotes.some((v) => v.participant_id === currentParticipant.id)
     : false;
-  const skipThreshold = Math.ceil(participants.length * 0.5);
+  const skipThreshold = Math.ceil(getCompetitors(participants).length * 0.5);
+
+  // Infinite mode songs from the DJ aren't rated
+  const isDjPick = isDjSong(currentSong, participants);
+  const showGrace = !!graceSong && !isDjSong(graceSong, participants);
+
+  const currentRoundIndex = rounds.findIndex((r) => r.id === currentSong.round_id);
+
+  // Listeners whose player couldn't play this song
+  const unplayableNames = unplayableReports
+    .filter((r) => r.song_id === currentSong.id)
+    .map((r) => r.participant_name);
 
   // Get names of people who voted to skip
   const skipVoterNames = songSkipVotes
@@ -79,6 +139,18 @@ const PlayingView = memo(function PlayingView({
 
   return (
     <div className="space-y-4">
+      {/* Round - keyed so the header animates in when a new round starts */}
+      {currentRoundIndex !== -1 && (
+        <RoundHeader
+          key={rounds[currentRoundIndex].id}
+          round={rounds[currentRoundIndex]}
+          roundNumber={currentRoundIndex + 1}
+          totalRounds={rounds.length}
+        />
+      )}
+
+      <ForcePlayBanner forcePlay={lastForcePlay} blindMode={blindMode} />
+
       {/* Skip Vote Button - Only show when time available */}
       {canSkip && (
         <TooltipProvider>
@@ -114,29 +186,74 @@ const PlayingView = memo(function PlayingView({
           </Tooltip>
         </TooltipProvider>
       )}
+      {/* Players that failed - the host's failing too skips the song */}
+      {unplayableNames.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/10 px-3 py-2 text-sm">
+          <Ban className="h-4 w-4 shrink-0 text-destructive" />
+          <span>
+            Can&apos;t play for {unplayableNames.length} {unplayableNames.length === 1 ? 'listener' : 'listeners'}
+            <span className="text-muted-foreground"> ({unplayableNames.join(', ')})</span>
+          </span>
+        </div>
+      )}
+
       {/* Video Player */}
       <Card className="border-0 p-0">
         <CardContent className="p-0">
 
-          {currentSong.source === 'youtube' && (
-            <YouTubePlayerComponent
-              key={currentSong.id}
-              videoId={currentSong.source_id}
-              onEnd={onSongEnd}
-              autoplay={true}
-              startTime={initialPlaybackTime}
-              sessionStartedAt={sessionStartedAt || undefined}
-            />
-          )}
+          {/* Keyed by start time too, so a replay restarts the player */}
+          <MusicPlayer
+            key={`${currentSong.id}-${sessionStartedAt}`}
+            source={currentSong.source}
+            sourceId={currentSong.source_id}
+            onEnd={onSongEnd}
+            onUnplayable={onUnplayable}
+            autoplay={true}
+            startTime={initialPlaybackTime}
+            sessionStartedAt={sessionStartedAt || undefined}
+            pausedAt={pausedAt || undefined}
+            positionOffset={positionOffset}
+          />
         </CardContent>
       </Card>
 
       {/* Progress Bar */}
       {sessionStartedAt && (
-        <SongProgressBar
-          duration={currentSong.duration}
-          startedAt={sessionStartedAt}
-        />
+        <div className="flex items-center gap-3">
+          {/* Host playback controls - pause and seek apply to the whole room */}
+          {isHost && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={onPrevious}
+                disabled={!currentSongIndex}
+                title="Back to the previous song"
+              >
+                <SkipBack className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={onTogglePause}
+                title={pausedAt ? 'Resume for everyone' : 'Pause for everyone'}
+              >
+                {pausedAt ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              </Button>
+              <Button variant="outline" size="icon" onClick={onReplay} title="Replay this song from the start">
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          <SongProgressBar
+            duration={currentSong.duration}
+            startedAt={sessionStartedAt}
+            pausedAt={pausedAt}
+            positionOffset={positionOffset}
+            onSeek={isHost ? onSeek : undefined}
+            className="flex-1"
+          />
+        </div>
       )}
 
       {/* Song Info & Voting */}
@@ -147,6 +264,20 @@ const PlayingView = memo(function PlayingView({
 
             <div className="font-semibold truncate">{currentSong.title}</div>
             <div className="text-sm text-muted-foreground truncate">{currentSong.artist}</div>
+            {isDjPick ? (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5">
+                <Radio className="h-3 w-3" />
+                Picked by the DJ
+              </div>
+            ) : blindMode && (
+              <div className="text-xs text-muted-foreground truncate mt-0.5">
+                Added by{' '}
+                <SubmitterName
+                  name={participants.find((p) => p.id === currentSong.added_by)?.user_name || 'Unknown'}
+                  hidden={hiddenSongIds.has(currentSong.id)}
+                />
+              </div>
+            )}
 
 
           </div>
@@ -158,13 +289,39 @@ const PlayingView = memo(function PlayingView({
             onAddReaction={(emoji) => onAddReaction(currentSong.id, emoji)}
             onRemoveReaction={(emoji) => onRemoveReaction(currentSong.id, emoji)}
           />
-          <VotingStars
-            currentRating={currentRating}
-            hasVoted={hasVoted}
-            onVote={onVote}
-          />
+          {isDjPick ? (
+            <div className="text-xs text-muted-foreground">Not scored</div>
+          ) : (
+            <div className="flex flex-col items-end gap-1">
+              <VotingStars
+                currentRating={currentRating}
+                hasVoted={hasVoted}
+                locked={votingWindow.phase !== 'open'}
+                onVote={onVote}
+              />
+              <VotingCountdown votingWindow={votingWindow} />
+            </div>
+          )}
         </div>
 
+        {/* Grace period for the song that just ended */}
+        {showGrace && graceSong && (
+          <div className="flex items-center justify-between gap-3 rounded-lg bg-secondary p-2">
+            <div className="text-xs text-muted-foreground min-w-0 truncate">
+              {graceRating > 0 ? 'Change your rating for' : 'Last chance to rate'}{' '}
+              <span className="font-medium text-foreground">{graceSong.title}</span> · {graceRemaining}s
+            </div>
+            <VotingStars
+              key={graceSong.id}
+              currentRating={graceRating}
+              hasVoted={graceRating > 0}
+              locked={false}
+              onVote={onGraceVote}
+              size="sm"
+            />
+          </div>
+        )}
+
         
 
         
@@ -184,6 +341,12 @@ const PlayingView = memo(function PlayingView({
         scores={scores}
         currentSongIndex={currentSongIndex ?? undefined}
         showScores={true}
+        hiddenSongIds={hiddenSongIds}
+        blindMode={blindMode}
+        rounds={rounds}
+        currentParticipantId={currentParticipant?.id}
+        forcePlay={forcePlay}
+        onForcePlay={onForcePlay}
       />
     </div>
   );
@@ -0,0 +1,150 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { Database } from '@/lib/supabase/database.types';
+import type { RoundOrdering } from '@/lib/session/rounds';
+
+type Round = Database['public']['Tables']['rounds']['Row'];
+
+interface RoundEditorProps {
+  rounds: Round[];
+  onAddRound: (round: Pick<Round, 'name' | 'prompt' | 'songs_per_participant' | 'ordering'>) => Promise<void>;
+  onRemoveRound: (roundId: string) => Promise<void>;
+}
+
+/**
+ * RoundEditor - Host-only list of themed rounds with a form to add more
+ */
+const RoundEditor = memo(function RoundEditor({
+  rounds,
+  onAddRound,
+  onRemoveRound,
+}: RoundEditorProps) {
+  const [name, setName] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [quota, setQuota] = useState(2);
+  const [ordering, setOrdering] = useState<RoundOrdering>('shuffle');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onAddRound({
+        name: name.trim(),
+        prompt: prompt.trim() || null,
+        songs_per_participant: Math.max(1, quota),
+        ordering,
+      });
+      setName('');
+      setPrompt('');
+    } catch (error) {
+      console.error('Error adding round:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div>
+          <h3 className="font-semibold">Rounds</h3>
+          <p className="text-xs text-muted-foreground">
+            Split the session into themed rounds. Rounds play in order, each with its own winner.
+          </p>
+        </div>
+
+        {rounds.length > 0 && (
+          <div className="space-y-2">
+            {rounds.map((round, index) => (
+              <div key={round.id} className="flex items-center gap-3 p-2 rounded-lg bg-secondary">
+                <div className="text-sm font-semibold w-6">{index + 1}</div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{round.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {round.songs_per_participant} per person ·{' '}
+                    {round.ordering === 'added' ? 'in order added' : 'shuffled'}
+                    {round.prompt && ` · ${round.prompt}`}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemoveRound(round.id)}
+                  title="Remove round"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="round-name">Name</Label>
+              <Input
+                id="round-name"
+                placeholder="90s one-hit wonders"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={255}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="round-prompt">Prompt</Label>
+              <Input
+                id="round-prompt"
+                placeholder="Optional"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="round-quota">Songs per person</Label>
+              <Input
+                id="round-quota"
+                type="number"
+                min={1}
+                max={20}
+                value={quota}
+                onChange={(e) => setQuota(parseInt(e.target.value, 10) || 1)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="round-ordering">Order</Label>
+              <select
+                id="round-ordering"
+                value={ordering}
+                onChange={(e) => setOrdering(e.target.value as RoundOrdering)}
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+              >
+                <option value="shuffle">Shuffled</option>
+                <option value="added">In order added</option>
+              </select>
+            </div>
+          </div>
+          <Button type="submit" size="sm" disabled={isSaving || !name.trim()}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add Round
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+});
+
+export default RoundEditor;
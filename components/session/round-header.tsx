@@ -0,0 +1,53 @@
+'use client';
+
+import { memo } from 'react';
+import { Layers } from 'lucide-react';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Round = Database['public']['Tables']['rounds']['Row'];
+
+interface RoundHeaderProps {
+  round: Round;
+  roundNumber: number;
+  totalRounds: number;
+  compact?: boolean;
+}
+
+/**
+ * RoundHeader - Round name and prompt
+ * Full size above the player, compact as a section title in the queue.
+ * Keyed by round id in PlayingView so the entry animation replays on each new round.
+ */
+const RoundHeader = memo(function RoundHeader({
+  round,
+  roundNumber,
+  totalRounds,
+  compact = false,
+}: RoundHeaderProps) {
+  if (compact) {
+    return (
+      <div className="flex items-baseline gap-2 mt-4 mb-2">
+        <span className="text-xs text-muted-foreground uppercase tracking-wider">
+          Round {roundNumber}
+        </span>
+        <span className="text-sm font-semibold truncate">{round.name}</span>
+        {round.prompt && (
+          <span className="text-xs text-muted-foreground truncate">{round.prompt}</span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center space-y-1 animate-in fade-in slide-in-from-top-2 duration-500">
+      <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground uppercase tracking-wider">
+        <Layers className="h-3 w-3" />
+        Round {roundNumber} of {totalRounds}
+      </div>
+      <div className="text-lg font-bold">{round.name}</div>
+      {round.prompt && <p className="text-sm text-muted-foreground">{round.prompt}</p>}
+    </div>
+  );
+});
+
+export default RoundHeader;
@@ -3,23 +3,33 @@
 import { memo } from 'react';
 import { Button } from '@/components/ui/button';
 import OnlineUsers from '@/components/session/online-users';
-import { Music, Flag, Shuffle, Infinity } from 'lucide-react';
+import { Music, Flag, Shuffle, Infinity, EyeOff, Trophy, CopyX } from 'lucide-react';
 import type { PresenceState } from '@/lib/realtime';
+import { PERKS, PERK_TYPES } from '@/lib/session/perks';
+import type { PerkType } from '@/lib/types';
 
 interface SessionHeaderProps {
   sessionName: string;
   sessionCode: string;
   copiedCode: boolean;
   infiniteMode?: boolean;
+  blindMode?: boolean;
+  blockDuplicates?: boolean;
   onCopyCode: () => void;
   onAddSong: () => void;
   onShuffleQueue?: () => void;
   onToggleInfiniteMode?: () => void;
+  onToggleBlindMode?: () => void;
+  onToggleBlockDuplicates?: () => void;
   onFinishSession?: () => void;
+  onTransferHost?: (participantId: string) => void;
   isHost: boolean;
   isPlaying: boolean;
   onlineUsers: PresenceState[];
   currentUserId?: string;
+  karma?: number;
+  ownedPerks?: Record<PerkType, number>;
+  onOpenPerkShop?: () => void;
 }
 
 /**
@@ -31,15 +41,23 @@ const SessionHeader = memo(function SessionHeader({
   sessionCode,
   copiedCode,
   infiniteMode,
+  blindMode,
+  blockDuplicates,
   onCopyCode,
   onAddSong,
   onShuffleQueue,
   onToggleInfiniteMode,
+  onToggleBlindMode,
+  onToggleBlockDuplicates,
   onFinishSession,
+  onTransferHost,
   isHost,
   isPlaying,
   onlineUsers,
   currentUserId,
+  karma,
+  ownedPerks,
+  onOpenPerkShop,
 }: SessionHeaderProps) {
   return (
     <div className="flex items-center justify-between mb-6">
@@ -59,12 +77,40 @@ const SessionHeader = memo(function SessionHeader({
             <span>Infinite</span>
           </div>
         )}
+        {blindMode && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <EyeOff className="h-3 w-3" />
+            <span>Blind</span>
+          </div>
+        )}
       </div>
       <div className="flex items-center gap-3">
         <OnlineUsers
           users={onlineUsers}
           currentUserId={currentUserId}
+          onTransferHost={isHost ? onTransferHost : undefined}
         />
+        {ownedPerks && PERK_TYPES.filter((perk) => ownedPerks[perk] > 0).map((perk) => (
+          <span
+            key={perk}
+            className="text-xs rounded-md border px-2 py-0.5 text-muted-foreground"
+            title={PERKS[perk].description}
+          >
+            {PERKS[perk].label} ×{ownedPerks[perk]}
+          </span>
+        ))}
+        {karma !== undefined && onOpenPerkShop && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={onOpenPerkShop}
+            title="Spend karma in the perk shop"
+          >
+            <Trophy className="h-4 w-4 text-yellow-500" />
+            <span className="font-semibold">{karma}</span>
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="sm"
@@ -92,6 +138,28 @@ const SessionHeader = memo(function SessionHeader({
             Infinite
           </Button>
         )}
+        {isHost && !isPlaying && onToggleBlindMode && (
+          <Button
+            variant={blindMode ? "default" : "outline"}
+            size="sm"
+            onClick={onToggleBlindMode}
+            title="Hide who added each song until it has been scored"
+          >
+            <EyeOff className="h-4 w-4 mr-2" />
+            Blind
+          </Button>
+        )}
+        {isHost && !isPlaying && onToggleBlockDuplicates && (
+          <Button
+            variant={blockDuplicates ? "default" : "outline"}
+            size="sm"
+            onClick={onToggleBlockDuplicates}
+            title="Reject songs that are likely already in the queue (other video or source) instead of warning"
+          >
+            <CopyX className="h-4 w-4 mr-2" />
+            No dupes
+          </Button>
+        )}
         {isHost && isPlaying && onFinishSession && (
           <Button
             variant="destructive"
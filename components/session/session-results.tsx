@@ -1,30 +1,48 @@
 'use client';
 
-import { Trophy, Star, Plus, LogIn } from 'lucide-react';
+import { Trophy, Star, Plus, LogIn, Eye, Layers, Zap, Calculator } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
 import type { Database } from '@/lib/supabase/database.types';
+import { getSessionSettings } from '@/lib/session/settings';
+import { getRoundWinners } from '@/lib/session/rounds';
+import { compareScoreResults, getScoringSystem } from '@/lib/session/scoring';
+import { analyzeFairness } from '@/lib/session/fairness';
+import { getCompetitionSongs, getCompetitors } from '@/lib/session/dj';
+import BallotForm from './ballot-form';
+import FairnessPanel from './fairness-panel';
+import PlaybackTimeline from './playback-timeline';
 
 type Session = Database['public']['Tables']['sessions']['Row'];
 type Participant = Database['public']['Tables']['participants']['Row'];
 type Song = Database['public']['Tables']['songs']['Row'];
 type Score = Database['public']['Tables']['scores']['Row'];
+type Round = Database['public']['Tables']['rounds']['Row'];
+type ForcePlay = Database['public']['Tables']['force_plays']['Row'];
+type Ballot = Database['public']['Tables']['ballots']['Row'];
+type PlaybackEvent = Database['public']['Tables']['playback_events']['Row'];
 
 interface SessionResultsProps {
   session: Session;
   participants: Participant[];
   songs: Song[];
   scores: Score[];
+  rounds?: Round[];
+  forcePlays?: ForcePlay[];
+  ballots?: Ballot[];
+  playbackEvents?: PlaybackEvent[];
+  currentParticipantId?: string;
+  onSubmitBallot?: (ranking: string[]) => Promise<void>;
 }
 
 interface ParticipantStats {
   participant: Participant;
   songsAdded: number;
-  averageScore: number;
+  score: number;
   totalVotes: number;
-  bestSong?: { song: Song; avgScore: number };
+  bestSong?: { song: Song; score: number };
 }
 
 export default function SessionResults({
@@ -32,69 +50,85 @@ export default function SessionResults({
   participants,
   songs,
   scores,
+  rounds = [],
+  forcePlays = [],
+  ballots = [],
+  playbackEvents = [],
+  currentParticipantId,
+  onSubmitBallot,
 }: SessionResultsProps) {
   console.log('[SessionResults] Rendering with participants:', participants.length, participants);
   console.log('[SessionResults] Songs:', songs.length, 'Scores:', scores.length);
 
+  // Blind mode only masks names during play - results always use the real added_by
+  const { blindMode, scoringMode, downweightFlaggedVotes } = getSessionSettings(session.settings);
+
+  // Infinite mode DJ songs were played but aren't part of the competition
+  const competitors = getCompetitors(participants);
+  const competitionSongs = getCompetitionSongs(songs, participants);
+  const djSongCount = songs.length - competitionSongs.length;
+
+  // Reciprocal inflation and outlier voters (optionally down-weighted below)
+  const fairness = analyzeFairness(competitors, competitionSongs, scores);
+
+  // Every score below uses the formula the host picked (self-votes excluded)
+  const scoring = getScoringSystem(scoringMode);
+  const scorer = scoring.createScorer({
+    songs: competitionSongs,
+    scores,
+    ballots,
+    voteWeight: downweightFlaggedVotes ? fairness.voteWeight : undefined,
+  });
+
   // Calculate participant statistics
-  const participantStats: ParticipantStats[] = participants.map((participant) => {
-    const participantSongs = songs.filter((s) => s.added_by === participant.id);
-    const songsAdded = participantSongs.length;
-
-    // Get all scores for songs added by this participant (excluding self-votes)
-    const songScores = scores.filter(
-      (score) =>
-        participantSongs.some((s) => s.id === score.song_id) &&
-        score.participant_id !== participant.id
-    );
-
-    const totalVotes = songScores.length;
-    const averageScore =
-      totalVotes > 0
-        ? songScores.reduce((sum, s) => sum + s.rating, 0) / totalVotes
-        : 0;
+  const participantStats: ParticipantStats[] = competitors.map((participant) => {
+    const participantSongs = competitionSongs.filter((s) => s.added_by === participant.id);
+    const { score, votes } = scorer(participantSongs.map((s) => s.id));
 
     // Find best song
-    let bestSong: { song: Song; avgScore: number } | undefined;
-    if (participantSongs.length > 0) {
-      const songAvgs = participantSongs.map((song) => {
-        const songScoresOnly = songScores.filter((s) => s.song_id === song.id);
-        const avg =
-          songScoresOnly.length > 0
-            ? songScoresOnly.reduce((sum, s) => sum + s.rating, 0) /
-              songScoresOnly.length
-            : 0;
-        return { song, avgScore: avg };
-      });
-      bestSong = songAvgs.sort((a, b) => b.avgScore - a.avgScore)[0];
-    }
+    const bestSong = participantSongs
+      .map((song) => ({ song, ...scorer([song.id]) }))
+      .sort(compareScoreResults)[0];
 
     return {
       participant,
-      songsAdded,
-      averageScore,
-      totalVotes,
+      songsAdded: participantSongs.length,
+      score,
+      totalVotes: votes,
       bestSong,
     };
   });
 
-  // Sort by average score (leaderboard)
-  const leaderboard = [...participantStats].sort(
-    (a, b) => b.averageScore - a.averageScore
+  // Sort by score (leaderboard)
+  const leaderboard = [...participantStats].sort((a, b) =>
+    compareScoreResults({ score: a.score, votes: a.totalVotes }, { score: b.score, votes: b.totalVotes })
+  );
+
+  // Per-round winners (the leaderboard above is the overall result)
+  const roundWinners = getRoundWinners(rounds, competitionSongs, competitors, scorer);
+
+  // Force plays in the order they were used
+  const forcePlayLog = [...forcePlays].sort(
+    (a, b) => new Date(a.timestamp ?? 0).getTime() - new Date(b.timestamp ?? 0).getTime()
   );
 
-  // Calculate session statistics
-  const totalMinutes = songs.reduce((sum, song) => sum + song.duration, 0) / 60;
-  const mostLikedSong = songs
-    .map((song) => {
-      const songScores = scores.filter((s) => s.song_id === song.id);
-      const avg =
-        songScores.length > 0
-          ? songScores.reduce((sum, s) => sum + s.rating, 0) / songScores.length
-          : 0;
-      return { song, avgScore: avg, voteCount: songScores.length };
-    })
-    .sort((a, b) => b.avgScore - a.avgScore)[0];
+  // Calculate session statistics - from the playback history when there is one
+  // (sessions from before it was recorded fall back to the queue)
+  const playedSongCount = playbackEvents.length > 0
+    ? new Set(playbackEvents.map((e) => e.song_id)).size
+    : songs.length;
+  const totalMinutes = playbackEvents.length > 0
+    ? playbackEvents.reduce((sum, e) => sum + (e.played_seconds ?? 0), 0) / 60
+    : songs.reduce((sum, song) => sum + song.duration, 0) / 60;
+  const mostLikedSong = competitionSongs
+    .map((song) => ({ song, ...scorer([song.id]) }))
+    .sort(compareScoreResults)[0];
+
+  // Borda: this participant's ballot (they can't rank their own songs)
+  const ballotSongs = currentParticipantId
+    ? competitionSongs.filter((s) => s.added_by !== currentParticipantId)
+    : [];
+  const ownBallot = ballots.find((b) => b.participant_id === currentParticipantId);
 
   return (
     <div className="min-h-screen p-4">
@@ -106,6 +140,12 @@ export default function SessionResults({
             <div>
               <h1 className="text-3xl font-bold">Session Complete</h1>
               <p className="text-sm text-muted-foreground">{session.name}</p>
+              {blindMode && (
+                <Badge variant="secondary" className="mt-1 text-xs">
+                  <Eye className="h-3 w-3 mr-1" />
+                  Blind mode · submitters revealed
+                </Badge>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -124,6 +164,32 @@ export default function SessionResults({
           </div>
         </div>
 
+        {/* Scoring formula */}
+        <div className="flex items-start gap-3 bg-card p-4 rounded-lg text-sm">
+          <Calculator className="h-4 w-4 mt-0.5 shrink-0" />
+          <div>
+            <div>
+              <span className="font-semibold">Scored with {scoring.label}</span>
+              <code className="ml-2 text-xs bg-secondary px-1.5 py-0.5 rounded">{scoring.formula}</code>
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {scoring.description} Votes on your own songs don&apos;t count.
+              {djSongCount > 0 &&
+                ` ${djSongCount} infinite mode ${djSongCount === 1 ? 'song' : 'songs'} picked by the DJ ${djSongCount === 1 ? 'isn’t' : 'aren’t'} scored.`}
+            </div>
+          </div>
+        </div>
+
+        {/* Ballot (borda scoring) */}
+        {scoring.mode === 'borda' && onSubmitBallot && (
+          <BallotForm
+            key={ownBallot?.id ?? 'new'}
+            songs={ballotSongs}
+            ranking={ownBallot?.ranking ?? null}
+            onSubmit={onSubmitBallot}
+          />
+        )}
+
         {/* Leaderboard */}
         <div>
           <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
@@ -155,19 +221,31 @@ export default function SessionResults({
                   </Avatar>
                   <div className="flex-1 min-w-0">
                     <div className="font-semibold">
-                      {stats.participant.user_name || 'Unknown'}
+                      {stats.participant.user_id ? (
+                        <Link href={`/profile/${stats.participant.user_id}`} className="hover:underline">
+                          {stats.participant.user_name || 'Unknown'}
+                        </Link>
+                      ) : (
+                        stats.participant.user_name || 'Unknown'
+                      )}
                       {stats.participant.is_host && (
                         <Badge variant="secondary" className="ml-2 text-xs">
                           Host
                         </Badge>
                       )}
+                      {place === 1 && rounds.length > 0 && (
+                        <Badge className="ml-2 text-xs">
+                          <Trophy className="h-3 w-3 mr-1" />
+                          Overall winner
+                        </Badge>
+                      )}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       {stats.songsAdded} songs · {stats.totalVotes} votes · {stats.participant.karma || 0} karma
                     </div>
                     {stats.bestSong && (
                       <div className="text-xs text-muted-foreground truncate mt-1">
-                        Best: {stats.bestSong.song.title} ({stats.bestSong.avgScore.toFixed(1)} ⭐)
+                        Best: {stats.bestSong.song.title} ({scoring.format(stats.bestSong.score)} {scoring.unit})
                       </div>
                     )}
                   </div>
@@ -175,11 +253,11 @@ export default function SessionResults({
                   {/* Score */}
                   <div className="text-right">
                     <div className="text-2xl font-bold">
-                      {stats.averageScore.toFixed(1)}
+                      {scoring.format(stats.score)}
                     </div>
                     <div className="text-xs text-muted-foreground flex items-center gap-1 justify-end">
                       <Star className="h-3 w-3 fill-white text-white" />
-                      avg
+                      {scoring.unit}
                     </div>
                     <div className="text-xs text-muted-foreground mt-1">
                       {stats.participant.karma || 0} pts
@@ -191,10 +269,108 @@ export default function SessionResults({
           </div>
         </div>
 
+        {/* Round Winners */}
+        {roundWinners.length > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+              Round Winners
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {roundWinners.map(({ round, winner }, index) => (
+                <div key={round.id} className="bg-card p-4 rounded-lg">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Layers className="h-3 w-3" />
+                    Round {index + 1}
+                  </div>
+                  <div className="font-semibold truncate">{round.name}</div>
+                  {round.prompt && (
+                    <div className="text-xs text-muted-foreground truncate">{round.prompt}</div>
+                  )}
+                  {winner ? (
+                    <div className="flex items-center justify-between mt-3">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Avatar className="h-8 w-8">
+                          <AvatarFallback>
+                            {winner.participant.user_name?.charAt(0).toUpperCase() || '?'}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="font-medium truncate">
+                          {winner.participant.user_name || 'Unknown'}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1 ml-4">
+                        <Star className="h-4 w-4 fill-white text-white" />
+                        <span className="font-bold">{scoring.format(winner.score)}</span>
+                        <span className="text-xs text-muted-foreground">({winner.totalVotes})</span>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-xs text-muted-foreground mt-3">No votes in this round</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Fairness */}
+        {scores.length > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+              Fairness
+            </div>
+            <FairnessPanel report={fairness} downweighted={downweightFlaggedVotes} />
+          </div>
+        )}
+
+        {/* Force Plays */}
+        {forcePlayLog.length > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+              Force Plays
+            </div>
+            <div className="space-y-2">
+              {forcePlayLog.map((forcePlay) => {
+                const song = songs.find((s) => s.id === forcePlay.song_id);
+                const participant = participants.find((p) => p.id === forcePlay.participant_id);
+
+                return (
+                  <div key={forcePlay.id} className="flex items-center gap-3 bg-card p-3 rounded-lg text-sm">
+                    <Zap className="h-4 w-4 text-yellow-500 fill-yellow-500" />
+                    <div className="flex-1 min-w-0 truncate">
+                      <span className="font-semibold">{participant?.user_name || 'Unknown'}</span>
+                      {' → '}
+                      {song?.title || 'Removed song'}
+                    </div>
+                    <Badge variant="secondary" className="text-xs">
+                      {forcePlay.mode === 'next' ? 'Played next' : 'Played now'}
+                    </Badge>
+                    {forcePlay.timestamp && (
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(forcePlay.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Playback History */}
+        {playbackEvents.length > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+              What Played
+            </div>
+            <PlaybackTimeline events={playbackEvents} songs={songs} participants={participants} />
+          </div>
+        )}
+
         {/* Statistics Grid */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="bg-card p-4 rounded-lg">
-            <div className="text-2xl font-bold">{songs.length}</div>
+            <div className="text-2xl font-bold">{playedSongCount}</div>
             <div className="text-xs text-muted-foreground">Songs Played</div>
           </div>
 
@@ -204,7 +380,7 @@ export default function SessionResults({
           </div>
 
           <div className="bg-card p-4 rounded-lg">
-            <div className="text-2xl font-bold">{participants.length}</div>
+            <div className="text-2xl font-bold">{competitors.length}</div>
             <div className="text-xs text-muted-foreground">Participants</div>
           </div>
 
@@ -241,10 +417,10 @@ export default function SessionResults({
                 <div className="flex items-center gap-1 ml-4">
                   <Star className="h-4 w-4 fill-white text-white" />
                   <span className="text-lg font-bold">
-                    {mostLikedSong.avgScore.toFixed(1)}
+                    {scoring.format(mostLikedSong.score)}
                   </span>
                   <span className="text-xs text-muted-foreground">
-                    ({mostLikedSong.voteCount})
+                    ({mostLikedSong.votes})
                   </span>
                 </div>
               </div>
@@ -0,0 +1,125 @@
+'use client';
+
+import { memo } from 'react';
+import { Input } from '@/components/ui/input';
+import type { ScoringMode, SessionSettings } from '@/lib/types';
+import { clampSetting, SESSION_SETTING_LIMITS } from '@/lib/session/settings';
+import type { NumericSessionSetting } from '@/lib/session/settings';
+import { SCORING_MODES, SCORING_SYSTEMS } from '@/lib/session/scoring';
+
+interface SessionSettingsEditorProps {
+  settings: SessionSettings;
+  onChange: (settings: SessionSettings) => void;
+  disabled?: boolean;
+}
+
+const NUMERIC_FIELDS: { key: NumericSessionSetting; label: string; hint: string }[] = [
+  { key: 'songsPerParticipant', label: 'Songs per person', hint: 'How many songs each participant can add' },
+  { key: 'maxParticipants', label: 'Max participants', hint: 'Including the host' },
+  { key: 'votingDuration', label: 'Voting time (s)', hint: 'How long you can vote on each song' },
+  { key: 'forcePlayTokens', label: 'Force plays', hint: 'Power cards per participant' },
+  { key: 'forcePlayCooldown', label: 'Force play cooldown (s)', hint: 'Wait between force plays' },
+];
+
+/**
+ * SessionSettingsEditor - Rule settings for a new session
+ * Values are clamped to the ranges the database accepts
+ */
+const SessionSettingsEditor = memo(function SessionSettingsEditor({
+  settings,
+  onChange,
+  disabled = false,
+}: SessionSettingsEditorProps) {
+  const update = (updates: Partial<SessionSettings>) => onChange({ ...settings, ...updates });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map(({ key, label, hint }) => (
+          <div key={key}>
+            <label htmlFor={key} className="block text-sm font-medium mb-2">
+              {label}
+            </label>
+            <Input
+              id={key}
+              type="number"
+              min={SESSION_SETTING_LIMITS[key].min}
+              max={SESSION_SETTING_LIMITS[key].max}
+              value={settings[key]}
+              onChange={(e) => update({ [key]: clampSetting(key, parseInt(e.target.value, 10)) })}
+              disabled={
+                disabled ||
+                ((key === 'forcePlayCooldown' || key === 'forcePlayTokens') && !settings.allowForcePlay)
+              }
+            />
+            <p className="text-xs text-muted-foreground mt-1">{hint}</p>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={settings.allowForcePlay}
+          onChange={(e) => update({ allowForcePlay: e.target.checked })}
+          disabled={disabled}
+        />
+        Allow force play
+      </label>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={settings.blindMode}
+          onChange={(e) => update({ blindMode: e.target.checked })}
+          disabled={disabled}
+        />
+        Blind mode (hide who added each song until it is scored)
+      </label>
+
+      <div>
+        <label htmlFor="scoringMode" className="block text-sm font-medium mb-2">
+          Scoring
+        </label>
+        <select
+          id="scoringMode"
+          value={settings.scoringMode}
+          onChange={(e) => update({ scoringMode: e.target.value as ScoringMode })}
+          disabled={disabled}
+          className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+        >
+          {SCORING_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {SCORING_SYSTEMS[mode].label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-muted-foreground mt-1">
+          {SCORING_SYSTEMS[settings.scoringMode].description}
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={settings.downweightFlaggedVotes}
+          onChange={(e) => update({ downweightFlaggedVotes: e.target.checked })}
+          disabled={disabled}
+        />
+        Count suspicious votes at half weight (vote swapping, outlier voters)
+      </label>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={settings.blockDuplicateSongs}
+          onChange={(e) => update({ blockDuplicateSongs: e.target.checked })}
+          disabled={disabled}
+        />
+        Block likely duplicates (same song as another video or from another source)
+      </label>
+    </div>
+  );
+});
+
+export default SessionSettingsEditor;
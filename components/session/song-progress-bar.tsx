@@ -1,17 +1,24 @@
 'use client';
 
-import { memo, useEffect, useState } from 'react';
+import { memo, useEffect, useState, type MouseEvent } from 'react';
 import { Progress } from '@/components/ui/progress';
+import { getPlaybackPosition } from '@/lib/session/playback';
 
 interface SongProgressBarProps {
   duration: number; // Total duration in seconds
   startedAt: string; // ISO timestamp when song started
+  pausedAt?: string | null; // ISO timestamp when the host paused the song
+  positionOffset?: number; // Seconds moved by pauses and seeks
+  onSeek?: (position: number) => void; // Host only - click to seek
   className?: string;
 }
 
 const SongProgressBar = memo(function SongProgressBar({
   duration,
   startedAt,
+  pausedAt = null,
+  positionOffset = 0,
+  onSeek,
   className = '',
 }: SongProgressBarProps) {
   const [progress, setProgress] = useState(0);
@@ -19,9 +26,12 @@ const SongProgressBar = memo(function SongProgressBar({
 
   useEffect(() => {
     const calculateProgress = () => {
-      const startTime = new Date(startedAt).getTime();
-      const now = Date.now();
-      const elapsedSeconds = Math.floor((now - startTime) / 1000);
+      const position = getPlaybackPosition({
+        current_song_started_at: startedAt,
+        paused_at: pausedAt,
+        position_offset: positionOffset,
+      });
+      const elapsedSeconds = Math.floor(position ?? 0);
 
       // Clamp between 0 and duration
       const clampedElapsed = Math.max(0, Math.min(elapsedSeconds, duration));
@@ -57,7 +67,14 @@ const SongProgressBar = memo(function SongProgressBar({
         cancelAnimationFrame(rafId);
       }
     };
-  }, [startedAt, duration]);
+  }, [startedAt, pausedAt, positionOffset, duration]);
+
+  const handleSeek = (event: MouseEvent<HTMLDivElement>) => {
+    if (!onSeek) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(Math.round(fraction * duration));
+  };
 
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -76,7 +93,11 @@ const SongProgressBar = memo(function SongProgressBar({
         <span>{formatTime(duration)}</span>
       </div>
 
-      <div className="relative">
+      <div
+        className={`relative ${onSeek ? 'cursor-pointer' : ''}`}
+        onClick={onSeek ? handleSeek : undefined}
+        title={onSeek ? 'Click to seek for everyone' : undefined}
+      >
         <Progress value={progress} className="h-2" />
 
         {/* Skip threshold indicator */}
@@ -2,11 +2,17 @@
 
 import { memo } from 'react';
 import { Star } from 'lucide-react';
+import ForcePlayCard from '@/components/session/force-play-card';
+import RoundHeader from '@/components/session/round-header';
+import SubmitterName from '@/components/session/submitter-name';
 import type { Database } from '@/lib/supabase/database.types';
+import { groupSongsByRound } from '@/lib/session/rounds';
+import type { ForcePlayMode } from '@/lib/types';
 
 type Song = Database['public']['Tables']['songs']['Row'];
 type Participant = Database['public']['Tables']['participants']['Row'];
 type Score = Database['public']['Tables']['scores']['Row'];
+type Round = Database['public']['Tables']['rounds']['Row'];
 
 interface SongQueueListProps {
   songs: Song[];
@@ -14,11 +20,23 @@ interface SongQueueListProps {
   scores?: Score[];
   currentSongIndex?: number;
   showScores?: boolean;
+  hiddenSongIds?: Set<string>; // blind mode: songs whose submitter is masked
+  blindMode?: boolean;
+  rounds?: Round[];
+  currentParticipantId?: string;
+  forcePlay?: { tokensLeft: number; cooldownRemaining: number }; // omitted when force play is off
+  onForcePlay?: (songId: string, mode: ForcePlayMode) => Promise<void>;
 }
 
+// How many of your own songs the force play card offers at once
+const MAX_FORCE_PLAY_OPTIONS = 3;
+
 /**
  * SongQueueList - Compact view showing only current and next song
  * Shows a hint about the next song with who added it
+ * In blind mode, also reveals who added the song that just played
+ * With rounds, the full queue is split into one section per round
+ * During playback, also shows the force play card for your own upcoming songs
  */
 const SongQueueList = memo(function SongQueueList({
   songs,
@@ -26,6 +44,12 @@ const SongQueueList = memo(function SongQueueList({
   scores = [],
   currentSongIndex,
   showScores = false,
+  hiddenSongIds,
+  blindMode = false,
+  rounds = [],
+  currentParticipantId,
+  forcePlay,
+  onForcePlay,
 }: SongQueueListProps) {
   if (songs.length === 0) {
     return null;
@@ -34,18 +58,48 @@ const SongQueueList = memo(function SongQueueList({
   // Show only current and next song during playback
   if (currentSongIndex !== undefined) {
     const nextSong = songs[currentSongIndex + 1];
+    const previousSong = blindMode ? songs[currentSongIndex - 1] : undefined;
+    const nextRound =
+      nextSong && nextSong.round_id !== songs[currentSongIndex]?.round_id
+        ? rounds.find((r) => r.id === nextSong.round_id)
+        : undefined;
+
+    // Your upcoming songs from the current round (use_force_play won't cross rounds)
+    const currentRoundId = songs[currentSongIndex]?.round_id ?? null;
+    const forcePlayOptions = songs
+      .slice(currentSongIndex + 1)
+      .filter((s) => s.added_by === currentParticipantId && (s.round_id ?? null) === currentRoundId)
+      .slice(0, MAX_FORCE_PLAY_OPTIONS);
 
     return (
-      <div className="mt-6">
+      <div className="mt-6 space-y-3">
+        {previousSong && (
+          <div className="text-center">
+            <div className="text-xs text-muted-foreground mb-1">Just Played</div>
+            <div className="flex items-center justify-center gap-2 text-sm">
+              <span className="truncate max-w-[200px]">{previousSong.title}</span>
+              <span className="text-muted-foreground">·</span>
+              <SubmitterName
+                name={participants.find((p) => p.id === previousSong.added_by)?.user_name || 'Unknown'}
+                hidden={hiddenSongIds?.has(previousSong.id) ?? false}
+                className="text-xs"
+              />
+            </div>
+          </div>
+        )}
         {nextSong && (
           <div className="text-center">
-            <div className="text-xs text-muted-foreground mb-2">Up Next</div>
+            <div className="text-xs text-muted-foreground mb-2">
+              {nextRound ? `Up Next · Round: ${nextRound.name}` : 'Up Next'}
+            </div>
             <div className="flex items-center justify-center gap-2 text-sm">
               <span className="font-medium truncate max-w-[200px]">{nextSong.title}</span>
               <span className="text-muted-foreground">·</span>
-              <span className="text-muted-foreground text-xs">
-                {participants.find((p) => p.id === nextSong.added_by)?.user_name || 'Unknown'}
-              </span>
+              <SubmitterName
+                name={participants.find((p) => p.id === nextSong.added_by)?.user_name || 'Unknown'}
+                hidden={hiddenSongIds?.has(nextSong.id) ?? false}
+                className="text-muted-foreground text-xs"
+              />
             </div>
           </div>
         )}
@@ -54,49 +108,106 @@ const SongQueueList = memo(function SongQueueList({
             Last song in queue
           </div>
         )}
+        {forcePlay && onForcePlay && (
+          <ForcePlayCard
+            eligibleSongs={forcePlayOptions}
+            upNextSongId={nextSong?.id}
+            tokensLeft={forcePlay.tokensLeft}
+            cooldownRemaining={forcePlay.cooldownRemaining}
+            onForcePlay={onForcePlay}
+          />
+        )}
       </div>
     );
   }
 
-  // Show full queue in waiting view
-  return (
-    <div className="mt-8">
-      <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
-        Queue ({songs.length} songs)
+  const renderSong = (song: Song, index: number) => {
+    const addedBy = participants.find((p) => p.id === song.added_by);
+
+    // Get all scores for this song
+    const songScores = scores.filter((s) => s.song_id === song.id);
+    const avgScore = songScores.length > 0
+      ? (songScores.reduce((sum, s) => sum + s.rating, 0) / songScores.length).toFixed(1)
+      : null;
+
+    return (
+      <div
+        key={song.id}
+        className="flex items-center gap-3 p-3 rounded-lg bg-card"
+      >
+        <div className="text-sm font-semibold w-6">{index + 1}</div>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium truncate text-sm" title={song.raw_title ?? undefined}>{song.title}</div>
+          <div className="text-xs text-muted-foreground truncate">
+            {song.artist} ·{' '}
+            <SubmitterName
+              name={addedBy?.user_name || 'Unknown'}
+              hidden={hiddenSongIds?.has(song.id) ?? false}
+            />
+          </div>
+        </div>
+        {showScores && avgScore && (
+          <div className="flex items-center gap-1 text-sm">
+            <Star className="h-3 w-3 fill-white text-white" />
+            <span>{avgScore}</span>
+            <span className="text-xs text-muted-foreground">({songScores.length})</span>
+          </div>
+        )}
       </div>
-      <div className="space-y-2">
-        {songs.map((song, index) => {
-          const addedBy = participants.find((p) => p.id === song.added_by);
+    );
+  };
 
-          // Get all scores for this song
-          const songScores = scores.filter((s) => s.song_id === song.id);
-          const avgScore = songScores.length > 0
-            ? (songScores.reduce((sum, s) => sum + s.rating, 0) / songScores.length).toFixed(1)
-            : null;
+  // Full queue grouped by round
+  if (rounds.length > 0) {
+    const groups = groupSongsByRound(songs, rounds);
+    let offset = 0;
+
+    return (
+      <div className="mt-8">
+        <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+          Queue ({songs.length} songs · {rounds.length} rounds)
+        </div>
+        {groups.map(({ round, songs: roundSongs }, groupIndex) => {
+          const start = offset;
+          offset += roundSongs.length;
 
           return (
-            <div
-              key={song.id}
-              className="flex items-center gap-3 p-3 rounded-lg bg-card"
-            >
-              <div className="text-sm font-semibold w-6">{index + 1}</div>
-              <div className="flex-1 min-w-0">
-                <div className="font-medium truncate text-sm">{song.title}</div>
-                <div className="text-xs text-muted-foreground truncate">
-                  {song.artist} · {addedBy?.user_name || 'Unknown'}
-                </div>
-              </div>
-              {showScores && avgScore && (
-                <div className="flex items-center gap-1 text-sm">
-                  <Star className="h-3 w-3 fill-white text-white" />
-                  <span>{avgScore}</span>
-                  <span className="text-xs text-muted-foreground">({songScores.length})</span>
+            <div key={round?.id ?? 'unassigned'}>
+              {round ? (
+                <RoundHeader
+                  round={round}
+                  roundNumber={groupIndex + 1}
+                  totalRounds={rounds.length}
+                  compact
+                />
+              ) : (
+                <div className="text-xs text-muted-foreground uppercase tracking-wider mt-4 mb-2">
+                  No round
                 </div>
               )}
+              <div className="space-y-2">
+                {roundSongs.length === 0 ? (
+                  <div className="text-xs text-muted-foreground p-3">No songs yet</div>
+                ) : (
+                  roundSongs.map((song, index) => renderSong(song, start + index))
+                )}
+              </div>
             </div>
           );
         })}
       </div>
+    );
+  }
+
+  // Show full queue in waiting view
+  return (
+    <div className="mt-8">
+      <div className="text-xs text-muted-foreground mb-3 uppercase tracking-wider">
+        Queue ({songs.length} songs)
+      </div>
+      <div className="space-y-2">
+        {songs.map((song, index) => renderSong(song, index))}
+      </div>
     </div>
   );
 });
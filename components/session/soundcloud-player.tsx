@@ -0,0 +1,286 @@
+'use client';
+
+import { Pause, Play } from 'lucide-react';
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { measurePlaybackDrift } from '@/lib/session/clock';
+import { getPlaybackPosition } from '@/lib/session/playback';
+
+// Minimal typings for the Widget API (https://w.soundcloud.com/player/api.js)
+interface SoundCloudWidget {
+  bind(event: string, listener: () => void): void;
+  unbind(event: string): void;
+  play(): void;
+  pause(): void;
+  seekTo(milliseconds: number): void;
+  getPosition(callback: (position: number) => void): void;
+  isPaused(callback: (paused: boolean) => void): void;
+}
+
+declare global {
+  interface Window {
+    SC?: {
+      Widget: ((iframe: HTMLIFrameElement) => SoundCloudWidget) & {
+        Events: Record<'READY' | 'PLAY' | 'PAUSE' | 'FINISH' | 'ERROR', string>;
+      };
+    };
+  }
+}
+
+interface SoundCloudPlayerComponentProps {
+  trackId: string;
+  onEnd: () => void;
+  onReady?: () => void;
+  startTime?: number;
+  autoplay?: boolean;
+  sessionStartedAt?: string; // When the song started playing in the session
+  pausedAt?: string; // When the host paused the song (unset while playing)
+  positionOffset?: number; // Seconds moved by pauses and seeks
+  onUnplayable?: (reason: string, errorCode?: number) => void; // The track can't be played here
+}
+
+const WIDGET_API_URL = 'https://w.soundcloud.com/player/api.js';
+
+// The Widget API script is shared by every player instance
+let widgetApiPromise: Promise<void> | null = null;
+
+function loadWidgetApi(): Promise<void> {
+  if (window.SC) return Promise.resolve();
+  if (widgetApiPromise) return widgetApiPromise;
+
+  widgetApiPromise = new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = WIDGET_API_URL;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      widgetApiPromise = null;
+      reject(new Error('Failed to load the SoundCloud player'));
+    };
+    document.body.appendChild(script);
+  });
+
+  return widgetApiPromise;
+}
+
+const getPosition = (widget: SoundCloudWidget) =>
+  new Promise<number>((resolve) => widget.getPosition(resolve));
+
+const isPaused = (widget: SoundCloudWidget) =>
+  new Promise<boolean>((resolve) => widget.isPaused(resolve));
+
+/**
+ * SoundCloudPlayerComponent - Embeds the SoundCloud widget
+ * Same contract as YouTubePlayerComponent: stays in sync with sessionStartedAt and calls onEnd
+ */
+const SoundCloudPlayerComponent = memo(function SoundCloudPlayerComponent({
+  trackId,
+  onEnd,
+  onReady,
+  startTime = 0,
+  autoplay = true,
+  sessionStartedAt,
+  pausedAt,
+  positionOffset = 0,
+  onUnplayable,
+}: SoundCloudPlayerComponentProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const widgetRef = useRef<SoundCloudWidget | null>(null);
+  const onEndRef = useRef(onEnd);
+  const onUnplayableRef = useRef(onUnplayable);
+  const [isReady, setIsReady] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showPlayButton, setShowPlayButton] = useState(false);
+
+  const pausedAtRef = useRef(pausedAt);
+
+  useEffect(() => {
+    onEndRef.current = onEnd;
+  }, [onEnd]);
+
+  useEffect(() => {
+    onUnplayableRef.current = onUnplayable;
+  }, [onUnplayable]);
+
+  useEffect(() => {
+    pausedAtRef.current = pausedAt;
+  }, [pausedAt]);
+
+  // Calculate what the current playback time should be based on session start time (server clock)
+  const getExpectedPlaybackTime = useCallback(() => {
+    if (!sessionStartedAt) return startTime;
+    return getPlaybackPosition({
+      current_song_started_at: sessionStartedAt,
+      paused_at: pausedAt ?? null,
+      position_offset: positionOffset,
+    }) ?? startTime;
+  }, [sessionStartedAt, pausedAt, positionOffset, startTime]);
+
+  // Seek to the session position and play; the browser may block audio until the user interacts
+  const tryPlay = useCallback(async () => {
+    const widget = widgetRef.current;
+    if (!widget) return;
+
+    widget.seekTo(getExpectedPlaybackTime() * 1000);
+    widget.play();
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    if (await isPaused(widget)) {
+      console.log('[SoundCloudPlayer] Autoplay blocked');
+      setShowPlayButton(true);
+    }
+  }, [getExpectedPlaybackTime]);
+
+  // Bind the widget once the iframe and the API are loaded
+  useEffect(() => {
+    let cancelled = false;
+
+    loadWidgetApi()
+      .then(() => {
+        if (cancelled || !iframeRef.current || !window.SC) return;
+
+        const { Events } = window.SC.Widget;
+        const widget = window.SC.Widget(iframeRef.current);
+        widgetRef.current = widget;
+
+        widget.bind(Events.READY, () => {
+          console.log('[SoundCloudPlayer] Ready');
+          setIsReady(true);
+          onReady?.();
+          if (autoplay && !pausedAtRef.current) tryPlay();
+        });
+
+        widget.bind(Events.PLAY, () => {
+          setIsPlaying(true);
+          setShowPlayButton(false);
+        });
+
+        widget.bind(Events.PAUSE, () => setIsPlaying(false));
+
+        widget.bind(Events.FINISH, () => {
+          console.log('[SoundCloudPlayer] Track ended');
+          onEndRef.current();
+        });
+
+        // The widget doesn't say why - usually a removed, private or geo-blocked track
+        widget.bind(Events.ERROR, () => {
+          console.error('[SoundCloudPlayer] Widget error');
+          onUnplayableRef.current?.("The track can't be played in the widget");
+        });
+      })
+      .catch((error) => console.error('[SoundCloudPlayer] Widget API error:', error));
+
+    return () => {
+      cancelled = true;
+      const widget = widgetRef.current;
+      if (widget && window.SC) {
+        Object.values(window.SC.Widget.Events).forEach((event) => widget.unbind(event));
+      }
+      widgetRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trackId]);
+
+  // Follow the host's pause, resume and seek
+  useEffect(() => {
+    const widget = widgetRef.current;
+    if (!isReady || !widget || !sessionStartedAt) return;
+
+    if (pausedAt) {
+      widget.pause();
+      widget.seekTo(getExpectedPlaybackTime() * 1000);
+    } else if (autoplay) {
+      tryPlay();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isReady, pausedAt, positionOffset]);
+
+  // Sync playback with session time
+  useEffect(() => {
+    if (!isReady || !sessionStartedAt || pausedAt) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const widget = widgetRef.current;
+        if (!widget) return;
+
+        if (await isPaused(widget)) {
+          if (autoplay) setShowPlayButton(true);
+          return;
+        }
+
+        const sync = await measurePlaybackDrift(
+          async () => (await getPosition(widget)) / 1000,
+          getExpectedPlaybackTime
+        );
+        if (!sync) return;
+
+        const { drift, expectedTime } = sync;
+        if (Math.abs(drift) > 3) {
+          console.log(`[SoundCloudPlayer] Sync: Out of sync by ${drift.toFixed(2)}s, resyncing...`);
+          widget.seekTo(expectedTime * 1000);
+        }
+      } catch (error) {
+        console.error('[SoundCloudPlayer] Sync error:', error);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [isReady, sessionStartedAt, pausedAt, autoplay, getExpectedPlaybackTime]);
+
+  const widgetUrl =
+    'https://w.soundcloud.com/player/?' +
+    new URLSearchParams({
+      url: `https://api.soundcloud.com/tracks/${trackId}`,
+      auto_play: autoplay ? 'true' : 'false',
+      visual: 'true',
+      show_comments: 'false',
+      show_user: 'true',
+      show_reposts: 'false',
+      hide_related: 'true',
+      buying: 'false',
+      sharing: 'false',
+      download: 'false',
+    });
+
+  return (
+    <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
+      <iframe
+        ref={iframeRef}
+        src={widgetUrl}
+        title="SoundCloud player"
+        allow="autoplay"
+        className="absolute inset-0 w-full h-full border-0"
+      />
+
+      {/* Paused by the host */}
+      {pausedAt && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-300">
+          <Pause className="size-10 text-white" />
+          <p className="mt-3 text-white text-lg font-semibold">Paused by the host</p>
+        </div>
+      )}
+
+      {/* Play button overlay when autoplay is blocked */}
+      {showPlayButton && !isPlaying && !pausedAt && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+          <button
+            onClick={() => tryPlay()}
+            className="flex items-center justify-center size-16 rounded-full bg-primary hover:bg-primary/90 transition-all hover:scale-110 shadow-2xl"
+          >
+            <Play className="size-8 fill-primary-foreground" />
+          </button>
+          <div className="mt-6 text-center px-4">
+            <p className="text-white text-lg font-semibold">
+              Click to start playback
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Overlay to prevent clicks on the widget (pause/seek would desync) */}
+      <div className="absolute inset-0 z-10 cursor-default" />
+    </div>
+  );
+});
+
+export default SoundCloudPlayerComponent;
@@ -0,0 +1,450 @@
+'use client';
+
+import { Loader2, Music, Pause, Play } from 'lucide-react';
+import Image from 'next/image';
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { authClient } from '@/lib/auth/auth-client';
+import { measurePlaybackDrift } from '@/lib/session/clock';
+import { getPlaybackPosition } from '@/lib/session/playback';
+
+// Minimal typings for the Web Playback SDK (https://sdk.scdn.co/spotify-player.js)
+interface SpotifyPlaybackState {
+  paused: boolean;
+  position: number; // ms
+  duration: number; // ms
+  track_window: {
+    current_track: {
+      id: string | null;
+      name: string;
+      album: { images: { url: string }[] };
+      artists: { name: string }[];
+    };
+  };
+}
+
+interface SpotifySdkPlayer {
+  connect(): Promise<boolean>;
+  disconnect(): void;
+  activateElement(): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  seek(positionMs: number): Promise<void>;
+  getCurrentState(): Promise<SpotifyPlaybackState | null>;
+  addListener(event: 'ready' | 'not_ready', cb: (data: { device_id: string }) => void): boolean;
+  addListener(event: 'player_state_changed', cb: (state: SpotifyPlaybackState | null) => void): boolean;
+  addListener(
+    event: 'initialization_error' | 'authentication_error' | 'account_error' | 'playback_error' | 'autoplay_failed',
+    cb: (error: { message: string }) => void
+  ): boolean;
+}
+
+declare global {
+  interface Window {
+    onSpotifyWebPlaybackSDKReady?: () => void;
+    Spotify?: {
+      Player: new (options: {
+        name: string;
+        getOAuthToken: (cb: (token: string) => void) => void;
+        volume?: number;
+      }) => SpotifySdkPlayer;
+    };
+  }
+}
+
+interface SpotifyPlayerComponentProps {
+  trackId: string;
+  onEnd: () => void;
+  onReady?: () => void;
+  startTime?: number;
+  autoplay?: boolean;
+  sessionStartedAt?: string; // When the song started playing in the session
+  pausedAt?: string; // When the host paused the song (unset while playing)
+  positionOffset?: number; // Seconds moved by pauses and seeks
+}
+
+const SDK_URL = 'https://sdk.scdn.co/spotify-player.js';
+const SPOTIFY_API_URL = 'https://api.spotify.com/v1';
+
+// The SDK script is shared by every player instance
+let sdkPromise: Promise<void> | null = null;
+
+function loadSpotifySdk(): Promise<void> {
+  if (window.Spotify) return Promise.resolve();
+  if (sdkPromise) return sdkPromise;
+
+  sdkPromise = new Promise((resolve, reject) => {
+    window.onSpotifyWebPlaybackSDKReady = () => resolve();
+    const script = document.createElement('script');
+    script.src = SDK_URL;
+    script.async = true;
+    script.onerror = () => {
+      sdkPromise = null;
+      reject(new Error('Failed to load the Spotify player'));
+    };
+    document.body.appendChild(script);
+  });
+
+  return sdkPromise;
+}
+
+async function fetchPlaybackToken(): Promise<string> {
+  const response = await fetch('/api/spotify/token');
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Spotify is not connected');
+  return data.accessToken;
+}
+
+type PlayerStatus = 'loading' | 'needs_account' | 'needs_interaction' | 'playing' | 'paused' | 'error';
+
+/**
+ * SpotifyPlayerComponent - Plays a Spotify track in the browser with the Web Playback SDK
+ * Same contract as YouTubePlayerComponent: stays in sync with sessionStartedAt and calls onEnd
+ */
+const SpotifyPlayerComponent = memo(function SpotifyPlayerComponent({
+  trackId,
+  onEnd,
+  onReady,
+  startTime = 0,
+  autoplay = true,
+  sessionStartedAt,
+  pausedAt,
+  positionOffset = 0,
+}: SpotifyPlayerComponentProps) {
+  const playerRef = useRef<SpotifySdkPlayer | null>(null);
+  const deviceIdRef = useRef<string | null>(null);
+  const tokenRef = useRef<string | null>(null);
+  const hasPlayedRef = useRef(false); // seen playing since the last play request
+  const hasEndedRef = useRef(false);
+  const onEndRef = useRef(onEnd);
+  const pausedAtRef = useRef(pausedAt);
+  const [status, setStatus] = useState<PlayerStatus>('loading');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [nowPlaying, setNowPlaying] = useState<SpotifyPlaybackState['track_window']['current_track'] | null>(null);
+
+  useEffect(() => {
+    onEndRef.current = onEnd;
+  }, [onEnd]);
+
+  useEffect(() => {
+    pausedAtRef.current = pausedAt;
+  }, [pausedAt]);
+
+  // Calculate what the current playback time should be based on session start time (server clock)
+  const getExpectedPlaybackTime = useCallback(() => {
+    if (!sessionStartedAt) return startTime;
+    return getPlaybackPosition({
+      current_song_started_at: sessionStartedAt,
+      paused_at: pausedAt ?? null,
+      position_offset: positionOffset,
+    }) ?? startTime;
+  }, [sessionStartedAt, pausedAt, positionOffset, startTime]);
+
+  // Start the track on our SDK device at the session position
+  const startPlayback = useCallback(async () => {
+    const deviceId = deviceIdRef.current;
+    const token = tokenRef.current;
+    if (!deviceId || !token) return;
+
+    hasPlayedRef.current = false;
+    hasEndedRef.current = false;
+
+    const response = await fetch(
+      `${SPOTIFY_API_URL}/me/player/play?device_id=${encodeURIComponent(deviceId)}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          uris: [`spotify:track:${trackId}`],
+          position_ms: getExpectedPlaybackTime() * 1000,
+        }),
+      }
+    );
+
+    if (!response.ok && response.status !== 204) {
+      const errorText = await response.text();
+      console.error('[SpotifyPlayer] Play request failed:', errorText);
+      throw new Error('Spotify refused to start playback');
+    }
+  }, [trackId, getExpectedPlaybackTime]);
+
+  // Create the SDK player once and connect it as a playback device
+  useEffect(() => {
+    let cancelled = false;
+
+    const init = async () => {
+      try {
+        tokenRef.current = await fetchPlaybackToken();
+      } catch (error) {
+        console.log('[SpotifyPlayer] No playback token:', error);
+        if (!cancelled) setStatus('needs_account');
+        return;
+      }
+
+      try {
+        await loadSpotifySdk();
+      } catch (error) {
+        console.error('[SpotifyPlayer] SDK load error:', error);
+        if (!cancelled) {
+          setErrorMessage(error instanceof Error ? error.message : 'Failed to load the Spotify player');
+          setStatus('error');
+        }
+        return;
+      }
+
+      if (cancelled || !window.Spotify) return;
+
+      const player = new window.Spotify.Player({
+        name: 'Beat Battle',
+        getOAuthToken: (cb) => {
+          fetchPlaybackToken()
+            .then((token) => {
+              tokenRef.current = token;
+              cb(token);
+            })
+            .catch((error) => console.error('[SpotifyPlayer] Token refresh error:', error));
+        },
+        volume: 0.8,
+      });
+      playerRef.current = player;
+
+      player.addListener('ready', ({ device_id }) => {
+        console.log('[SpotifyPlayer] Ready with device', device_id);
+        deviceIdRef.current = device_id;
+        onReady?.();
+
+        if (!autoplay) {
+          setStatus('needs_interaction');
+          return;
+        }
+
+        // Joined while the host has the song paused - start on resume
+        if (pausedAtRef.current) {
+          setStatus('paused');
+          return;
+        }
+
+        startPlayback()
+          .then(() => setStatus('playing'))
+          .catch(() => setStatus('needs_interaction'));
+      });
+
+      player.addListener('not_ready', () => {
+        console.log('[SpotifyPlayer] Device went offline');
+        deviceIdRef.current = null;
+      });
+
+      player.addListener('player_state_changed', (state) => {
+        if (!state) return;
+        setNowPlaying(state.track_window.current_track);
+
+        if (!state.paused) {
+          hasPlayedRef.current = true;
+          return;
+        }
+
+        // The SDK reports the end of a track as paused at position 0 (not a host pause)
+        if (hasPlayedRef.current && !hasEndedRef.current && state.position === 0 && !pausedAtRef.current) {
+          hasEndedRef.current = true;
+          console.log('[SpotifyPlayer] Track ended');
+          onEndRef.current();
+        }
+      });
+
+      player.addListener('autoplay_failed', () => {
+        console.log('[SpotifyPlayer] Autoplay blocked by the browser');
+        setStatus('needs_interaction');
+      });
+
+      player.addListener('account_error', () => {
+        setErrorMessage('Spotify playback requires a Premium account');
+        setStatus('error');
+      });
+
+      player.addListener('authentication_error', ({ message }) => {
+        console.error('[SpotifyPlayer] Authentication error:', message);
+        setStatus('needs_account');
+      });
+
+      player.addListener('initialization_error', ({ message }) => {
+        console.error('[SpotifyPlayer] Initialization error:', message);
+        setErrorMessage('This browser cannot play Spotify songs');
+        setStatus('error');
+      });
+
+      player.addListener('playback_error', ({ message }) => {
+        console.error('[SpotifyPlayer] Playback error:', message);
+      });
+
+      await player.connect();
+    };
+
+    init();
+
+    return () => {
+      cancelled = true;
+      playerRef.current?.disconnect();
+      playerRef.current = null;
+      deviceIdRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Play the new track when the song changes
+  useEffect(() => {
+    if (!deviceIdRef.current || !autoplay) return;
+
+    console.log('[SpotifyPlayer] Track or start time changed, forcing sync and play');
+    startPlayback()
+      .then(() => setStatus('playing'))
+      .catch(() => setStatus('needs_interaction'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trackId, sessionStartedAt, autoplay]);
+
+  // Follow the host's pause, resume and seek
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || !deviceIdRef.current || !sessionStartedAt) return;
+
+    if (pausedAt) {
+      player.pause().catch((error) => console.error('[SpotifyPlayer] Pause error:', error));
+      setStatus((current) => (current === 'playing' ? 'paused' : current));
+      return;
+    }
+
+    if (!autoplay) return;
+
+    startPlayback()
+      .then(() => setStatus('playing'))
+      .catch(() => setStatus('needs_interaction'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pausedAt, positionOffset]);
+
+  // Sync playback with session time
+  useEffect(() => {
+    if (status !== 'playing' || !sessionStartedAt || pausedAt) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const player = playerRef.current;
+        if (!player || hasEndedRef.current) return;
+
+        const sync = await measurePlaybackDrift(async () => {
+          const state = await player.getCurrentState();
+          return state && !state.paused ? state.position / 1000 : null;
+        }, getExpectedPlaybackTime);
+        if (!sync) return;
+
+        const { drift, expectedTime } = sync;
+        if (Math.abs(drift) > 3) {
+          console.log(`[SpotifyPlayer] Sync: Out of sync by ${drift.toFixed(2)}s, resyncing...`);
+          await player.seek(expectedTime * 1000);
+        }
+      } catch (error) {
+        console.error('[SpotifyPlayer] Sync error:', error);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [status, sessionStartedAt, pausedAt, getExpectedPlaybackTime]);
+
+  // Manual play handler (browsers block audio until the user interacts)
+  const handleManualPlay = async () => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    try {
+      await player.activateElement();
+      await startPlayback();
+      setStatus('playing');
+    } catch (error) {
+      console.error('[SpotifyPlayer] Manual play error:', error);
+    }
+  };
+
+  const handleConnect = async () => {
+    await authClient.linkSocial({
+      provider: 'spotify',
+      callbackURL: window.location.href,
+    });
+  };
+
+  const artwork = nowPlaying?.album.images[0]?.url;
+
+  return (
+    <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
+      {/* Now playing - the SDK has no video, so show the album art */}
+      <div className="absolute inset-0 flex items-center justify-center gap-6 p-6 bg-gradient-to-br from-green-900/60 to-black">
+        {artwork ? (
+          <Image
+            src={artwork}
+            alt={nowPlaying?.name || 'Album art'}
+            width={240}
+            height={240}
+            className="rounded-lg shadow-2xl h-3/4 w-auto aspect-square object-cover"
+          />
+        ) : (
+          <Music className="size-24 text-white/30" />
+        )}
+        {nowPlaying && (
+          <div className="text-white min-w-0">
+            <p className="text-xl font-semibold truncate">{nowPlaying.name}</p>
+            <p className="text-white/70 truncate">
+              {nowPlaying.artists.map((artist) => artist.name).join(', ')}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {status === 'loading' && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center">
+          <Loader2 className="size-8 text-white animate-spin" />
+        </div>
+      )}
+
+      {/* Spotify account not linked */}
+      {status === 'needs_account' && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm text-center px-4">
+          <p className="text-white text-lg font-semibold">This song plays on Spotify</p>
+          <p className="text-white/70 text-sm mt-1 mb-4">
+            Connect your Spotify Premium account to listen along
+          </p>
+          <Button onClick={handleConnect}>Connect Spotify</Button>
+        </div>
+      )}
+
+      {/* Paused by the host */}
+      {pausedAt && status !== 'needs_account' && status !== 'error' && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-300">
+          <Pause className="size-10 text-white" />
+          <p className="mt-3 text-white text-lg font-semibold">Paused by the host</p>
+        </div>
+      )}
+
+      {/* Play button overlay when autoplay is blocked */}
+      {status === 'needs_interaction' && !pausedAt && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+          <button
+            onClick={handleManualPlay}
+            className="flex items-center justify-center size-16 rounded-full bg-primary hover:bg-primary/90 transition-all hover:scale-110 shadow-2xl"
+          >
+            <Play className="size-8 fill-primary-foreground" />
+          </button>
+          <div className="mt-6 text-center px-4">
+            <p className="text-white text-lg font-semibold">
+              Click to start playback
+            </p>
+          </div>
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/80 text-center px-4">
+          <p className="text-white text-sm">{errorMessage}</p>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SpotifyPlayerComponent;
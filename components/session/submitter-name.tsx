@@ -0,0 +1,57 @@
+'use client';
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { EyeOff } from 'lucide-react';
+import { HIDDEN_SUBMITTER_NAME } from '@/lib/session/blind-mode';
+
+interface SubmitterNameProps {
+  name: string;
+  hidden: boolean;
+  className?: string;
+}
+
+/**
+ * SubmitterName - Who added a song, masked in blind mode
+ * Plays a reveal animation when a hidden name becomes visible
+ */
+const SubmitterName = memo(function SubmitterName({
+  name,
+  hidden,
+  className = '',
+}: SubmitterNameProps) {
+  const wasHidden = useRef(hidden);
+  const [justRevealed, setJustRevealed] = useState(false);
+
+  useEffect(() => {
+    if (wasHidden.current && !hidden) {
+      setJustRevealed(true);
+      const timeout = setTimeout(() => setJustRevealed(false), 1500);
+      wasHidden.current = hidden;
+      return () => clearTimeout(timeout);
+    }
+    wasHidden.current = hidden;
+  }, [hidden]);
+
+  if (hidden) {
+    return (
+      <span className={`inline-flex items-center gap-1 italic ${className}`}>
+        <EyeOff className="h-3 w-3" />
+        {HIDDEN_SUBMITTER_NAME}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`${className} ${
+        justRevealed
+          ? 'inline-block animate-in fade-in zoom-in-50 duration-700 text-yellow-500 font-semibold'
+          : ''
+      }`}
+    >
+      {name}
+    </span>
+  );
+});
+
+export default SubmitterName;
@@ -0,0 +1,54 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { Ban, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+
+interface UnplayableSongNoticeProps {
+  songs: Song[]; // the viewer's own songs the host's player couldn't play
+  onPickReplacement: () => void;
+}
+
+/**
+ * UnplayableSongNotice - Tells the adder their song was skipped because it
+ * couldn't be played; its slot is free again for a replacement
+ */
+const UnplayableSongNotice = memo(function UnplayableSongNotice({
+  songs,
+  onPickReplacement,
+}: UnplayableSongNoticeProps) {
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(() => new Set());
+
+  const visible = songs.filter((s) => !dismissedIds.has(s.id));
+  if (visible.length === 0) return null;
+
+  const dismiss = () => setDismissedIds(new Set([...dismissedIds, ...visible.map((s) => s.id)]));
+
+  return (
+    <div className="mb-4 flex items-start gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm animate-in fade-in slide-in-from-top-2 duration-300">
+      <Ban className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+      <div className="flex-1 space-y-1">
+        {visible.map((song) => (
+          <p key={song.id}>
+            <span className="font-medium">{song.title}</span> couldn&apos;t be played
+            {song.unplayable_reason && (
+              <span className="text-muted-foreground"> ({song.unplayable_reason})</span>
+            )}
+          </p>
+        ))}
+        <p className="text-muted-foreground">It no longer counts toward your songs - pick a replacement.</p>
+      </div>
+      <Button size="sm" onClick={onPickReplacement}>
+        Pick a replacement
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={dismiss} aria-label="Dismiss">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+});
+
+export default UnplayableSongNotice;
@@ -0,0 +1,51 @@
+'use client';
+
+import { memo } from 'react';
+import { Clock, Lock } from 'lucide-react';
+import type { VotingWindow } from '@/lib/session/voting';
+
+interface VotingCountdownProps {
+  votingWindow: VotingWindow;
+}
+
+const formatCountdown = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * VotingCountdown - Time until voting opens, or time left to vote
+ */
+const VotingCountdown = memo(function VotingCountdown({ votingWindow }: VotingCountdownProps) {
+  if (votingWindow.phase === 'closed') {
+    return (
+      <div className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+        <Lock className="h-3 w-3" />
+        Voting closed
+      </div>
+    );
+  }
+
+  if (votingWindow.phase === 'pending') {
+    return (
+      <div className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+        <Clock className="h-3 w-3" />
+        Voting in {formatCountdown(votingWindow.opensIn)}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`flex items-center gap-1 text-xs whitespace-nowrap ${
+        votingWindow.closesIn <= 10 ? 'text-yellow-500 font-semibold' : 'text-muted-foreground'
+      }`}
+    >
+      <Clock className="h-3 w-3" />
+      {votingWindow.closesIn > 0 ? `${formatCountdown(votingWindow.closesIn)} to vote` : 'Last call'}
+    </div>
+  );
+});
+
+export default VotingCountdown;
@@ -6,24 +6,32 @@ import { Star } from 'lucide-react';
 interface VotingStarsProps {
   currentRating: number;
   hasVoted: boolean;
+  locked: boolean; // outside the voting window
   onVote: (rating: number) => Promise<void>;
+  size?: 'sm' | 'md';
 }
 
+/**
+ * VotingStars - 1-5 star rating
+ * The rating can be changed until the voting window closes
+ */
 const VotingStars = memo(function VotingStars({
   currentRating,
   hasVoted,
+  locked,
   onVote,
+  size = 'md',
 }: VotingStarsProps) {
   const [localRating, setLocalRating] = useState(currentRating);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showFeedback, setShowFeedback] = useState(false);
+  const [feedback, setFeedback] = useState<string | null>(null);
 
   useEffect(() => {
     setLocalRating(currentRating);
   }, [currentRating]);
 
   const handleVote = async (rating: number) => {
-    if (hasVoted || isSubmitting) return;
+    if (locked || isSubmitting || rating === currentRating) return;
 
     // Optimistic update
     setLocalRating(rating);
@@ -32,8 +40,8 @@ const VotingStars = memo(function VotingStars({
     try {
       await onVote(rating);
       // Show feedback animation
-      setShowFeedback(true);
-      setTimeout(() => setShowFeedback(false), 1000);
+      setFeedback(hasVoted ? 'Updated!' : 'Voted!');
+      setTimeout(() => setFeedback(null), 1000);
     } catch (error) {
       // Revert on error
       setLocalRating(currentRating);
@@ -49,25 +57,25 @@ const VotingStars = memo(function VotingStars({
         <button
           key={rating}
           onClick={() => handleVote(rating)}
-          disabled={hasVoted || isSubmitting}
+          disabled={locked || isSubmitting}
           className={`transition-all ${
-            hasVoted || isSubmitting
+            locked || isSubmitting
               ? 'cursor-not-allowed'
               : 'cursor-pointer hover:scale-110'
-          }`}
+          } ${locked && !hasVoted ? 'opacity-40' : ''}`}
         >
           <Star
-            className={`h-6 w-6 transition-all ${
+            className={`${size === 'sm' ? 'h-4 w-4' : 'h-6 w-6'} transition-all ${
               rating <= localRating
                 ? 'fill-white text-white'
                 : 'text-muted'
-            } ${showFeedback && rating === localRating ? 'scale-125' : ''}`}
+            } ${feedback && rating === localRating ? 'scale-125' : ''}`}
           />
         </button>
       ))}
-      {showFeedback && (
+      {feedback && (
         <div className="absolute -top-8 left-1/2 -translate-x-1/2 text-xs text-green-500 font-semibold animate-pulse">
-          Voted!
+          {feedback}
         </div>
       )}
     </div>
@@ -4,27 +4,43 @@ import { memo } from 'react';
 import { Music, Play, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import RoundEditor from '@/components/session/round-editor';
 import SongQueueList from '@/components/session/song-queue-list';
 import type { Database } from '@/lib/supabase/database.types';
 
 type Song = Database['public']['Tables']['songs']['Row'];
 type Participant = Database['public']['Tables']['participants']['Row'];
+type Round = Database['public']['Tables']['rounds']['Row'];
 
 interface WaitingViewProps {
   songs: Song[];
   participants: Participant[];
   isHost: boolean;
+  hiddenSongIds?: Set<string>;
+  rounds?: Round[];
+  remainingSongs?: number;
   onStartSession: () => void;
   onAddSong: () => void;
+  onAddRound?: (round: Pick<Round, 'name' | 'prompt' | 'songs_per_participant' | 'ordering'>) => Promise<void>;
+  onRemoveRound?: (roundId: string) => Promise<void>;
 }
 
 const WaitingView = memo(function WaitingView({
   songs,
   participants,
   isHost,
+  hiddenSongIds,
+  rounds = [],
+  remainingSongs,
   onStartSession,
   onAddSong,
+  onAddRound,
+  onRemoveRound,
 }: WaitingViewProps) {
+  const roundEditor = isHost && onAddRound && onRemoveRound && (
+    <RoundEditor rounds={rounds} onAddRound={onAddRound} onRemoveRound={onRemoveRound} />
+  );
+
   // Empty state - encourage adding songs
   if (songs.length === 0) {
     return (
@@ -48,6 +64,8 @@ const WaitingView = memo(function WaitingView({
             </CardContent>
           </Card>
         </div>
+
+        {roundEditor}
       </div>
     );
   }
@@ -63,6 +81,13 @@ const WaitingView = memo(function WaitingView({
             <p className="text-sm text-muted-foreground mt-2">
               {songs.length} {songs.length === 1 ? 'song' : 'songs'} in the queue
             </p>
+            {remainingSongs !== undefined && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {remainingSongs === 0
+                  ? 'You have added all your songs'
+                  : `You can add ${remainingSongs} more ${remainingSongs === 1 ? 'song' : 'songs'}`}
+              </p>
+            )}
             <p className="text-xs text-muted-foreground mt-1">
               {isHost
                 ? 'Start when everyone has added their songs'
@@ -70,7 +95,7 @@ const WaitingView = memo(function WaitingView({
             </p>
           </div>
           <div className="flex gap-2 justify-center">
-            <Button onClick={onAddSong} variant="outline" size="sm">
+            <Button onClick={onAddSong} variant="outline" size="sm" disabled={remainingSongs === 0}>
               <Plus className="h-4 w-4 mr-2" />
               Add More
             </Button>
@@ -84,11 +109,15 @@ const WaitingView = memo(function WaitingView({
         </div>
       </div>
 
+      {roundEditor}
+
       {/* Queue */}
       <SongQueueList
         songs={songs}
         participants={participants}
         showScores={false}
+        hiddenSongIds={hiddenSongIds}
+        rounds={rounds}
       />
     </div>
   );
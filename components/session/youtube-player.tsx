@@ -1,8 +1,10 @@
 'use client';
 
-import { Play, VolumeX, Volume2 } from 'lucide-react';
+import { Ban, Pause, Play, VolumeX, Volume2 } from 'lucide-react';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import YouTube, { YouTubePlayer, YouTubeProps } from 'react-youtube';
+import { measurePlaybackDrift } from '@/lib/session/clock';
+import { getPlaybackPosition } from '@/lib/session/playback';
 
 interface YouTubePlayerComponentProps {
   videoId: string;
@@ -11,8 +13,20 @@ interface YouTubePlayerComponentProps {
   startTime?: number;
   autoplay?: boolean;
   sessionStartedAt?: string; // When the song started playing in the session
+  pausedAt?: string; // When the host paused the song (unset while playing)
+  positionOffset?: number; // Seconds moved by pauses and seeks
+  onUnplayable?: (reason: string, errorCode?: number) => void; // The video can't be played here
 }
 
+// YouTube player error codes - none of them go away by retrying
+const PLAYER_ERRORS: Record<number, string> = {
+  2: 'Invalid video ID',
+  5: "The video can't be played in the browser",
+  100: 'The video was removed or made private',
+  101: "The owner doesn't allow this video to be embedded",
+  150: "The owner doesn't allow this video to be embedded",
+};
+
 const USER_INTERACTION_KEY = 'beat-battle-user-interacted';
 const USER_UNMUTED_KEY = 'beat-battle-user-unmuted';
 
@@ -23,6 +37,9 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
   startTime = 0,
   autoplay = true,
   sessionStartedAt,
+  pausedAt,
+  positionOffset = 0,
+  onUnplayable,
 }: YouTubePlayerComponentProps) {
   const playerRef = useRef<YouTubePlayer | null>(null);
   const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -32,6 +49,7 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
   const [isMuted, setIsMuted] = useState(true);
   const [hasUnmuted, setHasUnmuted] = useState(false);
   const [showUnmutedConfirmation, setShowUnmutedConfirmation] = useState(false);
+  const [unplayableReason, setUnplayableReason] = useState<string | null>(null);
 
   const opts: YouTubeProps['opts'] = {
     height: '100%',
@@ -72,14 +90,15 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
     localStorage.setItem(USER_UNMUTED_KEY, 'true');
   };
 
-  // Calculate what the current playback time should be based on session start time
+  // Calculate what the current playback time should be based on session start time (server clock)
   const getExpectedPlaybackTime = useCallback(() => {
     if (!sessionStartedAt) return startTime;
-    const startTime_ms = new Date(sessionStartedAt).getTime();
-    const now = Date.now();
-    const elapsed = Math.floor((now - startTime_ms) / 1000);
-    return Math.max(0, elapsed);
-  }, [sessionStartedAt, startTime]);
+    return getPlaybackPosition({
+      current_song_started_at: sessionStartedAt,
+      paused_at: pausedAt ?? null,
+      position_offset: positionOffset,
+    }) ?? startTime;
+  }, [sessionStartedAt, pausedAt, positionOffset, startTime]);
 
   // Unmute handler
   const handleUnmute = async () => {
@@ -140,6 +159,13 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
     const expectedTime = getExpectedPlaybackTime();
     event.target.seekTo(expectedTime, true);
 
+    // Joined while the host has the song paused
+    if (pausedAt) {
+      event.target.pauseVideo();
+      onReady?.();
+      return;
+    }
+
     if (!autoplay) {
       onReady?.();
       return;
@@ -177,6 +203,23 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
     }
   };
 
+  // Handle player errors (the video won't play for this listener)
+  const handleError: YouTubeProps['onError'] = (event) => {
+    const reason = PLAYER_ERRORS[event.data];
+    if (!reason) {
+      console.error('[YouTubePlayer] Unknown player error:', event.data);
+      return;
+    }
+
+    console.error(`[YouTubePlayer] Player error ${event.data}: ${reason}`);
+    if (syncIntervalRef.current) {
+      clearInterval(syncIntervalRef.current);
+    }
+    setUnplayableReason(reason);
+    setShowPlayButton(false);
+    onUnplayable?.(reason, event.data);
+  };
+
   // Handle song end
   const handleEnd: YouTubeProps['onEnd'] = () => {
     onEnd();
@@ -257,6 +300,22 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sessionStartedAt, autoplay]);
 
+  // Follow the host's pause, resume and seek
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || !sessionStartedAt) return;
+
+    if (pausedAt) {
+      console.log('[YouTubePlayer] Paused by the host');
+      player.pauseVideo();
+      player.seekTo(getExpectedPlaybackTime(), true);
+    } else if (autoplay) {
+      console.log('[YouTubePlayer] Playback moved by the host, resyncing');
+      tryAutoplay();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pausedAt, positionOffset]);
+
   // Sync playback with session time
   useEffect(() => {
     if (!playerRef.current || !sessionStartedAt) return;
@@ -266,10 +325,16 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
       syncIntervalRef.current = setInterval(async () => {
         try {
           const player = playerRef.current;
-          if (!player) return;
+          if (!player || unplayableReason) return;
 
           const state = await player.getPlayerState();
 
+          // Stay paused while the host has the song paused
+          if (pausedAt) {
+            if (state === 1) player.pauseVideo();
+            return;
+          }
+
           // Only force play if truly paused (not buffering)
           if (state === 2 && autoplay) {
             console.log('[YouTubePlayer] Sync: Player is paused, forcing play...');
@@ -286,12 +351,15 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
             setShowPlayButton(false);
 
             // Check sync drift
-            const currentTime = await player.getCurrentTime();
-            const expectedTime = getExpectedPlaybackTime();
-            const drift = Math.abs(currentTime - expectedTime);
-
-            if (drift > 3) {
-              console.log(`[YouTubePlayer] Sync: Out of sync by ${drift}s, resyncing...`);
+            const sync = await measurePlaybackDrift(
+              () => player.getCurrentTime(),
+              getExpectedPlaybackTime
+            );
+            if (!sync) return;
+
+            const { drift, expectedTime } = sync;
+            if (Math.abs(drift) > 3) {
+              console.log(`[YouTubePlayer] Sync: Out of sync by ${drift.toFixed(2)}s, resyncing...`);
               player.seekTo(expectedTime, true);
             }
           } else if (state === 3) {
@@ -311,7 +379,7 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sessionStartedAt, videoId, autoplay]);
+  }, [sessionStartedAt, videoId, autoplay, pausedAt, positionOffset, unplayableReason]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -338,6 +406,7 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
         onReady={handleReady}
         onStateChange={handleStateChange}
         onEnd={handleEnd}
+        onError={handleError}
         className="absolute inset-0"
         iframeClassName="w-full h-full"
       />
@@ -375,8 +444,27 @@ const YouTubePlayerComponent = memo(function YouTubePlayerComponent({
         </div>
       )}
 
+      {/* The video can't be played here */}
+      {unplayableReason && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
+          <Ban className="size-10 text-white" />
+          <div className="mt-3 text-center px-4">
+            <p className="text-white text-lg font-semibold">Can&apos;t play this video here</p>
+            <p className="text-white/70 text-sm mt-1">{unplayableReason}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Paused by the host */}
+      {pausedAt && !unplayableReason && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-300">
+          <Pause className="size-10 text-white" />
+          <p className="mt-3 text-white text-lg font-semibold">Paused by the host</p>
+        </div>
+      )}
+
       {/* Play button overlay when autoplay is blocked */}
-      {showPlayButton && (
+      {showPlayButton && !pausedAt && !unplayableReason && (
         <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
           <button
             onClick={handleManualPlay}
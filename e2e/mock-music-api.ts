@@ -0,0 +1,83 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+
+// Mock YouTube / Spotify APIs for the search tests. Importing this module points
+// the music providers at it (they read the env when they're loaded), so import
+// it before anything that loads a provider.
+
+const MOCK_API_PORT = 4010;
+const base = `http://127.0.0.1:${MOCK_API_PORT}`;
+
+process.env.YOUTUBE_API_KEY = 'test-key';
+process.env.YOUTUBE_API_URL = `${base}/youtube/v3`;
+process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID = 'test-id';
+process.env.SPOTIFY_CLIENT_SECRET = 'test-secret';
+process.env.SPOTIFY_ACCOUNTS_URL = base;
+process.env.SPOTIFY_API_URL = `${base}/v1`;
+
+type Handler = (url: URL, res: ServerResponse) => void;
+
+function json(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+// The search query picks the scenario: 'quota', 'malformed' or anything else for a result
+const youtube: Handler = (url, res) => {
+  const q = url.searchParams.get('q');
+
+  if (url.pathname.endsWith('/search')) {
+    if (q === 'quota') {
+      return json(res, 403, { error: { errors: [{ reason: 'quotaExceeded' }] } });
+    }
+    if (q === 'malformed') return json(res, 200, '{"items": [');
+    return json(res, 200, { items: [{ id: { videoId: 'abc123' } }] });
+  }
+
+  json(res, 200, {
+    items: [
+      {
+        id: 'abc123',
+        snippet: {
+          title: 'Artist - Song (Official Video)',
+          channelTitle: 'ArtistVEVO',
+          thumbnails: { medium: { url: 'https://i.ytimg.com/vi/abc123/mqdefault.jpg' } },
+        },
+        contentDetails: { duration: 'PT3M30S' },
+        status: { embeddable: true, privacyStatus: 'public' },
+      },
+    ],
+  });
+};
+
+const spotify: Handler = (url, res) => {
+  if (url.pathname.endsWith('/api/token')) {
+    return json(res, 200, { access_token: 'token', expires_in: 3600 });
+  }
+
+  const q = url.searchParams.get('q');
+  if (q === 'quota') return json(res, 429, { error: { status: 429 } }, { 'Retry-After': '30' });
+  if (q === 'malformed') return json(res, 200, { tracks: null });
+
+  json(res, 200, {
+    tracks: {
+      items: [
+        {
+          id: 'sp1',
+          name: 'Song',
+          duration_ms: 210_000,
+          artists: [{ name: 'Artist' }, { name: 'Guest' }],
+          album: { images: [{ url: 'https://i.scdn.co/image/sp1', width: 300, height: 300 }] },
+        },
+      ],
+    },
+  });
+};
+
+export async function startMockMusicApi(): Promise<Server> {
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', base);
+    (url.pathname.startsWith('/youtube') ? youtube : spotify)(url, res);
+  });
+  await new Promise<void>((resolve) => server.listen(MOCK_API_PORT, '127.0.0.1', resolve));
+  return server;
+}
@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test';
+import type { Server } from 'http';
+import { NextRequest } from 'next/server';
+import { startMockMusicApi } from './mock-music-api';
+import { GET as searchSongs } from '@/app/api/songs/search/route';
+
+// /api/songs/search against the mock YouTube / Spotify API: results, quota and
+// rate limit errors, and malformed responses
+
+let server: Server;
+
+test.beforeAll(async () => {
+  server = await startMockMusicApi();
+});
+
+test.afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function search(source: string, q: string) {
+  return searchSongs(
+    new NextRequest(`http://localhost/api/songs/search?` + new URLSearchParams({ source, q }))
+  );
+}
+
+test.describe('YouTube search', () => {
+  test('returns normalized tracks', async () => {
+    const response = await search('youtube', 'song');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      results: [
+        {
+          id: 'abc123',
+          source: 'youtube',
+          title: 'Song',
+          artist: 'Artist',
+          rawTitle: 'Artist - Song (Official Video)',
+          thumbnail: 'https://i.ytimg.com/vi/abc123/mqdefault.jpg',
+          duration: 210,
+        },
+      ],
+    });
+  });
+
+  test('fails cleanly on a malformed response', async () => {
+    const response = await search('youtube', 'malformed');
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to search YouTube' });
+  });
+
+  // Last: the provider stops calling the API for a while after this
+  test('reports an exhausted quota', async () => {
+    const response = await search('youtube', 'quota');
+    expect(response.status).toBe(503);
+    expect((await response.json()).code).toBe('quota_exceeded');
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+});
+
+test.describe('Spotify search', () => {
+  test('returns tracks', async () => {
+    const response = await search('spotify', 'song');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      results: [
+        {
+          id: 'sp1',
+          source: 'spotify',
+          title: 'Song',
+          artist: 'Artist, Guest',
+          thumbnail: 'https://i.scdn.co/image/sp1',
+          duration: 210,
+        },
+      ],
+    });
+  });
+
+  test('reports rate limiting', async () => {
+    const response = await search('spotify', 'quota');
+    expect(response.status).toBe(429);
+    expect((await response.json()).code).toBe('rate_limited');
+    expect(response.headers.get('Retry-After')).toBe('30');
+  });
+
+  test('fails cleanly on a malformed response', async () => {
+    const response = await search('spotify', 'malformed');
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to search Spotify' });
+  });
+});
@@ -0,0 +1,24 @@
+import { test, expect } from '@playwright/test';
+import { normalizeTrackInfo } from '@/lib/music/normalize';
+
+// [raw title, channel, expected title, expected artist]
+const cases: Array<[string, string, string, string]> = [
+  ['Artist - Song (Official Video) [4K]', 'ArtistVEVO', 'Song', 'Artist'],
+  ['Song', 'TaylorSwiftVEVO', 'Song', 'Taylor Swift'],
+  ['Yesterday - Remastered 2009', 'The Beatles - Topic', 'Yesterday', 'The Beatles'],
+  ['Part One - Part Two', 'Some Band - Topic', 'Part One - Part Two', 'Some Band'],
+  ['Song Title - Official Music Video', 'Artist', 'Song Title', 'Artist'],
+  ['Song Title - Lyrics', 'Artist', 'Song Title', 'Artist'],
+  ['Artist - Song (Official Video Remastered)', 'Label', 'Song', 'Artist'],
+  ['Artist - Song - Remastered 2009', 'Label', 'Song', 'Artist'],
+  ['Artist - Song (Clean)', 'Label', 'Song', 'Artist'],
+  ['Come Clean', 'Hilary Duff', 'Come Clean', 'Hilary Duff'],
+];
+
+test.describe('normalizeTrackInfo', () => {
+  for (const [rawTitle, channel, title, artist] of cases) {
+    test(`"${rawTitle}" by "${channel}"`, () => {
+      expect(normalizeTrackInfo(rawTitle, channel)).toEqual({ title, artist });
+    });
+  }
+});
@@ -0,0 +1,30 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { CLOCK_RESYNC_INTERVAL_MS, getClockState, subscribeClock, syncClock } from '@/lib/session/clock';
+
+/**
+ * Custom hook to keep the client's estimate of the server clock fresh
+ * Syncs on mount, periodically, and when the tab comes back (sleep can move the clock)
+ */
+export function useClockSync() {
+  useEffect(() => {
+    syncClock();
+
+    const interval = setInterval(syncClock, CLOCK_RESYNC_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') syncClock();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+}
+
+/**
+ * Current clock offset, round trip and playback drift (re-renders on change)
+ */
+export function useClockState() {
+  return useSyncExternalStore(subscribeClock, getClockState, getClockState);
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { useSessionStore } from '@/lib/store/session-store';
+import { serverNow } from '@/lib/session/clock';
+import { getForcePlayCooldownRemaining, getForcePlayTokensLeft } from '@/lib/session/limits';
+import type { SessionSettings } from '@/lib/types';
+
+/**
+ * Custom hook for the force play power card: tokens left and cooldown countdown
+ * Ticks once per second while the current participant is on cooldown
+ */
+export function useForcePlayCooldown(settings: SessionSettings, participantId: string | undefined) {
+  const forcePlays = useSessionStore((state) => state.forcePlays);
+  const perkPurchases = useSessionStore((state) => state.perkPurchases);
+  const [now, setNow] = useState(() => serverNow());
+
+  const cooldownRemaining = getForcePlayCooldownRemaining(settings, forcePlays, participantId, now);
+  const isCoolingDown = cooldownRemaining > 0;
+  const tokensLeft = getForcePlayTokensLeft(settings, forcePlays, participantId, perkPurchases);
+
+  useEffect(() => {
+    if (!isCoolingDown) return;
+
+    const interval = setInterval(() => setNow(serverNow()), 1000);
+    return () => clearInterval(interval);
+  }, [isCoolingDown]);
+
+  // A new force play restarts the countdown from the current time
+  useEffect(() => {
+    setNow(serverNow());
+  }, [forcePlays]);
+
+  return {
+    canForcePlay: settings.allowForcePlay && tokensLeft > 0 && cooldownRemaining === 0,
+    tokensLeft: settings.allowForcePlay ? tokensLeft : 0,
+    cooldownRemaining: settings.allowForcePlay ? cooldownRemaining : 0,
+  };
+}
@@ -0,0 +1,96 @@
+import { useEffect } from 'react';
+import { useSessionStore } from '@/lib/store/session-store';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Participant = Database['public']['Tables']['participants']['Row'];
+
+// How long the host may be gone before someone takes over
+// (long enough to survive a page refresh, which shows up as leave + join, and
+// longer than the 15s without heartbeats transfer_host() requires)
+const HOST_MIGRATION_DELAY_MS = 20000;
+const HOST_HEARTBEAT_INTERVAL_MS = 5000;
+
+/**
+ * Deterministic election: the earliest-joined participant that is still online.
+ * Every client computes the same answer, so only the winner needs to act.
+ */
+function electHost(participants: Participant[], onlineIds: Set<string>): Participant | null {
+  const candidates = participants
+    .filter((p) => onlineIds.has(p.id))
+    .sort((a, b) => {
+      const joinedA = a.joined_at ? new Date(a.joined_at).getTime() : 0;
+      const joinedB = b.joined_at ? new Date(b.joined_at).getTime() : 0;
+      return joinedA - joinedB || a.id.localeCompare(b.id);
+    });
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Custom hook to handle host migration
+ * Watches presence leave events and, when the host has been offline for a
+ * while, lets the elected participant claim the host role.
+ * While we are the host, sends the heartbeats that keep others from claiming it.
+ */
+export function useHostMigration() {
+  const realtime = useSessionStore((state) => state.realtime);
+
+  useEffect(() => {
+    if (!realtime) return;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const checkHost = async () => {
+      timeout = null;
+
+      // Read fresh state - presence callbacks outlive renders
+      const { session, participants, currentParticipant, transferHost } = useSessionStore.getState();
+      if (!session || !currentParticipant || session.status === 'finished') return;
+
+      const host = participants.find((p) => p.is_host);
+      if (host && realtime.presence.isUserOnline(host.id)) return;
+
+      const onlineIds = new Set(realtime.presence.getUsers().map((u) => u.user_id));
+      const candidate = electHost(participants, onlineIds);
+
+      if (candidate?.id !== currentParticipant.id) return;
+
+      console.log('[HostMigration] Host is offline, claiming host role');
+      try {
+        await transferHost(currentParticipant.id, 'migration');
+      } catch (error) {
+        // Refused while the host's heartbeats are still fresh - try again later
+        console.error('[HostMigration] Error claiming host role:', error);
+        scheduleCheck();
+      }
+    };
+
+    const scheduleCheck = () => {
+      if (timeout) return;
+      timeout = setTimeout(checkHost, HOST_MIGRATION_DELAY_MS);
+    };
+
+    const unsubscribe = realtime.presence.onChange((payload) => {
+      if (payload.event === 'leave' || payload.event === 'sync') {
+        scheduleCheck();
+      }
+    });
+
+    // The host may already be gone when we join
+    scheduleCheck();
+
+    const sendHeartbeat = () => {
+      useSessionStore.getState().sendHostHeartbeat().catch((error) => {
+        console.error('[HostMigration] Error sending heartbeat:', error);
+      });
+    };
+    sendHeartbeat();
+    const heartbeat = setInterval(sendHeartbeat, HOST_HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      if (timeout) clearTimeout(timeout);
+      clearInterval(heartbeat);
+    };
+  }, [realtime]);
+}
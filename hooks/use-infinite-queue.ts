@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+import { useSessionStore } from '@/lib/store/session-store';
+
+/**
+ * Custom hook to keep an infinite mode queue topped up (host only)
+ * When fewer than min_queue_size songs are left after the current one,
+ * asks the server to add songs for the DJ participant
+ */
+export function useInfiniteQueue(isHost: boolean) {
+  const session = useSessionStore((state) => state.session);
+  const songCount = useSessionStore((state) => state.songs.length);
+  const autofillQueue = useSessionStore((state) => state.autofillQueue);
+  const isFillingRef = useRef(false);
+
+  const isActive = isHost && !!session?.infinite_mode && session.status === 'playing';
+  const remaining = songCount - (session?.current_song_index ?? 0) - 1;
+  const isLow = remaining < (session?.min_queue_size ?? 3);
+
+  // Re-runs when a song is added or the session advances - not in a loop when nothing is found
+  useEffect(() => {
+    if (!isActive || !isLow || isFillingRef.current) return;
+
+    isFillingRef.current = true;
+    console.log(`[InfiniteQueue] ${remaining} songs left, filling queue`);
+
+    autofillQueue()
+      .catch((error) => console.error('[InfiniteQueue] Error filling queue:', error))
+      .finally(() => {
+        isFillingRef.current = false;
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isActive, isLow, remaining]);
+}
@@ -3,6 +3,7 @@ import { useRouter } from 'next/navigation';
 import { useSessionStore } from '@/lib/store/session-store';
 import { supabase } from '@/lib/supabase/client';
 import { useSession } from '@/lib/auth/auth-client';
+import { clearParticipantSecret, joinAsParticipant } from '@/lib/session/participant-secret';
 
 /**
  * Custom hook to handle session initialization
@@ -42,6 +43,7 @@ export function useSessionInit(sessionId: string) {
           console.log('[useSessionInit] ParticipantId from localStorage does not belong to this session, clearing it');
           participantId = null;
           localStorage.removeItem('participantId');
+          clearParticipantSecret();
         }
 
         // 2. Check if user is a group member and auto-join if needed
@@ -71,38 +73,22 @@ export function useSessionInit(sessionId: string) {
             console.log('[useSessionInit] Group member found:', !!groupMember);
 
             if (groupMember && storeSession) {
-              // Check if there's already a participant for this session (maybe from a previous visit)
-              const existingParticipant = storeParticipants.find(p =>
-                p.user_name === groupMember.user_name ||
-                p.user_name === userName
-              );
-
-              if (existingParticipant) {
-                console.log('[useSessionInit] Found existing participant, reusing:', existingParticipant.id);
-                participantId = existingParticipant.id;
-                localStorage.setItem('participantId', existingParticipant.id);
-              } else {
-                // User is a group member but not a participant - auto-join
-                console.log('[useSessionInit] Auto-joining group member to session');
-
-              const newParticipantId = crypto.randomUUID();
+              // Group members join when they first open the session (a participant
+              // from a visit on another device can't be taken over without its secret)
+              console.log('[useSessionInit] Auto-joining group member to session');
+
               const participantName = userName || groupMember.user_name;
 
-              const { error: joinError } = await supabase
-                .from('participants')
-                .insert({
-                  id: newParticipantId,
-                  session_id: sessionId,
-                  user_name: participantName,
-                  is_host: false,
+              const newParticipantId = await joinAsParticipant(sessionId, { userName: participantName })
+                .then((participant) => participant.id)
+                .catch((joinError) => {
+                  console.error('[useSessionInit] Error auto-joining:', joinError);
+                  return null;
                 });
 
-              if (joinError) {
-                console.error('[useSessionInit] Error auto-joining:', joinError);
-              } else {
-                // Save participant ID and name
+              if (newParticipantId) {
+                // Save participant ID and name (the secret is already stored)
                 participantId = newParticipantId;
-                localStorage.setItem('participantId', newParticipantId);
                 localStorage.setItem('userName', participantName);
 
                 console.log('[useSessionInit] Participant created:', newParticipantId, participantName);
@@ -120,7 +106,6 @@ export function useSessionInit(sessionId: string) {
                   console.error('[useSessionInit] New participant not found in store after reload!');
                 }
               }
-              }
             }
           }
         }
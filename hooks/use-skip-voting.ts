@@ -1,5 +1,7 @@
 import { useCallback, useEffect, useState } from 'react';
 import { useSessionStore } from '@/lib/store/session-store';
+import { getPlaybackPosition } from '@/lib/session/playback';
+import { getCompetitors } from '@/lib/session/dj';
 import type { Database } from '@/lib/supabase/database.types';
 
 type Session = Database['public']['Tables']['sessions']['Row'];
@@ -40,7 +42,7 @@ export function useSkipVoting({
     if (!isHost || !currentSong || !session || session.status !== 'playing' || isCheckingThreshold) return;
 
     const songSkipVotes = skipVotes.filter((v) => v.song_id === currentSong.id);
-    const skipThreshold = Math.ceil(participants.length * 0.5);
+    const skipThreshold = Math.ceil(getCompetitors(participants).length * 0.5);
 
     if (songSkipVotes.length >= skipThreshold && songSkipVotes.length > 0) {
       console.log('[SkipVoting] Threshold reached via broadcast, auto-skipping...');
@@ -60,16 +62,14 @@ export function useSkipVoting({
       return;
     }
 
-    // Update elapsed time every second
+    // Update elapsed time every second (playback position, so pauses don't count)
     const interval = setInterval(() => {
-      const startTime = new Date(session.current_song_started_at!).getTime();
-      const now = Date.now();
-      const elapsed = Math.floor((now - startTime) / 1000);
-      setElapsedTime(elapsed);
+      setElapsedTime(Math.floor(getPlaybackPosition(session) ?? 0));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [session?.current_song_started_at, session?.status]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session?.current_song_started_at, session?.status, session?.paused_at, session?.position_offset]);
 
   // Handle skip voting
   const handleSkipVote = useCallback(async () => {
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { serverNow } from '@/lib/session/clock';
+import { getPlaybackPosition } from '@/lib/session/playback';
+import { getGraceRemaining, getVotingWindow } from '@/lib/session/voting';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Session = Database['public']['Tables']['sessions']['Row'];
+type Song = Database['public']['Tables']['songs']['Row'];
+
+interface UseVotingWindowProps {
+  session: Session | null;
+  currentSong: Song | null;
+  previousSong: Song | null;
+  votingDuration: number;
+}
+
+/**
+ * Custom hook to track the voting window of the current song
+ * and the grace period of the previous one, re-evaluated every second
+ */
+export function useVotingWindow({ session, currentSong, previousSong, votingDuration }: UseVotingWindowProps) {
+  const [now, setNow] = useState(() => serverNow());
+
+  const startedAt = session?.status === 'playing' ? session.current_song_started_at : null;
+  const position = session && startedAt ? getPlaybackPosition(session, now) : null;
+
+  useEffect(() => {
+    if (!startedAt) return;
+
+    setNow(serverNow());
+    const interval = setInterval(() => setNow(serverNow()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const votingWindow = currentSong
+    ? getVotingWindow(currentSong.duration, position, votingDuration)
+    : getVotingWindow(0, null, votingDuration);
+
+  const graceRemaining = previousSong ? getGraceRemaining(startedAt, now) : 0;
+
+  return {
+    votingWindow,
+    // Previous song that can still be rated, with seconds left
+    graceSong: graceRemaining > 0 ? previousSong : null,
+    graceRemaining,
+  };
+}
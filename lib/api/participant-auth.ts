@@ -0,0 +1,60 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+import type { getSupabaseAdmin } from '@/lib/supabase/admin';
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+// Clients send the secret they got when joining in this header
+export const PARTICIPANT_SECRET_HEADER = 'x-participant-secret';
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Issue the secret for a participant that was just created.
+ * Only the request that created the participant may call this.
+ */
+export async function issueParticipantSecret(
+  supabase: SupabaseAdmin,
+  participantId: string
+): Promise<string> {
+  const secret = randomBytes(32).toString('base64url');
+
+  const { error } = await supabase
+    .from('participant_secrets')
+    .insert({ participant_id: participantId, secret_hash: hashSecret(secret) });
+
+  if (error) throw error;
+
+  return secret;
+}
+
+/**
+ * Check that the request carries the secret of this participant of the session.
+ * Participant ids are public, so routes acting as a participant must call this
+ * before trusting participantId.
+ */
+export async function verifyParticipant(
+  supabase: SupabaseAdmin,
+  request: NextRequest,
+  sessionId: string,
+  participantId: string
+): Promise<boolean> {
+  const secret = request.headers.get(PARTICIPANT_SECRET_HEADER);
+  if (!secret) return false;
+
+  const { data, error } = await supabase
+    .from('participant_secrets')
+    .select('secret_hash, participants!inner(session_id)')
+    .eq('participant_id', participantId)
+    .eq('participants.session_id', sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return false;
+
+  const expected = Buffer.from(data.secret_hash, 'hex');
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server';
+
+interface RateLimitOptions {
+  limit: number; // requests per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // seconds until the window resets (0 when allowed)
+}
+
+/**
+ * Fixed-window request counter per key (IP, session, ...), kept in memory
+ * per server instance - enough to stop one party from burning the API quota.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return function check(key: string): RateLimitResult {
+    const now = Date.now();
+
+    // Drop expired windows now and then so the map doesn't grow forever
+    if (windows.size > 10_000) {
+      for (const [k, w] of windows) {
+        if (w.resetAt <= now) windows.delete(k);
+      }
+    }
+
+    const current = windows.get(key);
+    if (!current || current.resetAt <= now) {
+      windows.set(key, { count: 1, resetAt: now + windowMs });
+      return { allowed: true, retryAfter: 0 };
+    }
+
+    if (current.count >= limit) {
+      return { allowed: false, retryAfter: Math.ceil((current.resetAt - now) / 1000) };
+    }
+
+    current.count += 1;
+    return { allowed: true, retryAfter: 0 };
+  };
+}
+
+/**
+ * Best-effort client IP: the last x-forwarded-for entry, the one appended by
+ * the proxy in front of us (earlier entries come from the client and can be
+ * anything), then x-real-ip
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim();
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
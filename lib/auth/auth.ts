@@ -26,6 +26,12 @@ export const auth = betterAuth({
       clientId: process.env.GOOGLE_CLIENT_ID as string,
       clientSecret: process.env.GOOGLE_CLIENT_SECRET as string,
     },
+    // Spotify is linked for playback (Web Playback SDK needs streaming + Premium)
+    spotify: {
+      clientId: process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID as string,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET as string,
+      scope: ['streaming', 'user-read-email', 'user-read-private', 'user-modify-playback-state'],
+    },
   },
   session: {
     expiresIn: 60 * 60 * 24 * 7, // 7 days
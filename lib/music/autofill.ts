@@ -0,0 +1,140 @@
+import { isSameSong } from './duplicates';
+import { getMusicProvider } from './registry';
+import type { Track } from './types';
+import { MAX_SONG_DURATION } from '@/lib/session/limits';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+type Score = Database['public']['Tables']['scores']['Row'];
+
+// Songs rated at least this well seed suggestions and qualify from the backlog
+const MIN_RATING = 3.5;
+// Recently played songs considered as seeds, and how many of them are used
+const RECENT_SONGS = 10;
+const SEED_COUNT = 2;
+// Best-rated backlog songs to pick from at random
+const BACKLOG_POOL = 20;
+
+/**
+ * A song for autofill_queue() - same shape as add_songs() entries
+ */
+export interface AutofillSong {
+  title: string;
+  artist: string;
+  raw_title: string | null;
+  album_art: string | null;
+  duration: number;
+  source: string;
+  source_id: string;
+}
+
+interface AutofillInput {
+  played: Song[]; // songs up to and including the current one, in queue order
+  songs: Song[]; // every song in the session
+  backlog: Song[]; // songs from the group's other sessions
+  scores: Score[]; // ratings of played and backlog songs
+  count: number;
+}
+
+function averageRatings(scores: Score[]): Map<string, number> {
+  const ratings = new Map<string, number[]>();
+  scores.forEach((score) => ratings.set(score.song_id, [...(ratings.get(score.song_id) ?? []), score.rating]));
+  return new Map([...ratings].map(([songId, values]) => [songId, values.reduce((a, b) => a + b, 0) / values.length]));
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function fromTrack(track: Track): AutofillSong {
+  return {
+    title: track.title,
+    artist: track.artist,
+    raw_title: track.rawTitle ?? null,
+    album_art: track.thumbnail,
+    duration: track.duration,
+    source: track.source,
+    source_id: track.id,
+  };
+}
+
+function fromSong(song: Song): AutofillSong {
+  return {
+    title: song.title,
+    artist: song.artist,
+    raw_title: song.raw_title,
+    album_art: song.album_art,
+    duration: song.duration,
+    source: song.source,
+    source_id: song.source_id,
+  };
+}
+
+/**
+ * Suggestions based on the best-rated recent songs (the latest song when nothing is rated yet).
+ * Provider errors (e.g. YouTube out of quota) just mean no suggestions.
+ */
+async function getRelatedSongs(played: Song[], ratings: Map<string, number>): Promise<AutofillSong[]> {
+  const provider = getMusicProvider('youtube');
+  if (!provider.getRelated) return [];
+
+  const recent = played.slice(-RECENT_SONGS).reverse();
+  const rated = recent
+    .filter((song) => (ratings.get(song.id) ?? 0) >= MIN_RATING)
+    .sort((a, b) => (ratings.get(b.id) ?? 0) - (ratings.get(a.id) ?? 0));
+  const seeds = (rated.length > 0 ? rated : recent).slice(0, SEED_COUNT);
+
+  const related: AutofillSong[] = [];
+  for (const seed of seeds) {
+    try {
+      const tracks = await provider.getRelated({ id: seed.source_id, title: seed.title, artist: seed.artist });
+      related.push(...shuffle(tracks).map(fromTrack));
+    } catch (error) {
+      console.error('[Autofill] Related songs error:', error);
+    }
+  }
+
+  return related;
+}
+
+/**
+ * Pick songs to top up an infinite mode queue: related videos for recent
+ * top-rated songs, alternating with well-rated songs from the group's earlier
+ * sessions. Skips songs that are too long or already in the session
+ * (including likely duplicates from other sources).
+ */
+export async function pickAutofillSongs({ played, songs, backlog, scores, count }: AutofillInput): Promise<AutofillSong[]> {
+  if (count <= 0) return [];
+
+  const ratings = averageRatings(scores);
+  const related = await getRelatedSongs(played, ratings);
+  const fromBacklog = shuffle(
+    backlog
+      .filter((song) => (ratings.get(song.id) ?? 0) >= MIN_RATING)
+      .sort((a, b) => (ratings.get(b.id) ?? 0) - (ratings.get(a.id) ?? 0))
+      .slice(0, BACKLOG_POOL)
+  ).map(fromSong);
+
+  const picked: AutofillSong[] = [];
+  const isNew = (candidate: AutofillSong) =>
+    candidate.duration > 0 &&
+    candidate.duration <= MAX_SONG_DURATION &&
+    !songs.some((song) => isSameSong(candidate, song)) &&
+    !picked.some((song) => isSameSong(candidate, song));
+
+  // Alternate between the two pools so neither dominates
+  const pools = [related, fromBacklog];
+  let turn = 0;
+  while (picked.length < count && pools.some((pool) => pool.length > 0)) {
+    const candidate = pools[turn % pools.length].shift();
+    turn++;
+    if (candidate && isNew(candidate)) picked.push(candidate);
+  }
+
+  return picked;
+}
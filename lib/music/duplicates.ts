@@ -0,0 +1,110 @@
+import { cleanTitle, normalizeTrackInfo } from './normalize';
+import type { Track } from './types';
+
+// Official video vs. lyric video vs. audio of the same recording differ by a few seconds
+export const DUPLICATE_DURATION_TOLERANCE = 10; // seconds
+
+// Titles this similar (0-1, edit distance) count as the same song
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * The song fields the detector compares (a songs row or anything shaped like one)
+ */
+export interface DuplicateCandidate {
+  source: string;
+  source_id: string;
+  title: string;
+  artist: string;
+  duration: number;
+}
+
+// Lowercase, no accents, no punctuation
+function simplify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "Get Lucky (feat. Pharrell Williams)" and "Get Lucky" are the same song
+function titleKey(title: string): string {
+  const withoutFeatures = cleanTitle(title)
+    .replace(/[\(\[]\s*(?:feat|ft|featuring|with)\b[^\)\]]*[\)\]]/gi, '')
+    .replace(/\s+(?:feat|ft|featuring)\b.*$/i, '');
+  return simplify(withoutFeatures);
+}
+
+// Individual artists: "Daft Punk & Pharrell Williams" -> ["daft punk", "pharrell williams"]
+function artistNames(artist: string): string[] {
+  return artist
+    .split(/\s*(?:,|&|\/|\bx\b|\band\b|\bfeat\.?|\bft\.?|\bfeaturing\b|\bvs\.?)\s*/i)
+    .map((name) => simplify(name).replace(/^the /, ''))
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function titlesMatch(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a === b) return true;
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return similarity >= TITLE_SIMILARITY_THRESHOLD;
+}
+
+// Some uploads credit the artist only in the title ("Artist - Song" by a lyrics channel)
+function artistsMatch(a: DuplicateCandidate, b: DuplicateCandidate): boolean {
+  const namesA = artistNames(a.artist);
+  const namesB = artistNames(b.artist);
+  if (namesA.some((name) => namesB.includes(name))) return true;
+
+  const titleA = simplify(a.title);
+  const titleB = simplify(b.title);
+  return namesA.some((name) => titleB.includes(name)) || namesB.some((name) => titleA.includes(name));
+}
+
+// YouTube songs added before titles were normalized still read "Artist - Song"
+function variants(song: DuplicateCandidate): DuplicateCandidate[] {
+  if (song.source !== 'youtube') return [song];
+  return [song, { ...song, ...normalizeTrackInfo(song.title, song.artist) }];
+}
+
+/**
+ * Is this the same song, possibly from another source or as another upload?
+ * Same source ID, or matching title and artist with a similar duration.
+ */
+export function isSameSong(a: DuplicateCandidate, b: DuplicateCandidate): boolean {
+  if (a.source === b.source && a.source_id === b.source_id) return true;
+  if (Math.abs(a.duration - b.duration) > DUPLICATE_DURATION_TOLERANCE) return false;
+
+  return variants(a).some((va) =>
+    variants(b).some((vb) => titlesMatch(titleKey(va.title), titleKey(vb.title)) && artistsMatch(va, vb))
+  );
+}
+
+/**
+ * First song in the session that is the same song as the track, if any
+ */
+export function findDuplicateSong<T extends DuplicateCandidate>(track: Track, songs: T[]): T | undefined {
+  const candidate: DuplicateCandidate = { ...track, source_id: track.id };
+  return songs.find((song) => isSameSong(candidate, song));
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+
+export type MusicProviderErrorCode = 'quota_exceeded' | 'rate_limited';
+
+/**
+ * A provider refused the request for a reason the user can act on
+ * (used for the HTTP status and shown as-is in AddSongDialog)
+ */
+export class MusicProviderError extends Error {
+  constructor(
+    message: string,
+    readonly code: MusicProviderErrorCode,
+    readonly status: number,
+    readonly retryAfter?: number // seconds
+  ) {
+    super(message);
+    this.name = 'MusicProviderError';
+  }
+}
+
+/**
+ * JSON error response for a MusicProviderError: { error, code } plus Retry-After
+ */
+export function musicErrorResponse(error: MusicProviderError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    {
+      status: error.status,
+      headers: error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : undefined,
+    }
+  );
+}
@@ -0,0 +1,5 @@
+// Client-safe exports - import server-side providers from '@/lib/music/registry'
+export { MUSIC_SOURCES, MUSIC_SOURCE_LIST, detectMusicLink, detectPlaylistLink, getMusicSource, isMusicSource } from './sources';
+export { findDuplicateSong, isSameSong } from './duplicates';
+export type { DuplicateCandidate } from './duplicates';
+export type { MusicPlayerProps, MusicProvider, MusicSource, MusicSourceInfo, Track } from './types';
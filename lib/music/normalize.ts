@@ -0,0 +1,91 @@
+/**
+ * Title/artist cleanup for sources whose metadata is free text (YouTube):
+ * "Artist - Song (Official Video) [4K]" by "ArtistVEVO" -> "Song" by "Artist"
+ */
+
+// Words that mark a bracketed group or trailing suffix as video noise rather than part of the title
+const NOISE =
+  'official(?:\\s+(?:music|lyrics?|audio|hd))?(?:\\s+(?:video|audio|visuali[sz]er|clip))?|' +
+  'video\\s+oficial|music\\s+video|lyrics?(?:\\s+video)?|audio|visuali[sz]er|' +
+  '(?:\\d{4}\\s+)?remaster(?:ed)?(?:\\s+\\d{4})?|' +
+  'hd|hq|4k|8k|1080p|720p|mv|m\\/v';
+
+// Only noise inside brackets - "Come Clean" is a title
+const BRACKETED_ONLY = 'explicit|clean';
+
+// (Official Video), [HD], 【MV】 ...
+const BRACKETED_NOISE = new RegExp(
+  `\\s*[\\(\\[【]\\s*(?:${NOISE}|${BRACKETED_ONLY})(?:\\s*[/|,&-]?\\s*(?:${NOISE}|${BRACKETED_ONLY}))*\\s*[\\)\\]】]`,
+  'gi'
+);
+
+// ... Lyrics, ... | Official Video, ... HD
+const TRAILING_NOISE = new RegExp(`(?:(?:\\s*[|/-]\\s*|\\s+)(?:${NOISE}))+\\s*$`, 'i');
+
+// Nothing but noise - "Song - Official Music Video" has no artist part
+const ONLY_NOISE = new RegExp(`^\\s*(?:${NOISE})(?:\\s*[/|,&-]?\\s*(?:${NOISE}))*\\s*$`, 'i');
+
+// Artist - Title (hyphen, en dash, em dash)
+const ARTIST_SEPARATOR = /\s+[-–—]\s+/;
+
+// "Artist - Topic" channels are generated from the label's metadata
+const TOPIC_CHANNEL = /\s+-\s+topic$/i;
+
+const QUOTES = /^["'“”‘’«»]+|["'“”‘’«»]+$/g;
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function stripNoise(title: string): string {
+  return collapse(title.replace(BRACKETED_NOISE, '')).replace(TRAILING_NOISE, '');
+}
+
+/**
+ * Strip video noise from a title: bracketed groups like "(Official Video)"
+ * or "[4K]" and trailing "Lyrics", "HD", ...
+ */
+export function cleanTitle(title: string): string {
+  return collapse(stripNoise(title).replace(QUOTES, ''));
+}
+
+/**
+ * Channel name as an artist: "ArtistVEVO" -> "Artist", "Artist - Topic" -> "Artist"
+ */
+export function cleanChannelName(channel: string): string {
+  const topic = channel.replace(TOPIC_CHANNEL, '');
+  if (topic !== channel) return collapse(topic);
+
+  const vevo = channel.replace(/\s*vevo$/i, '');
+  if (vevo === channel || !vevo) return collapse(channel);
+
+  // VEVO channels drop the spaces: "TaylorSwiftVEVO" -> "Taylor Swift"
+  return collapse(/\s/.test(vevo) ? vevo : vevo.replace(/([a-z])([A-Z])/g, '$1 $2'));
+}
+
+/**
+ * Split a video title into artist and title, falling back to the channel
+ * as the artist when the title has no "Artist - Title" separator.
+ * Noise is stripped first, so "Song - Official Music Video" isn't split, and
+ * titles from "Artist - Topic" channels are never split: they are just the
+ * song ("Yesterday - Remastered 2009").
+ */
+export function normalizeTrackInfo(rawTitle: string, channel: string): { title: string; artist: string } {
+  const title = stripNoise(rawTitle);
+
+  if (!TOPIC_CHANNEL.test(channel)) {
+    const [artist, ...rest] = title.split(ARTIST_SEPARATOR);
+    const song = rest.join(' - ');
+
+    if (rest.length > 0 && !ONLY_NOISE.test(song)) {
+      const cleanSong = cleanTitle(song);
+      const cleanArtist = collapse(artist.replace(QUOTES, ''));
+      if (cleanSong && cleanArtist) return { title: cleanSong, artist: cleanArtist };
+    }
+  }
+
+  return {
+    title: cleanTitle(title) || collapse(rawTitle),
+    artist: cleanChannelName(channel),
+  };
+}
@@ -0,0 +1,145 @@
+import { MUSIC_SOURCES } from '../sources';
+import type { MusicProvider, Track } from '../types';
+
+const SOUNDCLOUD_CLIENT_ID = process.env.SOUNDCLOUD_CLIENT_ID;
+const SOUNDCLOUD_CLIENT_SECRET = process.env.SOUNDCLOUD_CLIENT_SECRET;
+
+// Overridable so the provider can be pointed at a mock server
+const SOUNDCLOUD_AUTH_URL = process.env.SOUNDCLOUD_AUTH_URL || 'https://secure.soundcloud.com';
+const SOUNDCLOUD_API_URL = process.env.SOUNDCLOUD_API_URL || 'https://api.soundcloud.com';
+
+interface SoundCloudTrack {
+  id: number;
+  kind: string;
+  title: string;
+  duration: number; // ms
+  artwork_url: string | null;
+  streamable: boolean;
+  user: { username: string; avatar_url: string | null };
+}
+
+// Client credentials token, shared between requests until it expires
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+
+  if (!SOUNDCLOUD_CLIENT_ID || !SOUNDCLOUD_CLIENT_SECRET) {
+    throw new Error('SoundCloud credentials not configured');
+  }
+
+  const response = await fetch(`${SOUNDCLOUD_AUTH_URL}/oauth/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization:
+        'Basic ' + Buffer.from(`${SOUNDCLOUD_CLIENT_ID}:${SOUNDCLOUD_CLIENT_SECRET}`).toString('base64'),
+    },
+    body: new URLSearchParams({ grant_type: 'client_credentials' }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('SoundCloud token error:', errorText);
+    throw new Error(`SoundCloud token request failed: ${errorText}`);
+  }
+
+  const data: { access_token: string; expires_in: number } = await response.json();
+
+  // Refresh a minute early so a token never expires mid-request
+  cachedToken = {
+    value: data.access_token,
+    expiresAt: Date.now() + (data.expires_in - 60) * 1000,
+  };
+
+  return cachedToken.value;
+}
+
+// Returns null for 404 (unknown or private track)
+async function request<T>(path: string, params: Record<string, string>): Promise<T | null> {
+  const send = async () =>
+    fetch(`${SOUNDCLOUD_API_URL}/${path}?` + new URLSearchParams(params), {
+      headers: {
+        Accept: 'application/json; charset=utf-8',
+        Authorization: `OAuth ${await getAccessToken()}`,
+      },
+    });
+
+  let response = await send();
+
+  // Token revoked early - fetch a fresh one and retry once
+  if (response.status === 401) {
+    cachedToken = null;
+    response = await send();
+  }
+
+  if (response.status === 404) return null;
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`SoundCloud API ${path} error:`, errorText);
+    throw new Error(`SoundCloud API ${path} request failed: ${errorText}`);
+  }
+
+  return response.json();
+}
+
+function toTrack(track: SoundCloudTrack): Track {
+  // artwork_url is the 100px "large" size - ask for the 300px one
+  const artwork = track.artwork_url ?? track.user.avatar_url ?? '';
+
+  return {
+    id: String(track.id),
+    source: 'soundcloud',
+    title: track.title,
+    artist: track.user.username,
+    thumbnail: artwork.replace('-large.', '-t300x300.'),
+    duration: Math.round(track.duration / 1000),
+  };
+}
+
+// Only tracks the widget can actually play
+const isPlayable = (track: SoundCloudTrack) => track.kind === 'track' && track.streamable;
+
+async function getTracks(ids: string[]): Promise<Track[]> {
+  const tracks: SoundCloudTrack[] = [];
+  for (let i = 0; i < ids.length; i += 50) {
+    const data = await request<SoundCloudTrack[]>('tracks', { ids: ids.slice(i, i + 50).join(',') });
+    tracks.push(...(data ?? []));
+  }
+
+  const byId = new Map(tracks.filter(isPlayable).map((track) => [String(track.id), toTrack(track)]));
+  return ids.map((id) => byId.get(id)).filter((track): track is Track => !!track);
+}
+
+export const soundcloudProvider: MusicProvider = {
+  source: 'soundcloud',
+
+  async search(query) {
+    const data = await request<SoundCloudTrack[]>('tracks', {
+      q: query,
+      limit: '10',
+      access: 'playable',
+    });
+
+    return (data ?? []).filter(isPlayable).map(toTrack);
+  },
+
+  getTracks,
+
+  async resolve(input) {
+    if (/^\d+$/.test(input.trim())) {
+      const [track] = await getTracks([input.trim()]);
+      return track ?? null;
+    }
+
+    const link = MUSIC_SOURCES.soundcloud.parseId(input);
+    if (!link) return null;
+
+    // /resolve redirects to the track resource
+    const track = await request<SoundCloudTrack>('resolve', { url: link });
+    return track && isPlayable(track) ? toTrack(track) : null;
+  },
+};
@@ -0,0 +1,143 @@
+import { MusicProviderError } from '../errors';
+import { MUSIC_SOURCES } from '../sources';
+import type { MusicProvider, Track } from '../types';
+
+const SPOTIFY_CLIENT_ID = process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID;
+const SPOTIFY_CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET;
+
+// Overridable so the provider can be pointed at a mock server
+const SPOTIFY_ACCOUNTS_URL = process.env.SPOTIFY_ACCOUNTS_URL || 'https://accounts.spotify.com';
+const SPOTIFY_API_URL = process.env.SPOTIFY_API_URL || 'https://api.spotify.com/v1';
+
+interface SpotifyTrack {
+  id: string;
+  name: string;
+  duration_ms: number;
+  artists: { name: string }[];
+  album: {
+    images: { url: string; width: number | null; height: number | null }[];
+  };
+}
+
+// Client credentials token, shared between requests until it expires
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+
+  if (!SPOTIFY_CLIENT_ID || !SPOTIFY_CLIENT_SECRET) {
+    throw new Error('Spotify credentials not configured');
+  }
+
+  const response = await fetch(`${SPOTIFY_ACCOUNTS_URL}/api/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization:
+        'Basic ' + Buffer.from(`${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`).toString('base64'),
+    },
+    body: new URLSearchParams({ grant_type: 'client_credentials' }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Spotify token error:', errorText);
+    throw new Error(`Spotify token request failed: ${errorText}`);
+  }
+
+  const data: { access_token: string; expires_in: number } = await response.json();
+
+  // Refresh a minute early so a token never expires mid-request
+  cachedToken = {
+    value: data.access_token,
+    expiresAt: Date.now() + (data.expires_in - 60) * 1000,
+  };
+
+  return cachedToken.value;
+}
+
+async function request<T>(path: string, params: Record<string, string>): Promise<T> {
+  const send = async () =>
+    fetch(`${SPOTIFY_API_URL}/${path}?` + new URLSearchParams(params), {
+      headers: { Authorization: `Bearer ${await getAccessToken()}` },
+    });
+
+  let response = await send();
+
+  // Token revoked early - fetch a fresh one and retry once
+  if (response.status === 401) {
+    cachedToken = null;
+    response = await send();
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`Spotify API ${path} error:`, errorText);
+
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || 10;
+      throw new MusicProviderError('Spotify is busy - try again in a moment', 'rate_limited', 429, retryAfter);
+    }
+
+    throw new Error(`Spotify API ${path} request failed: ${errorText}`);
+  }
+
+  return response.json();
+}
+
+// Album art closest to the 300px YouTube "medium" thumbnail
+function pickThumbnail(images: SpotifyTrack['album']['images']): string {
+  if (images.length === 0) return '';
+  return images.reduce((best, image) =>
+    Math.abs((image.width ?? 0) - 300) < Math.abs((best.width ?? 0) - 300) ? image : best
+  ).url;
+}
+
+function toTrack(track: SpotifyTrack): Track {
+  return {
+    id: track.id,
+    source: 'spotify',
+    title: track.name,
+    artist: track.artists.map((artist) => artist.name).join(', '),
+    thumbnail: pickThumbnail(track.album.images),
+    duration: Math.round(track.duration_ms / 1000),
+  };
+}
+
+async function getTracks(ids: string[]): Promise<Track[]> {
+  // The tracks endpoint takes up to 50 IDs per request (unknown IDs come back as null)
+  const tracks: Track[] = [];
+  for (let i = 0; i < ids.length; i += 50) {
+    const data = await request<{ tracks: (SpotifyTrack | null)[] }>('tracks', {
+      ids: ids.slice(i, i + 50).join(','),
+    });
+    tracks.push(...data.tracks.filter((track): track is SpotifyTrack => !!track).map(toTrack));
+  }
+  return tracks;
+}
+
+export const spotifyProvider: MusicProvider = {
+  source: 'spotify',
+
+  async search(query) {
+    const data = await request<{ tracks: { items: SpotifyTrack[] } }>('search', {
+      q: query,
+      type: 'track',
+      limit: '10',
+    });
+
+    return data.tracks.items.map(toTrack);
+  },
+
+  getTracks,
+
+  async resolve(input) {
+    const id = MUSIC_SOURCES.spotify.parseId(input);
+    if (!id) return null;
+
+    const [track] = await getTracks([id]);
+    return track ?? null;
+  },
+};
@@ -0,0 +1,226 @@
+import { LruCache } from '../cache';
+import { MusicProviderError } from '../errors';
+import { normalizeTrackInfo } from '../normalize';
+import { MUSIC_SOURCES } from '../sources';
+import type { MusicProvider, Track } from '../types';
+
+// Server-only: the key must never reach the browser bundle
+const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
+
+// Overridable so the provider can be pointed at a mock server
+const YOUTUBE_API_URL = process.env.YOUTUBE_API_URL || 'https://www.googleapis.com/youtube/v3';
+const MAX_PLAYLIST_TRACKS = 100;
+
+// A search costs 100 quota units and a videos lookup 1, out of 10,000 a day -
+// cache search results by query and video details (incl. duration) by ID.
+// null marks a video that can't be played in the embedded player.
+const searchCache = new LruCache<string, string[]>(500, 30 * 60 * 1000);
+const trackCache = new LruCache<string, Track | null>(5000, 24 * 60 * 60 * 1000);
+
+// Once the daily quota is gone every call fails until it resets at midnight
+// Pacific time - stop calling the API for a while and serve from the cache
+const QUOTA_BACKOFF_MS = 60 * 60 * 1000;
+let quotaExhaustedUntil = 0;
+
+const QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded'];
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+
+const quotaError = () =>
+  new MusicProviderError(
+    'YouTube search is out of quota for now - try another source or paste a link',
+    'quota_exceeded',
+    503,
+    Math.ceil((quotaExhaustedUntil - Date.now()) / 1000)
+  );
+
+// "lo-fi  Beats " and "Lo-Fi beats" share a cache entry
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+interface YouTubeSearchItem {
+  id: { videoId: string };
+}
+
+interface YouTubePlaylistItem {
+  contentDetails: { videoId: string };
+}
+
+interface YouTubeVideoItem {
+  id: string;
+  snippet: {
+    title: string;
+    channelTitle: string;
+    thumbnails: {
+      medium: { url: string };
+    };
+  };
+  contentDetails: {
+    duration: string;
+  };
+  status: {
+    embeddable: boolean;
+    privacyStatus: string;
+  };
+}
+
+// Returns null for 404 (unknown or private playlist)
+async function request<T>(endpoint: string, params: Record<string, string>): Promise<T | null> {
+  if (!YOUTUBE_API_KEY) {
+    throw new Error('YouTube API key not configured');
+  }
+
+  if (quotaExhaustedUntil > Date.now()) {
+    throw quotaError();
+  }
+
+  const response = await fetch(
+    `${YOUTUBE_API_URL}/${endpoint}?` + new URLSearchParams({ ...params, key: YOUTUBE_API_KEY })
+  );
+
+  if (response.status === 404) return null;
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`YouTube API ${endpoint} error:`, errorText);
+
+    if (response.status === 403 || response.status === 429) {
+      const reason = parseErrorReason(errorText);
+
+      if (reason && QUOTA_REASONS.includes(reason)) {
+        quotaExhaustedUntil = Date.now() + QUOTA_BACKOFF_MS;
+        throw quotaError();
+      }
+
+      if (reason && RATE_LIMIT_REASONS.includes(reason)) {
+        throw new MusicProviderError('YouTube is busy - try again in a moment', 'rate_limited', 429, 10);
+      }
+    }
+
+    throw new Error(`YouTube API ${endpoint} request failed: ${errorText}`);
+  }
+
+  return response.json();
+}
+
+// errors[0].reason of a Data API error body
+function parseErrorReason(errorText: string): string | null {
+  try {
+    return JSON.parse(errorText).error?.errors?.[0]?.reason ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Parse ISO 8601 duration to seconds (e.g., PT4M13S)
+function parseDuration(duration: string): number {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return 0;
+
+  const hours = parseInt(match[1] || '0');
+  const minutes = parseInt(match[2] || '0');
+  const seconds = parseInt(match[3] || '0');
+
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+function toTrack(item: YouTubeVideoItem): Track {
+  const { title, artist } = normalizeTrackInfo(item.snippet.title, item.snippet.channelTitle);
+
+  return {
+    id: item.id,
+    source: 'youtube',
+    title,
+    artist,
+    rawTitle: item.snippet.title,
+    thumbnail: item.snippet.thumbnails.medium.url,
+    duration: parseDuration(item.contentDetails.duration),
+  };
+}
+
+// Embedding disabled by the uploader or private: the room's player would show an error
+function isPlayable(item: YouTubeVideoItem): boolean {
+  return item.status.embeddable && item.status.privacyStatus !== 'private';
+}
+
+async function getTracks(ids: string[]): Promise<Track[]> {
+  const missing = [...new Set(ids)].filter((id) => trackCache.get(id) === undefined);
+
+  // The videos endpoint takes up to 50 IDs per request
+  for (let i = 0; i < missing.length; i += 50) {
+    const data = await request<{ items: YouTubeVideoItem[] }>('videos', {
+      part: 'contentDetails,snippet,status',
+      id: missing.slice(i, i + 50).join(','),
+    });
+    (data?.items ?? []).forEach((item) => trackCache.set(item.id, isPlayable(item) ? toTrack(item) : null));
+  }
+
+  return ids.map((id) => trackCache.get(id)).filter((track): track is Track => !!track);
+}
+
+export const youtubeProvider: MusicProvider = {
+  source: 'youtube',
+
+  async search(query) {
+    const key = normalizeQuery(query);
+    let videoIds = searchCache.get(key);
+
+    if (!videoIds) {
+      const data = await request<{ items: YouTubeSearchItem[] }>('search', {
+        part: 'id',
+        q: key,
+        type: 'video',
+        videoEmbeddable: 'true', // getTracks() still checks status.embeddable
+        videoCategoryId: '10', // Music category
+        maxResults: '10',
+      });
+
+      videoIds = (data?.items ?? []).map((item) => item.id.videoId);
+      searchCache.set(key, videoIds);
+    }
+
+    // Search results have no duration - look the videos up (mostly cached)
+    return getTracks(videoIds);
+  },
+
+  getTracks,
+
+  async resolve(input) {
+    const id = MUSIC_SOURCES.youtube.parseId(input);
+    if (!id) return null;
+
+    const [track] = await getTracks([id]);
+    return track ?? null;
+  },
+
+  async getPlaylist(playlistId) {
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const data = await request<{ items: YouTubePlaylistItem[]; nextPageToken?: string }>(
+        'playlistItems',
+        {
+          part: 'contentDetails',
+          playlistId,
+          maxResults: '50',
+          ...(pageToken ? { pageToken } : {}),
+        }
+      );
+      if (!data) return null;
+
+      videoIds.push(...data.items.map((item) => item.contentDetails.videoId));
+      pageToken = data.nextPageToken;
+    } while (pageToken && videoIds.length < MAX_PLAYLIST_TRACKS);
+
+    // Deleted and private videos have no details and are dropped here
+    return getTracks(videoIds.slice(0, MAX_PLAYLIST_TRACKS));
+  },
+
+  // search.list dropped relatedToVideoId in 2023 - search the artist instead
+  // (cached like any other search, so a popular seed costs quota once)
+  async getRelated(track) {
+    const results = await this.search(track.artist);
+    return results.filter((result) => result.id !== track.id);
+  },
+};
@@ -0,0 +1,56 @@
+import type { NextRequest } from 'next/server';
+import { MusicProviderError } from './errors';
+import { createRateLimiter, getClientIp, type RateLimitResult } from '@/lib/api/rate-limit';
+import { verifyParticipant } from '@/lib/api/participant-auth';
+import { getSupabaseAdmin } from '@/lib/supabase/admin';
+
+// Search, link and playlist lookups all spend provider API quota
+const perIp = createRateLimiter({ limit: 30, windowMs: 60_000 });
+const perSession = createRateLimiter({ limit: 60, windowMs: 60_000 });
+// Lookups that don't come from a verified participant all share one bucket
+const unverified = createRateLimiter({ limit: 30, windowMs: 60_000 });
+
+async function verifiedSessionFromQuery(request: NextRequest): Promise<string | null> {
+  const searchParams = request.nextUrl.searchParams;
+  const sessionId = searchParams.get('sessionId');
+  const participantId = searchParams.get('participantId');
+  if (!sessionId || !participantId) return null;
+
+  try {
+    const verified = await verifyParticipant(getSupabaseAdmin(), request, sessionId, participantId);
+    return verified ? sessionId : null;
+  } catch {
+    // Malformed ids fail the uuid cast - same as an unknown participant
+    return null;
+  }
+}
+
+/**
+ * Rate limit a music lookup by client IP and by session (a whole party shares
+ * one session but usually several IPs).
+ * The session only counts once the participant making the request is verified
+ * (sessionId and participantId query params plus the participant secret),
+ * unless the caller already verified it and passes it in. Anything else goes
+ * into the shared unverified bucket, so leaving the params out doesn't help.
+ * Returns the error to respond with, or null when the request may go ahead.
+ */
+export async function checkMusicRateLimit(
+  request: NextRequest,
+  verifiedSessionId?: string
+): Promise<MusicProviderError | null> {
+  let result: RateLimitResult = perIp(getClientIp(request));
+
+  if (result.allowed) {
+    const sessionId = verifiedSessionId ?? (await verifiedSessionFromQuery(request));
+    result = sessionId ? perSession(sessionId) : unverified('unverified');
+  }
+
+  if (result.allowed) return null;
+
+  return new MusicProviderError(
+    `Too many searches - try again in ${result.retryAfter}s`,
+    'rate_limited',
+    429,
+    result.retryAfter
+  );
+}
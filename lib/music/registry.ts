@@ -0,0 +1,15 @@
+import { soundcloudProvider } from './providers/soundcloud';
+import { spotifyProvider } from './providers/spotify';
+import { youtubeProvider } from './providers/youtube';
+import type { MusicProvider, MusicSource } from './types';
+
+// Server-side providers by songs.source (client-safe info lives in ./sources)
+const MUSIC_PROVIDERS: Record<MusicSource, MusicProvider> = {
+  youtube: youtubeProvider,
+  spotify: spotifyProvider,
+  soundcloud: soundcloudProvider,
+};
+
+export function getMusicProvider(source: MusicSource): MusicProvider {
+  return MUSIC_PROVIDERS[source];
+}
@@ -0,0 +1,161 @@
+import type { MusicSource, MusicSourceInfo } from './types';
+
+const YOUTUBE_ID = /^[A-Za-z0-9_-]{11}$/;
+const YOUTUBE_PLAYLIST_ID = /^(PL|OL|UU|FL|LL)[A-Za-z0-9_-]{10,}$/;
+const SPOTIFY_ID = /^[A-Za-z0-9]{22}$/;
+
+/**
+ * youtube.com/watch?v=, youtu.be/, /shorts/, /embed/, music.youtube.com or a bare video ID
+ */
+function parseYouTubeId(input: string): string | null {
+  const value = input.trim();
+  if (YOUTUBE_ID.test(value)) return value;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  let id: string | null = null;
+
+  if (host === 'youtu.be') {
+    id = url.pathname.split('/')[1] ?? null;
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    id = url.searchParams.get('v');
+    if (!id) {
+      const match = url.pathname.match(/^\/(?:shorts|embed|live|v)\/([^/]+)/);
+      id = match?.[1] ?? null;
+    }
+  }
+
+  return id && YOUTUBE_ID.test(id) ? id : null;
+}
+
+/**
+ * youtube.com/playlist?list= or a bare playlist ID
+ * (watch?v=...&list=... is a track link - the video is what was shared)
+ */
+function parseYouTubePlaylistId(input: string): string | null {
+  const value = input.trim();
+  if (YOUTUBE_PLAYLIST_ID.test(value)) return value;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  if (host !== 'youtube.com' || url.pathname !== '/playlist') return null;
+
+  const id = url.searchParams.get('list');
+  return id && YOUTUBE_PLAYLIST_ID.test(id) ? id : null;
+}
+
+/**
+ * open.spotify.com/track/ (incl. /intl-xx/), spotify:track: URIs or a bare track ID
+ */
+function parseSpotifyId(input: string): string | null {
+  const value = input.trim();
+  if (SPOTIFY_ID.test(value)) return value;
+
+  const uri = value.match(/^spotify:track:([A-Za-z0-9]{22})$/);
+  if (uri) return uri[1];
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  if (url.hostname !== 'open.spotify.com') return null;
+
+  const match = url.pathname.match(/^\/(?:intl-[a-z-]+\/)?track\/([A-Za-z0-9]{22})/i);
+  return match?.[1] ?? null;
+}
+
+/**
+ * soundcloud.com/<artist>/<track> (also m., on.soundcloud.com short links)
+ * SoundCloud links carry no track ID, so this returns the canonical link for
+ * the provider to resolve into the numeric ID stored in songs.source_id
+ */
+function parseSoundCloudLink(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www|m)\./, '');
+
+  if (host === 'on.soundcloud.com') {
+    return /^\/[A-Za-z0-9]+$/.test(url.pathname) ? `https://on.soundcloud.com${url.pathname}` : null;
+  }
+
+  if (host !== 'soundcloud.com') return null;
+
+  // Artist and track slug only - /sets/ are playlists, not tracks
+  const match = url.pathname.match(/^\/([\w-]+)\/([\w-]+)\/?$/);
+  if (!match || match[2] === 'sets') return null;
+
+  return `https://soundcloud.com/${match[1]}/${match[2]}`;
+}
+
+// Central list of music sources - add a source here, in lib/music/registry.ts
+// and in components/session/music-player.tsx
+export const MUSIC_SOURCES: Record<MusicSource, MusicSourceInfo> = {
+  youtube: {
+    source: 'youtube',
+    label: 'YouTube',
+    parseId: parseYouTubeId,
+    parsePlaylistId: parseYouTubePlaylistId,
+  },
+  spotify: { source: 'spotify', label: 'Spotify', parseId: parseSpotifyId },
+  soundcloud: { source: 'soundcloud', label: 'SoundCloud', parseId: parseSoundCloudLink },
+};
+
+export const MUSIC_SOURCE_LIST = Object.values(MUSIC_SOURCES);
+
+export function isMusicSource(value: unknown): value is MusicSource {
+  return typeof value === 'string' && Object.hasOwn(MUSIC_SOURCES, value);
+}
+
+/**
+ * Which source a pasted link belongs to (bare IDs are not links - they stay searches)
+ */
+export function detectMusicLink(input: string): { source: MusicSource; id: string } | null {
+  const value = input.trim();
+  if (!/^(https?:\/\/|spotify:)/i.test(value)) return null;
+
+  for (const { source, parseId } of MUSIC_SOURCE_LIST) {
+    const id = parseId(value);
+    if (id) return { source, id };
+  }
+
+  return null;
+}
+
+/**
+ * Which source a pasted playlist link (or playlist ID) belongs to
+ */
+export function detectPlaylistLink(input: string): { source: MusicSource; playlistId: string } | null {
+  for (const { source, parsePlaylistId } of MUSIC_SOURCE_LIST) {
+    const playlistId = parsePlaylistId?.(input);
+    if (playlistId) return { source, playlistId };
+  }
+
+  return null;
+}
+
+/**
+ * Display info for a songs.source value
+ */
+export function getMusicSource(source: string): MusicSourceInfo | null {
+  return isMusicSource(source) ? MUSIC_SOURCES[source] : null;
+}
@@ -0,0 +1,54 @@
+import type { Song } from '@/lib/types';
+
+export type MusicSource = Song['source'];
+
+/**
+ * A track as every provider returns it (search results, resolved links, metadata)
+ */
+export interface Track {
+  id: string; // provider ID - stored as songs.source_id
+  source: MusicSource;
+  title: string;
+  artist: string;
+  rawTitle?: string; // title as the source returned it, when title/artist were cleaned up
+  thumbnail: string;
+  duration: number; // seconds
+}
+
+/**
+ * Server-side half of a music source: search and metadata lookups
+ * (may use API keys, so only call from route handlers)
+ */
+export interface MusicProvider {
+  source: MusicSource;
+  search(query: string): Promise<Track[]>;
+  getTracks(ids: string[]): Promise<Track[]>; // metadata + duration, in input order, missing IDs dropped
+  resolve(input: string): Promise<Track | null>; // URL or bare ID
+  getPlaylist?(playlistId: string): Promise<Track[] | null>; // playable tracks, null = not found
+  getRelated?(track: Pick<Track, 'id' | 'title' | 'artist'>): Promise<Track[]>; // infinite mode suggestions
+}
+
+/**
+ * Client-safe half of a music source: display name and link parsing
+ */
+export interface MusicSourceInfo {
+  source: MusicSource;
+  label: string;
+  parseId(input: string): string | null; // URL or bare ID -> what MusicProvider.resolve() looks up
+  parsePlaylistId?(input: string): string | null; // sources that support playlist import
+}
+
+/**
+ * Props every embeddable player takes (see components/session/music-player.tsx)
+ */
+export interface MusicPlayerProps {
+  sourceId: string;
+  onEnd: () => void;
+  onReady?: () => void;
+  startTime?: number;
+  autoplay?: boolean;
+  sessionStartedAt?: string; // When the song started playing in the session
+  pausedAt?: string; // When the host paused the song (unset while playing)
+  positionOffset?: number; // Seconds moved by pauses and seeks
+  onUnplayable?: (reason: string, errorCode?: number) => void; // The player can't play this song
+}
@@ -6,6 +6,11 @@ type Participant = Database['public']['Tables']['participants']['Row'];
 type Song = Database['public']['Tables']['songs']['Row'];
 type Score = Database['public']['Tables']['scores']['Row'];
 type SkipVote = Database['public']['Tables']['skip_votes']['Row'];
+type Round = Database['public']['Tables']['rounds']['Row'];
+type ForcePlay = Database['public']['Tables']['force_plays']['Row'];
+type Ballot = Database['public']['Tables']['ballots']['Row'];
+type PerkPurchase = Database['public']['Tables']['perk_purchases']['Row'];
+type PlaybackEvent = Database['public']['Tables']['playback_events']['Row'];
 
 /**
  * PostgresHandler listens to database changes via WebSocket.
@@ -182,6 +187,86 @@ export class PostgresHandler {
     return this.listen('skip_votes', `session_id=eq.${sessionId}`, event, callback, key);
   }
 
+  /**
+   * Listen to changes on the rounds table
+   *
+   * @param sessionId - Filter to specific session
+   * @param callback - Function called when rounds change
+   * @param event - Type of change to listen for (default: all)
+   */
+  onRounds(
+    sessionId: string,
+    callback: PostgresCallback<Round>,
+    event: PostgresChangeEvent = '*'
+  ): () => void {
+    const key = `rounds:${sessionId}:${event}`;
+    return this.listen('rounds', `session_id=eq.${sessionId}`, event, callback, key);
+  }
+
+  /**
+   * Listen to changes on the force_plays table
+   *
+   * @param sessionId - Filter to specific session
+   * @param callback - Function called when a force play is recorded
+   * @param event - Type of change to listen for (default: all)
+   */
+  onForcePlays(
+    sessionId: string,
+    callback: PostgresCallback<ForcePlay>,
+    event: PostgresChangeEvent = '*'
+  ): () => void {
+    const key = `force_plays:${sessionId}:${event}`;
+    return this.listen('force_plays', `session_id=eq.${sessionId}`, event, callback, key);
+  }
+
+  /**
+   * Listen to changes on the ballots table
+   *
+   * @param sessionId - Filter to specific session
+   * @param callback - Function called when a ballot is submitted or changed
+   * @param event - Type of change to listen for (default: all)
+   */
+  onBallots(
+    sessionId: string,
+    callback: PostgresCallback<Ballot>,
+    event: PostgresChangeEvent = '*'
+  ): () => void {
+    const key = `ballots:${sessionId}:${event}`;
+    return this.listen('ballots', `session_id=eq.${sessionId}`, event, callback, key);
+  }
+
+  /**
+   * Listen to changes on the perk_purchases table
+   *
+   * @param sessionId - Filter to specific session
+   * @param callback - Function called when a perk is bought
+   * @param event - Type of change to listen for (default: all)
+   */
+  onPerkPurchases(
+    sessionId: string,
+    callback: PostgresCallback<PerkPurchase>,
+    event: PostgresChangeEvent = '*'
+  ): () => void {
+    const key = `perk_purchases:${sessionId}:${event}`;
+    return this.listen('perk_purchases', `session_id=eq.${sessionId}`, event, callback, key);
+  }
+
+  /**
+   * Listen to changes on the playback_events table
+   *
+   * @param sessionId - Filter to specific session
+   * @param callback - Function called when a song starts or stops playing
+   * @param event - Type of change to listen for (default: all)
+   */
+  onPlaybackEvents(
+    sessionId: string,
+    callback: PostgresCallback<PlaybackEvent>,
+    event: PostgresChangeEvent = '*'
+  ): () => void {
+    const key = `playback_events:${sessionId}:${event}`;
+    return this.listen('playback_events', `session_id=eq.${sessionId}`, event, callback, key);
+  }
+
   /**
    * Generic listener for any table
    * (Internal method - use specific methods above for type safety)
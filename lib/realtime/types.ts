@@ -1,6 +1,6 @@
 // Broadcast Events - Ephemeral messages sent between clients
 export interface BroadcastEvents {
-  // Score updates - instant feedback when someone votes
+  // Score updates - instant feedback when someone votes (or changes their vote)
   score_added: {
     score_id: string;
     song_id: string;
@@ -54,6 +54,51 @@ export interface BroadcastEvents {
     timestamp: number;
   };
 
+  // Playback paused - the host paused the current song for everyone
+  playback_paused: {
+    session_id: string;
+    song_id: string;
+    started_at: string; // current_song_started_at of the paused song
+    paused_at: string;
+    position_offset: number;
+    host_id: string;
+    timestamp: number;
+  };
+
+  // Playback resumed - the current song continues from where it was paused
+  playback_resumed: {
+    session_id: string;
+    song_id: string;
+    started_at: string;
+    position_offset: number;
+    host_id: string;
+    timestamp: number;
+  };
+
+  // Playback seeked - the host moved the current song to another position
+  playback_seeked: {
+    session_id: string;
+    song_id: string;
+    started_at: string;
+    paused_at: string | null; // still paused when seeking while paused
+    position_offset: number;
+    position: number; // seconds
+    host_id: string;
+    timestamp: number;
+  };
+
+  // Song unplayable - someone's player couldn't play the current song
+  // (the host's report marks the song and moves on)
+  song_unplayable: {
+    session_id: string;
+    song_id: string;
+    participant_id: string;
+    participant_name: string;
+    error_code: number | null; // player error code, when the player gave one
+    reason: string;
+    timestamp: number;
+  };
+
   // Session ended - notifies all clients when host ends the session
   session_ended: {
     session_id: string;
@@ -69,6 +114,47 @@ export interface BroadcastEvents {
     timestamp: number;
   };
 
+  // Round started - the queue moved on to the first song of a new round
+  round_started: {
+    session_id: string;
+    round_id: string;
+    round_name: string;
+    prompt: string | null;
+    timestamp: number;
+  };
+
+  // Force play used - someone spent a power card on one of their songs
+  force_play_used: {
+    session_id: string;
+    participant_id: string;
+    participant_name: string;
+    song_id: string;
+    song_title: string;
+    mode: 'next' | 'now';
+    timestamp: number;
+  };
+
+  // Perk bought - someone spent karma (veto removes a song, pin_chat pins a message)
+  perk_bought: {
+    session_id: string;
+    participant_id: string;
+    participant_name: string;
+    perk: 'extra_slot' | 'force_play_token' | 'veto' | 'pin_chat';
+    target_id: string | null;
+    song_id: string | null; // song whose chat changed (pin_chat)
+    timestamp: number;
+  };
+
+  // Host changed - notifies all clients when the host hands over or a new host is elected
+  host_changed: {
+    session_id: string;
+    previous_host_id: string | null;
+    new_host_id: string;
+    new_host_name: string;
+    reason: 'transfer' | 'migration';
+    timestamp: number;
+  };
+
   // Skip vote added - notifies all clients when someone votes to skip
   skip_vote_added: {
     skip_vote_id: string;
@@ -0,0 +1,58 @@
+import { isDjSong } from '@/lib/session/dj';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Session = Database['public']['Tables']['sessions']['Row'];
+type Participant = Database['public']['Tables']['participants']['Row'];
+type Song = Database['public']['Tables']['songs']['Row'];
+type Score = Database['public']['Tables']['scores']['Row'];
+
+// Shown instead of the submitter's name while a song is masked
+export const HIDDEN_SUBMITTER_NAME = 'Anonymous';
+
+/**
+ * Blind mode: a song's submitter stays hidden until the song has been scored,
+ * meaning it has finished playing or everyone else has voted on it.
+ */
+export function isSubmitterRevealed(
+  song: Song,
+  songIndex: number,
+  session: Session,
+  participants: Participant[],
+  scores: Score[]
+): boolean {
+  if (session.status === 'finished') return true;
+  if (session.status !== 'playing' || session.current_song_index === null) return false;
+
+  // Already played
+  if (songIndex < session.current_song_index) return true;
+  if (songIndex > session.current_song_index) return false;
+
+  // Current song: reveal once every other participant has voted
+  const voters = participants.filter((p) => p.id !== song.added_by && !p.is_dj);
+  const songScores = scores.filter((s) => s.song_id === song.id);
+  return voters.length > 0 && voters.every((v) => songScores.some((s) => s.participant_id === v.id));
+}
+
+/**
+ * IDs of songs whose submitter should be masked for the given viewer.
+ * Your own songs are never masked for you.
+ */
+export function getHiddenSubmitterSongIds(
+  session: Session,
+  songs: Song[],
+  participants: Participant[],
+  scores: Score[],
+  viewerId: string | undefined
+): Set<string> {
+  const hidden = new Set<string>();
+
+  songs.forEach((song, index) => {
+    // The DJ isn't competing, so there's nothing to hide
+    if (song.added_by === viewerId || isDjSong(song, participants)) return;
+    if (!isSubmitterRevealed(song, index, session, participants, scores)) {
+      hidden.add(song.id);
+    }
+  });
+
+  return hidden;
+}
@@ -0,0 +1,117 @@
+// Playback positions come from server timestamps (current_song_started_at is
+// set by the database), so a client whose clock is off by a few seconds would
+// play that far off. Each client estimates its offset from the server clock
+// with NTP-style pings against /api/time and uses serverNow() instead of
+// Date.now() wherever it compares against session timestamps.
+
+// Pings per sync; the one with the shortest round trip is the most accurate
+const SAMPLE_COUNT = 5;
+export const CLOCK_RESYNC_INTERVAL_MS = 60_000;
+
+export interface ClockState {
+  offset: number; // ms to add to the local clock to get server time
+  rtt: number | null; // round trip of the sample the offset came from, ms
+  syncedAt: number | null; // local time of the last successful sync
+  drift: number | null; // last measured playback drift, seconds (positive = player ahead)
+}
+
+let state: ClockState = { offset: 0, rtt: null, syncedAt: null, drift: null };
+const listeners = new Set<() => void>();
+let pendingSync: Promise<void> | null = null;
+
+function setState(update: Partial<ClockState>) {
+  state = { ...state, ...update };
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Current time on the server clock, in ms
+ */
+export function serverNow(): number {
+  return Date.now() + state.offset;
+}
+
+export function getClockState(): ClockState {
+  return state;
+}
+
+export function subscribeClock(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// The server read its clock somewhere during the round trip - assume halfway
+async function sampleOffset(): Promise<{ offset: number; rtt: number }> {
+  const sentAt = Date.now();
+  const response = await fetch('/api/time', { cache: 'no-store' });
+  const receivedAt = Date.now();
+
+  if (!response.ok) {
+    throw new Error(`Time request failed with status ${response.status}`);
+  }
+
+  const { now } = (await response.json()) as { now: number };
+  return { offset: now - (sentAt + receivedAt) / 2, rtt: receivedAt - sentAt };
+}
+
+async function runSync() {
+  const samples: { offset: number; rtt: number }[] = [];
+
+  // Sequential so pings don't queue behind each other and inflate round trips
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    try {
+      samples.push(await sampleOffset());
+    } catch (error) {
+      console.error('[Clock] Sync error:', error);
+    }
+  }
+
+  if (samples.length === 0) return;
+
+  const best = samples.reduce((a, b) => (b.rtt < a.rtt ? b : a));
+  setState({ offset: Math.round(best.offset), rtt: best.rtt, syncedAt: Date.now() });
+  console.log(`[Clock] Offset ${Math.round(best.offset)}ms (rtt ${best.rtt}ms)`);
+}
+
+/**
+ * Re-estimate the offset from the server clock (concurrent calls share one sync)
+ */
+export function syncClock(): Promise<void> {
+  if (!pendingSync) {
+    pendingSync = runSync().finally(() => {
+      pendingSync = null;
+    });
+  }
+  return pendingSync;
+}
+
+/**
+ * Seconds elapsed since a server timestamp, on the server clock
+ */
+export function getElapsedSeconds(startedAt: string): number {
+  return (serverNow() - new Date(startedAt).getTime()) / 1000;
+}
+
+/**
+ * Compare a player's position with where it should be (null when the player
+ * has no position to report). Player reads are async (iframe players answer
+ * over postMessage), so the position is compared with the expected time
+ * halfway through the read, keeping the player's latency out of the drift.
+ */
+export async function measurePlaybackDrift(
+  readPosition: () => Promise<number | null>,
+  getExpectedTime: () => number
+): Promise<{ drift: number; expectedTime: number } | null> {
+  const expectedBefore = getExpectedTime();
+  const position = await readPosition();
+  const expectedTime = getExpectedTime();
+
+  if (position === null) return null;
+
+  const drift = position - (expectedBefore + expectedTime) / 2;
+  setState({ drift });
+
+  return { drift, expectedTime };
+}
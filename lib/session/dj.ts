@@ -0,0 +1,30 @@
+import type { Database } from '@/lib/supabase/database.types';
+
+type Participant = Database['public']['Tables']['participants']['Row'];
+type Song = Database['public']['Tables']['songs']['Row'];
+
+// Infinite mode: songs auto-filled by the server belong to a system "DJ"
+// participant (participants.is_dj, created by autofill_queue()).
+// The DJ plays music but doesn't compete, vote or count toward thresholds.
+
+// participants.user_name of the DJ (set by autofill_queue())
+export const DJ_NAME = 'DJ';
+
+/**
+ * Participants competing in the session (everyone but the DJ)
+ */
+export function getCompetitors(participants: Participant[]): Participant[] {
+  return participants.filter((p) => !p.is_dj);
+}
+
+/**
+ * Songs that are part of the competition (everything but DJ songs)
+ */
+export function getCompetitionSongs(songs: Song[], participants: Participant[]): Song[] {
+  const djIds = new Set(participants.filter((p) => p.is_dj).map((p) => p.id));
+  return songs.filter((s) => !djIds.has(s.added_by));
+}
+
+export function isDjSong(song: Pick<Song, 'added_by'>, participants: Participant[]): boolean {
+  return participants.some((p) => p.is_dj && p.id === song.added_by);
+}
@@ -0,0 +1,129 @@
+import type { Database } from '@/lib/supabase/database.types';
+
+type Participant = Database['public']['Tables']['participants']['Row'];
+type Song = Database['public']['Tables']['songs']['Row'];
+type Score = Database['public']['Tables']['scores']['Row'];
+
+// Reciprocal inflation: both voters rate each other this much above everyone else
+const RECIPROCAL_MIN_INFLATION = 1.5;
+// Outlier voter: average distance from the rest of the room, in stars
+const OUTLIER_MIN_DEVIATION = 1.5;
+// Votes needed before a pattern is flagged
+const MIN_VOTES_FOR_FLAG = 2;
+
+// Weight of a flagged vote when down-weighting is enabled
+export const FLAGGED_VOTE_WEIGHT = 0.5;
+
+export interface ReciprocalPair {
+  participants: [Participant, Participant];
+  // Average rating each gives the other vs. everyone else (same order as participants)
+  mutualAverage: [number, number];
+  othersAverage: [number, number];
+}
+
+export interface OutlierVoter {
+  participant: Participant;
+  deviation: number; // average distance from the other voters' ratings
+  votes: number;
+}
+
+export interface FairnessReport {
+  pairs: ReciprocalPair[];
+  outliers: OutlierVoter[];
+  flaggedVotes: number;
+  // Weight of a voter's vote on a song (1 = normal, FLAGGED_VOTE_WEIGHT = flagged)
+  voteWeight: (voterId: string, songId: string) => number;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Analyse the session's votes for reciprocal inflation (pairs who rate each
+ * other far above everyone else) and outlier voters (far from the room's consensus).
+ * Self-votes are ignored, like in the results.
+ */
+export function analyzeFairness(
+  participants: Participant[],
+  songs: Song[],
+  scores: Score[]
+): FairnessReport {
+  const addedBy = new Map(songs.map((s) => [s.id, s.added_by]));
+  const votes = scores.filter((score) => {
+    const owner = addedBy.get(score.song_id);
+    return owner !== undefined && owner !== score.participant_id;
+  });
+
+  // Ratings from voter to song owner
+  const given = (voterId: string, ownerFilter: (ownerId: string) => boolean) =>
+    votes
+      .filter((v) => v.participant_id === voterId && ownerFilter(addedBy.get(v.song_id)!))
+      .map((v) => v.rating);
+
+  const flagged = new Set<string>();
+  const flagKey = (voterId: string, songId: string) => `${voterId}:${songId}`;
+
+  // Reciprocal inflation
+  const pairs: ReciprocalPair[] = [];
+  participants.forEach((a, i) => {
+    participants.slice(i + 1).forEach((b) => {
+      const aToB = given(a.id, (owner) => owner === b.id);
+      const bToA = given(b.id, (owner) => owner === a.id);
+      if (aToB.length < MIN_VOTES_FOR_FLAG || bToA.length < MIN_VOTES_FOR_FLAG) return;
+
+      const aToOthers = given(a.id, (owner) => owner !== b.id);
+      const bToOthers = given(b.id, (owner) => owner !== a.id);
+      if (aToOthers.length === 0 || bToOthers.length === 0) return;
+
+      const mutualAverage: [number, number] = [mean(aToB), mean(bToA)];
+      const othersAverage: [number, number] = [mean(aToOthers), mean(bToOthers)];
+      if (
+        mutualAverage[0] - othersAverage[0] < RECIPROCAL_MIN_INFLATION ||
+        mutualAverage[1] - othersAverage[1] < RECIPROCAL_MIN_INFLATION
+      ) {
+        return;
+      }
+
+      pairs.push({ participants: [a, b], mutualAverage, othersAverage });
+      for (const vote of votes) {
+        const owner = addedBy.get(vote.song_id);
+        if (
+          (vote.participant_id === a.id && owner === b.id) ||
+          (vote.participant_id === b.id && owner === a.id)
+        ) {
+          flagged.add(flagKey(vote.participant_id, vote.song_id));
+        }
+      }
+    });
+  });
+
+  // Outlier voters: compare each vote with the other voters' average on that song
+  const outliers: OutlierVoter[] = [];
+  for (const participant of participants) {
+    const distances = votes
+      .filter((v) => v.participant_id === participant.id)
+      .flatMap((vote) => {
+        const others = votes.filter(
+          (v) => v.song_id === vote.song_id && v.participant_id !== participant.id
+        );
+        return others.length > 0 ? [Math.abs(vote.rating - mean(others.map((v) => v.rating)))] : [];
+      });
+
+    if (distances.length < MIN_VOTES_FOR_FLAG) continue;
+    const deviation = mean(distances);
+    if (deviation < OUTLIER_MIN_DEVIATION) continue;
+
+    outliers.push({ participant, deviation, votes: distances.length });
+    for (const vote of votes) {
+      if (vote.participant_id === participant.id) flagged.add(flagKey(vote.participant_id, vote.song_id));
+    }
+  }
+
+  return {
+    pairs,
+    outliers: outliers.sort((a, b) => b.deviation - a.deviation),
+    flaggedVotes: votes.filter((v) => flagged.has(flagKey(v.participant_id, v.song_id))).length,
+    voteWeight: (voterId, songId) => (flagged.has(flagKey(voterId, songId)) ? FLAGGED_VOTE_WEIGHT : 1),
+  };
+}
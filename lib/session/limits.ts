@@ -0,0 +1,65 @@
+import type { Database } from '@/lib/supabase/database.types';
+import type { SessionSettings } from '@/lib/types';
+import { countPerks } from '@/lib/session/perks';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+type ForcePlay = Database['public']['Tables']['force_plays']['Row'];
+type PerkPurchase = Database['public']['Tables']['perk_purchases']['Row'];
+
+// Client-side mirrors of the rules enforced by enforce_song_quota()
+// and enforce_force_play_rules() - used for display and early errors only
+
+// Longest song that can be added, in seconds (also checked by add_songs())
+export const MAX_SONG_DURATION = 360;
+
+/**
+ * How many more songs a participant may add (settings.songsPerParticipant + bought extra slots)
+ */
+export function getRemainingSongCount(
+  settings: SessionSettings,
+  songs: Song[],
+  participantId: string | undefined,
+  perkPurchases: PerkPurchase[] = []
+): number {
+  if (!participantId) return 0;
+  // Unplayable songs free their slot so the adder can pick a replacement
+  const added = songs.filter((s) => s.added_by === participantId && s.status !== 'unplayable').length;
+  const quota = settings.songsPerParticipant + countPerks(perkPurchases, participantId, 'extra_slot');
+  return Math.max(0, quota - added);
+}
+
+/**
+ * Force play tokens the participant has left (settings.forcePlayTokens + bought tokens)
+ */
+export function getForcePlayTokensLeft(
+  settings: SessionSettings,
+  forcePlays: ForcePlay[],
+  participantId: string | undefined,
+  perkPurchases: PerkPurchase[] = []
+): number {
+  if (!participantId) return 0;
+  const used = forcePlays.filter((f) => f.participant_id === participantId).length;
+  const tokens = settings.forcePlayTokens + countPerks(perkPurchases, participantId, 'force_play_token');
+  return Math.max(0, tokens - used);
+}
+
+/**
+ * Seconds until the participant may force play again (0 = ready)
+ */
+export function getForcePlayCooldownRemaining(
+  settings: SessionSettings,
+  forcePlays: ForcePlay[],
+  participantId: string | undefined,
+  now: number = Date.now()
+): number {
+  if (!participantId) return 0;
+
+  const last = forcePlays
+    .filter((f) => f.participant_id === participantId && f.timestamp)
+    .reduce((latest, f) => Math.max(latest, new Date(f.timestamp!).getTime()), 0);
+
+  if (last === 0) return 0;
+
+  const readyAt = last + settings.forcePlayCooldown * 1000;
+  return Math.max(0, Math.ceil((readyAt - now) / 1000));
+}
@@ -0,0 +1,52 @@
+// The session routes only act for a participant when the request carries the
+// secret it got when joining (participant ids are visible to everyone in the
+// session). It's kept next to participantId in localStorage.
+
+import type { Database } from '@/lib/supabase/database.types';
+
+type Participant = Database['public']['Tables']['participants']['Row'];
+
+const STORAGE_KEY = 'participantSecret';
+
+export function getParticipantSecret(): string | null {
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+export function clearParticipantSecret() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Headers for session API calls made as the current participant
+ */
+export function participantHeaders(): HeadersInit {
+  const secret = getParticipantSecret();
+  return {
+    'Content-Type': 'application/json',
+    ...(secret ? { 'X-Participant-Secret': secret } : {}),
+  };
+}
+
+/**
+ * Join a session as a new participant (as its host right after creating it)
+ * and remember the secret. Throws with the server's message when it refuses.
+ */
+export async function joinAsParticipant(
+  sessionId: string,
+  body: { userName: string; host?: boolean }
+): Promise<Participant> {
+  const response = await fetch(`/api/sessions/${sessionId}/participants`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to join session');
+  }
+
+  localStorage.setItem('participantId', result.participant.id);
+  localStorage.setItem(STORAGE_KEY, result.secret);
+  return result.participant;
+}
@@ -0,0 +1,52 @@
+import type { Database } from '@/lib/supabase/database.types';
+import type { PerkType } from '@/lib/types';
+
+type PerkPurchase = Database['public']['Tables']['perk_purchases']['Row'];
+
+export interface Perk {
+  label: string;
+  description: string;
+  cost: number; // karma - must match perk_cost() in the database
+  target: 'song' | 'chat_message' | null;
+}
+
+export const PERKS: Record<PerkType, Perk> = {
+  extra_slot: {
+    label: 'Extra song slot',
+    description: 'Add one more song than the session limit',
+    cost: 10,
+    target: null,
+  },
+  force_play_token: {
+    label: 'Force play token',
+    description: 'One more force play power card',
+    cost: 15,
+    target: null,
+  },
+  veto: {
+    label: 'Veto',
+    description: "Remove someone else's upcoming song from the queue",
+    cost: 20,
+    target: 'song',
+  },
+  pin_chat: {
+    label: 'Pin chat message',
+    description: "Pin a message on top of the song's chat",
+    cost: 5,
+    target: 'chat_message',
+  },
+};
+
+export const PERK_TYPES = Object.keys(PERKS) as PerkType[];
+
+/**
+ * How many of a perk a participant has bought (mirrors perk_count())
+ */
+export function countPerks(
+  perkPurchases: PerkPurchase[],
+  participantId: string | undefined,
+  perk: PerkType
+): number {
+  if (!participantId) return 0;
+  return perkPurchases.filter((p) => p.participant_id === participantId && p.perk === perk).length;
+}
@@ -0,0 +1,25 @@
+import { serverNow } from '@/lib/session/clock';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Session = Database['public']['Tables']['sessions']['Row'];
+
+// Playback position rules - must match session_playback_position() in the database.
+// Pauses freeze the position and seeks move it; both are kept in
+// paused_at/position_offset and reset when the next song starts.
+
+export type PlaybackTiming = Pick<Session, 'current_song_started_at' | 'paused_at' | 'position_offset'>;
+
+/**
+ * Seconds into the current song, on the server clock (null before a song starts)
+ */
+export function getPlaybackPosition(timing: PlaybackTiming, now: number = serverNow()): number | null {
+  if (!timing.current_song_started_at) return null;
+
+  const until = timing.paused_at ? new Date(timing.paused_at).getTime() : now;
+  const elapsed = (until - new Date(timing.current_song_started_at).getTime()) / 1000;
+  return Math.max(0, elapsed + (timing.position_offset ?? 0));
+}
+
+export function isPlaybackPaused(timing: Pick<Session, 'paused_at'>): boolean {
+  return !!timing.paused_at;
+}
@@ -0,0 +1,133 @@
+import type { Database } from '@/lib/supabase/database.types';
+import type { Scorer } from '@/lib/session/scoring';
+
+type Participant = Database['public']['Tables']['participants']['Row'];
+type Song = Database['public']['Tables']['songs']['Row'];
+type Round = Database['public']['Tables']['rounds']['Row'];
+
+export type RoundOrdering = 'shuffle' | 'added';
+
+export interface RoundWinner {
+  round: Round;
+  participant: Participant;
+  score: number;
+  totalVotes: number;
+}
+
+function sortByPosition<T extends { position: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.position - b.position);
+}
+
+function shuffle<T>(items: T[]): T[] {
+  // Fisher-Yates shuffle algorithm
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Split songs into one block per round, in round order.
+ * Songs without a (known) round end up in a trailing block with round = null.
+ */
+export function groupSongsByRound(
+  songs: Song[],
+  rounds: Round[]
+): { round: Round | null; songs: Song[] }[] {
+  const ordered = sortByPosition(songs);
+  const knownIds = new Set(rounds.map((r) => r.id));
+
+  const groups: { round: Round | null; songs: Song[] }[] = sortByPosition(rounds).map((round) => ({
+    round,
+    songs: ordered.filter((s) => s.round_id === round.id),
+  }));
+
+  const unassigned = ordered.filter((s) => !s.round_id || !knownIds.has(s.round_id));
+  if (unassigned.length > 0) {
+    groups.push({ round: null, songs: unassigned });
+  }
+
+  return groups;
+}
+
+/**
+ * Queue order with rounds played back to back.
+ * Keeps the existing order inside each round, so new songs land at the end of their round.
+ */
+export function orderSongsByRound(songs: Song[], rounds: Round[]): Song[] {
+  if (rounds.length === 0) return sortByPosition(songs);
+  return groupSongsByRound(songs, rounds).flatMap((group) => group.songs);
+}
+
+/**
+ * Shuffle the queue without mixing rounds: 'shuffle' rounds are shuffled,
+ * 'added' rounds play in the order their songs were submitted
+ */
+export function shuffleSongsByRound(songs: Song[], rounds: Round[]): Song[] {
+  if (rounds.length === 0) return shuffle(songs);
+
+  return groupSongsByRound(songs, rounds).flatMap(({ round, songs: roundSongs }) => {
+    if (round?.ordering === 'added') {
+      return [...roundSongs].sort(
+        (a, b) => new Date(a.created_at ?? 0).getTime() - new Date(b.created_at ?? 0).getTime()
+      );
+    }
+    return shuffle(roundSongs);
+  });
+}
+
+/**
+ * Round of the song at the given queue index (null without rounds)
+ */
+export function getRoundAtIndex(songs: Song[], rounds: Round[], index: number | null): Round | null {
+  if (index === null) return null;
+  const song = songs[index];
+  if (!song?.round_id) return null;
+  return rounds.find((r) => r.id === song.round_id) ?? null;
+}
+
+/**
+ * Whether every song of a round is already behind the current song
+ */
+export function isRoundPlayed(round: Round, songs: Song[], currentSongIndex: number | null): boolean {
+  if (currentSongIndex === null) return false;
+  const lastIndex = songs.reduce((last, s, i) => (s.round_id === round.id ? i : last), -1);
+  return lastIndex !== -1 && lastIndex < currentSongIndex;
+}
+
+/**
+ * How many songs a participant has submitted to a round
+ */
+export function countRoundSongs(songs: Song[], roundId: string, participantId: string): number {
+  return songs.filter(
+    (s) => s.round_id === roundId && s.added_by === participantId && s.status !== 'unplayable'
+  ).length;
+}
+
+/**
+ * Best participant of each round: highest score on their songs in that round,
+ * using the session's scoring system (same rule as the overall leaderboard)
+ */
+export function getRoundWinners(
+  rounds: Round[],
+  songs: Song[],
+  participants: Participant[],
+  scorer: Scorer
+): { round: Round; winner: RoundWinner | null }[] {
+  return sortByPosition(rounds).map((round) => {
+    const roundSongs = songs.filter((s) => s.round_id === round.id);
+
+    const candidates = participants
+      .map((participant) => {
+        const ownSongIds = roundSongs.filter((s) => s.added_by === participant.id).map((s) => s.id);
+        const { score, votes } = scorer(ownSongIds);
+        return { round, participant, score, totalVotes: votes };
+      })
+      .filter((c) => c.totalVotes > 0)
+      .sort((a, b) => b.score - a.score || b.totalVotes - a.totalVotes);
+
+    return { round, winner: candidates[0] ?? null };
+  });
+}
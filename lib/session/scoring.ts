@@ -0,0 +1,239 @@
+import type { Database } from '@/lib/supabase/database.types';
+import type { ScoringMode } from '@/lib/types';
+
+type Song = Database['public']['Tables']['songs']['Row'];
+type Score = Database['public']['Tables']['scores']['Row'];
+type Ballot = Database['public']['Tables']['ballots']['Row'];
+
+// Songs ranked on an end-of-session ballot - must match the ballots.ranking check
+export const BALLOT_SIZE = 3;
+
+// Bayesian prior: every song starts with C virtual votes of this rating
+export const BAYESIAN_PRIOR_RATING = 3;
+const BAYESIAN_MIN_PRIOR_WEIGHT = 2;
+
+export interface ScoringInput {
+  songs: Song[];
+  scores: Score[];
+  ballots?: Ballot[];
+  // Optional down-weighting of individual votes (see lib/session/fairness.ts)
+  voteWeight?: (voterId: string, songId: string) => number;
+}
+
+export interface ScoreResult {
+  score: number;
+  votes: number;
+}
+
+/**
+ * Scores a set of songs (one song, or every song of a participant) as a whole
+ */
+export type Scorer = (songIds: string[]) => ScoreResult;
+
+export interface ScoringSystem {
+  mode: ScoringMode;
+  label: string;
+  formula: string;
+  description: string;
+  unit: string;
+  createScorer: (input: ScoringInput) => Scorer;
+  format: (score: number) => string;
+}
+
+/**
+ * Ratings that count: self-votes are always excluded
+ */
+function getCountedScores({ songs, scores }: ScoringInput): Score[] {
+  const addedBy = new Map(songs.map((s) => [s.id, s.added_by]));
+  return scores.filter((score) => {
+    const owner = addedBy.get(score.song_id);
+    return owner !== undefined && owner !== score.participant_id;
+  });
+}
+
+function scoresFor(scores: Score[], songIds: string[]): Score[] {
+  const ids = new Set(songIds);
+  return scores.filter((s) => ids.has(s.song_id));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function weightOf(input: ScoringInput, voterId: string, songId: string): number {
+  return input.voteWeight ? input.voteWeight(voterId, songId) : 1;
+}
+
+/**
+ * Weighted mean of values per vote (plain mean without voteWeight)
+ */
+function weightedMean(input: ScoringInput, votes: Score[], value: (vote: Score) => number): number {
+  const totalWeight = votes.reduce((sum, v) => sum + weightOf(input, v.participant_id, v.song_id), 0);
+  if (totalWeight === 0) return 0;
+  return votes.reduce((sum, v) => sum + value(v) * weightOf(input, v.participant_id, v.song_id), 0) / totalWeight;
+}
+
+const average: ScoringSystem = {
+  mode: 'average',
+  label: 'Average',
+  formula: 'Σ ratings / votes',
+  description: 'Plain average of the star ratings.',
+  unit: 'avg',
+  createScorer: (input) => {
+    const counted = getCountedScores(input);
+    return (songIds) => {
+      const votes = scoresFor(counted, songIds);
+      return { score: weightedMean(input, votes, (v) => v.rating), votes: votes.length };
+    };
+  },
+  format: (score) => score.toFixed(1),
+};
+
+const bayesian: ScoringSystem = {
+  mode: 'bayesian',
+  label: 'Bayesian average',
+  formula: `(C × ${BAYESIAN_PRIOR_RATING} + Σ ratings) / (C + votes)`,
+  description:
+    'Every song starts with C neutral votes (C = average votes per song), so a single 5-star vote does not beat many 4-star votes.',
+  unit: 'bayes',
+  createScorer: (input) => {
+    const counted = getCountedScores(input);
+    const ratedSongs = new Set(counted.map((s) => s.song_id)).size;
+    const priorWeight = Math.max(
+      BAYESIAN_MIN_PRIOR_WEIGHT,
+      ratedSongs > 0 ? counted.length / ratedSongs : 0
+    );
+
+    return (songIds) => {
+      const votes = scoresFor(counted, songIds);
+      if (votes.length === 0) return { score: 0, votes: 0 };
+      const weights = votes.map((v) => weightOf(input, v.participant_id, v.song_id));
+      const sum = votes.reduce((total, v, i) => total + v.rating * weights[i], 0);
+      const count = weights.reduce((total, w) => total + w, 0);
+      return {
+        score: (priorWeight * BAYESIAN_PRIOR_RATING + sum) / (priorWeight + count),
+        votes: votes.length,
+      };
+    };
+  },
+  format: (score) => score.toFixed(2),
+};
+
+const normalized: ScoringSystem = {
+  mode: 'normalized',
+  label: 'Normalized per voter',
+  formula: 'avg((rating − voter mean) / voter std dev)',
+  description:
+    "Each rating is compared to the voter's own average, so harsh and generous raters count the same. 0 is an average song.",
+  unit: 'z',
+  createScorer: (input) => {
+    const counted = getCountedScores(input);
+
+    // Mean and spread of every voter's ratings
+    const byVoter = new Map<string, number[]>();
+    for (const score of counted) {
+      byVoter.set(score.participant_id, [...(byVoter.get(score.participant_id) ?? []), score.rating]);
+    }
+    const voterStats = new Map(
+      [...byVoter].map(([voterId, ratings]) => {
+        const voterMean = mean(ratings);
+        const spread = Math.sqrt(mean(ratings.map((r) => (r - voterMean) ** 2)));
+        return [voterId, { mean: voterMean, spread }];
+      })
+    );
+
+    return (songIds) => {
+      const votes = scoresFor(counted, songIds);
+      const score = weightedMean(input, votes, (v) => {
+        const stats = voterStats.get(v.participant_id);
+        // A voter who gives everything the same rating expresses no preference
+        return stats && stats.spread > 0 ? (v.rating - stats.mean) / stats.spread : 0;
+      });
+      return { score, votes: votes.length };
+    };
+  },
+  format: (score) => `${score > 0 ? '+' : ''}${score.toFixed(2)}`,
+};
+
+/**
+ * Rankings per voter: submitted ballots, or the voter's star ratings
+ * (highest first) when they did not fill in a ballot
+ */
+export function getBallotRankings(input: ScoringInput): Map<string, string[]> {
+  const rankings = new Map<string, string[]>();
+
+  for (const ballot of input.ballots ?? []) {
+    rankings.set(ballot.participant_id, ballot.ranking.slice(0, BALLOT_SIZE));
+  }
+
+  const byVoter = new Map<string, Score[]>();
+  for (const score of getCountedScores(input)) {
+    if (rankings.has(score.participant_id)) continue;
+    byVoter.set(score.participant_id, [...(byVoter.get(score.participant_id) ?? []), score]);
+  }
+
+  for (const [voterId, votes] of byVoter) {
+    const ranking = [...votes]
+      .sort((a, b) => b.rating - a.rating)
+      .slice(0, BALLOT_SIZE)
+      .map((v) => v.song_id);
+    rankings.set(voterId, ranking);
+  }
+
+  return rankings;
+}
+
+const borda: ScoringSystem = {
+  mode: 'borda',
+  label: 'Borda count',
+  formula: `${BALLOT_SIZE} pts for #1, ${BALLOT_SIZE - 1} for #2 … 1 for #${BALLOT_SIZE}`,
+  description: `Everyone ranks their top ${BALLOT_SIZE} songs at the end of the session. Voters without a ballot are ranked by their star ratings.`,
+  unit: 'pts',
+  createScorer: (input) => {
+    const points = new Map<string, { score: number; votes: number }>();
+    for (const [voterId, ranking] of getBallotRankings(input)) {
+      ranking.forEach((songId, i) => {
+        const current = points.get(songId) ?? { score: 0, votes: 0 };
+        points.set(songId, {
+          score: current.score + (BALLOT_SIZE - i) * weightOf(input, voterId, songId),
+          votes: current.votes + 1,
+        });
+      });
+    }
+
+    return (songIds) =>
+      songIds.reduce(
+        (total, id) => {
+          const song = points.get(id);
+          return song
+            ? { score: total.score + song.score, votes: total.votes + song.votes }
+            : total;
+        },
+        { score: 0, votes: 0 }
+      );
+  },
+  format: (score) => (Number.isInteger(score) ? score.toString() : score.toFixed(1)),
+};
+
+export const SCORING_SYSTEMS: Record<ScoringMode, ScoringSystem> = {
+  average,
+  bayesian,
+  normalized,
+  borda,
+};
+
+export const SCORING_MODES = Object.keys(SCORING_SYSTEMS) as ScoringMode[];
+
+/**
+ * Scoring system for a mode, falling back to the plain average for unknown values
+ */
+export function getScoringSystem(mode: string | null | undefined): ScoringSystem {
+  return SCORING_SYSTEMS[mode as ScoringMode] ?? average;
+}
+
+/**
+ * Higher score first, more votes breaks ties
+ */
+export function compareScoreResults(a: ScoreResult, b: ScoreResult): number {
+  return b.score - a.score || b.votes - a.votes;
+}
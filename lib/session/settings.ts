@@ -0,0 +1,55 @@
+import type { Json } from '@/lib/supabase/database.types';
+import type { SessionSettings } from '@/lib/types';
+
+// Mirrors the sessions.settings JSONB default in the database
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  maxParticipants: 10,
+  allowForcePlay: true,
+  forcePlayCooldown: 300,
+  forcePlayTokens: 1,
+  votingDuration: 30,
+  songsPerParticipant: 5,
+  blindMode: false,
+  scoringMode: 'average',
+  downweightFlaggedVotes: false,
+  blockDuplicateSongs: false,
+};
+
+// Allowed ranges - must match session_settings_are_valid() in the database
+export const SESSION_SETTING_LIMITS = {
+  maxParticipants: { min: 2, max: 50 },
+  songsPerParticipant: { min: 1, max: 50 },
+  forcePlayCooldown: { min: 0, max: 3600 },
+  forcePlayTokens: { min: 0, max: 10 },
+  votingDuration: { min: 5, max: 600 },
+} as const;
+
+export type NumericSessionSetting = keyof typeof SESSION_SETTING_LIMITS;
+
+/**
+ * Clamp a numeric setting into its allowed range
+ */
+export function clampSetting(key: NumericSessionSetting, value: number): number {
+  const { min, max } = SESSION_SETTING_LIMITS[key];
+  if (Number.isNaN(value)) return DEFAULT_SESSION_SETTINGS[key];
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/**
+ * Read sessions.settings with defaults for missing keys
+ * (older sessions were created before some settings existed)
+ */
+export function getSessionSettings(settings: Json | null | undefined): SessionSettings {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return DEFAULT_SESSION_SETTINGS;
+  }
+
+  return { ...DEFAULT_SESSION_SETTINGS, ...(settings as Partial<SessionSettings>) };
+}
+
+/**
+ * Convert settings back into the JSONB column shape
+ */
+export function toSettingsJson(settings: SessionSettings): Json {
+  return { ...settings };
+}
@@ -0,0 +1,43 @@
+// Voting window rules - must match enforce_voting_window() in the database
+
+// Seconds a song stays votable after the next song has started (or, for the
+// final song, after the session finished)
+export const VOTING_GRACE_SECONDS = 15;
+
+export type VotingPhase = 'pending' | 'open' | 'closed';
+
+export interface VotingWindow {
+  phase: VotingPhase;
+  opensIn: number; // seconds until the window opens (pending)
+  closesIn: number; // seconds until the song ends (open) - voting stays open until the next song starts
+}
+
+/**
+ * Voting window of the current song: the last `votingDuration` seconds of the song
+ * (the whole song when it is shorter than that). `position` is the playback
+ * position in seconds (see getPlaybackPosition), so pauses hold the window.
+ */
+export function getVotingWindow(
+  songDuration: number,
+  position: number | null,
+  votingDuration: number
+): VotingWindow {
+  if (position === null) return { phase: 'closed', opensIn: 0, closesIn: 0 };
+
+  const opensAt = Math.max(songDuration - votingDuration, 0);
+
+  if (position < opensAt) {
+    return { phase: 'pending', opensIn: Math.ceil(opensAt - position), closesIn: 0 };
+  }
+
+  return { phase: 'open', opensIn: 0, closesIn: Math.max(0, Math.ceil(songDuration - position)) };
+}
+
+/**
+ * Seconds left to vote on the previous song after `song_changed` (0 = closed)
+ */
+export function getGraceRemaining(currentStartedAt: string | null, now: number = Date.now()): number {
+  if (!currentStartedAt) return 0;
+  const closesAt = new Date(currentStartedAt).getTime() + VOTING_GRACE_SECONDS * 1000;
+  return Math.max(0, Math.ceil((closesAt - now) / 1000));
+}
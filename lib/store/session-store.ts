@@ -2,7 +2,24 @@ import { create } from 'zustand';
 import { supabase } from '@/lib/supabase/client';
 import type { Database } from '@/lib/supabase/database.types';
 import { SessionRealtime } from '@/lib/realtime';
-import type { PresenceState } from '@/lib/realtime';
+import type { BroadcastEvents, PresenceState } from '@/lib/realtime';
+import type { ForcePlayMode, PerkType, PlaybackAction, SessionSettings, SessionTransitionAction } from '@/lib/types';
+import { getSessionSettings, toSettingsJson } from '@/lib/session/settings';
+import { HIDDEN_SUBMITTER_NAME } from '@/lib/session/blind-mode';
+import { getRemainingSongCount } from '@/lib/session/limits';
+import { countPerks } from '@/lib/session/perks';
+import { DJ_NAME } from '@/lib/session/dj';
+import { getPlaybackPosition } from '@/lib/session/playback';
+import { participantHeaders } from '@/lib/session/participant-secret';
+import { isMusicSource, isSameSong } from '@/lib/music';
+import type { MusicSource } from '@/lib/music';
+import {
+  countRoundSongs,
+  getRoundAtIndex,
+  isRoundPlayed,
+  orderSongsByRound,
+  shuffleSongsByRound,
+} from '@/lib/session/rounds';
 
 type Session = Database['public']['Tables']['sessions']['Row'];
 type Participant = Database['public']['Tables']['participants']['Row'];
@@ -11,15 +28,34 @@ type Score = Database['public']['Tables']['scores']['Row'];
 type SkipVote = Database['public']['Tables']['skip_votes']['Row'];
 type Reaction = Database['public']['Tables']['reactions']['Row'];
 type ChatMessage = Database['public']['Tables']['chat_messages']['Row'];
-type KarmaHistory = Database['public']['Tables']['karma_history']['Row'];
+type Round = Database['public']['Tables']['rounds']['Row'];
+type ForcePlay = Database['public']['Tables']['force_plays']['Row'];
+type Ballot = Database['public']['Tables']['ballots']['Row'];
+type PerkPurchase = Database['public']['Tables']['perk_purchases']['Row'];
+type PlaybackEvent = Database['public']['Tables']['playback_events']['Row'];
+
+// Lifecycle columns are owned by the server (see transitionSession)
+type SessionLifecycleField =
+  | 'status'
+  | 'current_song_index'
+  | 'current_song_started_at'
+  | 'paused_at'
+  | 'position_offset';
 
 interface SessionState {
   // Current session data
   session: Session | null;
   participants: Participant[];
   songs: Song[];
+  rounds: Round[];
   scores: Score[];
   skipVotes: SkipVote[];
+  forcePlays: ForcePlay[];
+  lastForcePlay: BroadcastEvents['force_play_used'] | null;
+  unplayableReports: BroadcastEvents['song_unplayable'][];
+  ballots: Ballot[];
+  perkPurchases: PerkPurchase[];
+  playbackEvents: PlaybackEvent[];
   reactions: Reaction[];
   chatMessages: ChatMessage[];
   currentParticipant: Participant | null;
@@ -33,22 +69,34 @@ interface SessionState {
   loadSession: (sessionId: string) => Promise<void>;
   subscribeToSession: (sessionId: string) => Promise<void>;
   unsubscribeFromSession: () => void;
-  updateSession: (updates: Partial<Session>) => Promise<void>;
+  updateSession: (updates: Partial<Omit<Session, SessionLifecycleField>>) => Promise<void>;
+  transitionSession: (action: SessionTransitionAction, options?: { reason?: string }) => Promise<void>;
+  controlPlayback: (action: PlaybackAction, position?: number) => Promise<void>;
+  transferHost: (newHostId: string, reason?: 'transfer' | 'migration') => Promise<void>;
+  sendHostHeartbeat: () => Promise<void>;
+  updateSettings: (updates: Partial<SessionSettings>) => Promise<void>;
   toggleInfiniteMode: () => Promise<void>;
-  addSong: (song: Omit<Song, 'id' | 'created_at'>) => Promise<void>;
+  addSong: (song: Omit<Song, 'id' | 'created_at' | 'round_id' | 'status' | 'unplayable_reason'> & { round_id?: string | null }) => Promise<void>;
+  importSongs: (source: MusicSource, trackIds: string[], roundId?: string) => Promise<{ added: number; skipped: number }>;
+  autofillQueue: () => Promise<number>;
   removeSong: (songId: string) => Promise<void>;
   reorderSongs: (songs: Song[]) => Promise<void>;
   shuffleQueue: () => Promise<void>;
+  addRound: (round: Pick<Round, 'name' | 'prompt' | 'songs_per_participant' | 'ordering'>) => Promise<void>;
+  removeRound: (roundId: string) => Promise<void>;
   addScore: (score: Omit<Score, 'id' | 'created_at'>) => Promise<void>;
+  submitBallot: (ranking: string[]) => Promise<void>;
   addSkipVote: (songId: string) => Promise<void>;
   removeSkipVote: (songId: string) => Promise<void>;
   addReaction: (songId: string, emoji: string) => Promise<void>;
   removeReaction: (songId: string, emoji: string) => Promise<void>;
   loadChatMessages: (songId: string) => Promise<void>;
   sendChatMessage: (songId: string, message: string) => Promise<void>;
-  forcePlaySong: (songId: string, participantId: string) => Promise<void>;
+  forcePlaySong: (songId: string, mode?: ForcePlayMode) => Promise<void>;
+  buyPerk: (perk: PerkType, targetId?: string) => Promise<void>;
   nextSong: () => Promise<void>;
-  awardKarma: (participantId: string, amount: number, reason: string) => Promise<void>;
+  rewindSong: (action: 'previous' | 'replay', reason?: string) => Promise<void>;
+  reportUnplayableSong: (songId: string, reason: string, errorCode?: number) => Promise<void>;
   reset: () => void;
 }
 
@@ -56,8 +104,15 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   session: null,
   participants: [],
   songs: [],
+  rounds: [],
   scores: [],
   skipVotes: [],
+  forcePlays: [],
+  lastForcePlay: null,
+  unplayableReports: [],
+  ballots: [],
+  perkPurchases: [],
+  playbackEvents: [],
   reactions: [],
   chatMessages: [],
   currentParticipant: null,
@@ -65,7 +120,19 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   onlineUsers: [],
 
   setCurrentParticipant: (participant) => {
+    const { currentParticipant, realtime } = get();
     set({ currentParticipant: participant });
+
+    // Keep our presence host badge in sync when the host role moves
+    if (
+      realtime &&
+      currentParticipant?.id === participant.id &&
+      !!currentParticipant.is_host !== !!participant.is_host
+    ) {
+      realtime.updatePresence({ is_host: !!participant.is_host }).catch((error) => {
+        console.error('[Store] Error updating host presence:', error);
+      });
+    }
   },
 
   loadSession: async (sessionId: string) => {
@@ -97,6 +164,15 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
       if (songsError) throw songsError;
 
+      // Load rounds
+      const { data: rounds, error: roundsError } = await supabase
+        .from('rounds')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('position', { ascending: true });
+
+      if (roundsError) throw roundsError;
+
       // Load scores
       const { data: scores, error: scoresError } = await supabase
         .from('scores')
@@ -113,6 +189,39 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
       if (skipVotesError) throw skipVotesError;
 
+      // Load force plays (for cooldowns)
+      const { data: forcePlays, error: forcePlaysError } = await supabase
+        .from('force_plays')
+        .select('*')
+        .eq('session_id', sessionId);
+
+      if (forcePlaysError) throw forcePlaysError;
+
+      // Load ballots (borda scoring)
+      const { data: ballots, error: ballotsError } = await supabase
+        .from('ballots')
+        .select('*')
+        .eq('session_id', sessionId);
+
+      if (ballotsError) throw ballotsError;
+
+      // Load perk purchases (extra slots, tokens)
+      const { data: perkPurchases, error: perkPurchasesError } = await supabase
+        .from('perk_purchases')
+        .select('*')
+        .eq('session_id', sessionId);
+
+      if (perkPurchasesError) throw perkPurchasesError;
+
+      // Load playback history (results timeline)
+      const { data: playbackEvents, error: playbackEventsError } = await supabase
+        .from('playback_events')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('started_at', { ascending: true });
+
+      if (playbackEventsError) throw playbackEventsError;
+
       // Load reactions
       const { data: reactions, error: reactionsError } = await supabase
         .from('reactions')
@@ -125,8 +234,13 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         session,
         participants: participants || [],
         songs: songs || [],
+        rounds: rounds || [],
         scores: scores || [],
         skipVotes: skipVotes || [],
+        forcePlays: forcePlays || [],
+        ballots: ballots || [],
+        perkPurchases: perkPurchases || [],
+        playbackEvents: playbackEvents || [],
         reactions: reactions || [],
       });
     } catch (error) {
@@ -157,6 +271,13 @@ export const useSessionStore = create<SessionState>((set, get) => ({
           (s) => s.song_id === data.song_id && s.participant_id === data.participant_id
         );
 
+        // Ratings can be changed while the voting window is open
+        if (existingScore && existingScore.rating !== data.rating) {
+          set({
+            scores: scores.map((s) => (s.id === existingScore.id ? { ...s, rating: data.rating } : s)),
+          });
+        }
+
         if (!existingScore) {
           // Add a temporary score object
           const newScore: Score = {
@@ -201,9 +322,9 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       realtime.broadcast.on('song_changed', async (data) => {
         console.log('[Store] Song changed broadcast received:', data);
 
-        // Check if our local state already matches the change
+        // Check if our local state already matches the change (a replay keeps the index)
         const { session } = get();
-        if (session?.current_song_index === data.song_index) {
+        if (session?.current_song_index === data.song_index && session.current_song_started_at === data.started_at) {
           console.log('[Store] Session already up to date, skipping reload');
           return;
         }
@@ -234,6 +355,43 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         }
       });
 
+      // Listen to host playback controls - apply the new timing directly when it's
+      // for the song we're on, otherwise reload (we missed a song change)
+      const applyPlayback = async (
+        data: Pick<BroadcastEvents['playback_seeked'], 'started_at' | 'paused_at' | 'position_offset'>
+      ) => {
+        const { session } = get();
+        if (session && session.current_song_started_at === data.started_at) {
+          set({ session: { ...session, paused_at: data.paused_at, position_offset: data.position_offset } });
+          return;
+        }
+
+        const { data: sessionData, error } = await supabase
+          .from('sessions')
+          .select('*')
+          .eq('id', sessionId)
+          .single();
+
+        if (sessionData && !error) {
+          set({ session: sessionData });
+        }
+      };
+
+      realtime.broadcast.on('playback_paused', async (data) => {
+        console.log('[Store] Playback paused broadcast received:', data);
+        await applyPlayback(data);
+      });
+
+      realtime.broadcast.on('playback_resumed', async (data) => {
+        console.log('[Store] Playback resumed broadcast received:', data);
+        await applyPlayback({ ...data, paused_at: null });
+      });
+
+      realtime.broadcast.on('playback_seeked', async (data) => {
+        console.log('[Store] Playback seeked broadcast received:', data);
+        await applyPlayback(data);
+      });
+
       // Listen to session start
       realtime.broadcast.on('session_started', async (data) => {
         console.log('[Store] Session started broadcast received:', data);
@@ -282,6 +440,113 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         }
       });
 
+      // Listen to round starts (reload in case the host edited the prompt)
+      realtime.broadcast.on('round_started', async (data) => {
+        console.log('[Store] Round started broadcast received:', data);
+
+        const { data: allRounds } = await supabase
+          .from('rounds')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('position', { ascending: true });
+
+        if (allRounds) set({ rounds: allRounds });
+      });
+
+      // Listen to force plays - reload the reordered queue before the session
+      // so the new index never points at the old order
+      realtime.broadcast.on('force_play_used', async (data) => {
+        console.log('[Store] Force play broadcast received:', data);
+        set({ lastForcePlay: data });
+
+        const { data: allSongs } = await supabase
+          .from('songs')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('position', { ascending: true });
+
+        if (allSongs) set({ songs: allSongs });
+
+        const { data: allForcePlays } = await supabase
+          .from('force_plays')
+          .select('*')
+          .eq('session_id', sessionId);
+
+        if (allForcePlays) set({ forcePlays: allForcePlays });
+
+        const { data: sessionData } = await supabase
+          .from('sessions')
+          .select('*')
+          .eq('id', sessionId)
+          .single();
+
+        if (sessionData) set({ session: sessionData });
+      });
+
+      // Listen to unplayable reports - one per listener whose player failed
+      // (the song's status comes through the songs listener once the host marks it)
+      realtime.broadcast.on('song_unplayable', (data) => {
+        console.log('[Store] Song unplayable broadcast received:', data);
+        const { unplayableReports } = get();
+        const known = unplayableReports.some(
+          (r) => r.song_id === data.song_id && r.participant_id === data.participant_id
+        );
+
+        if (!known) set({ unplayableReports: [...unplayableReports, data] });
+      });
+
+      // Listen to perk purchases - a veto removes a song, a pin changes the chat
+      realtime.broadcast.on('perk_bought', async (data) => {
+        console.log('[Store] Perk bought broadcast received:', data);
+
+        const { data: allPerkPurchases } = await supabase
+          .from('perk_purchases')
+          .select('*')
+          .eq('session_id', sessionId);
+
+        if (allPerkPurchases) set({ perkPurchases: allPerkPurchases });
+
+        if (data.perk === 'veto') {
+          const { data: allSongs } = await supabase
+            .from('songs')
+            .select('*')
+            .eq('session_id', sessionId)
+            .order('position', { ascending: true });
+
+          if (allSongs) set({ songs: allSongs });
+        }
+
+        if (data.perk === 'pin_chat' && data.song_id) {
+          const { data: allMessages } = await supabase
+            .from('chat_messages')
+            .select('*')
+            .eq('session_id', sessionId)
+            .eq('song_id', data.song_id)
+            .order('created_at', { ascending: true });
+
+          if (allMessages) set({ chatMessages: allMessages });
+        }
+      });
+
+      // Listen to host changes (handoff or migration)
+      realtime.broadcast.on('host_changed', async (data) => {
+        console.log('[Store] Host changed broadcast received:', data);
+
+        const { data: allParticipants } = await supabase
+          .from('participants')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('joined_at', { ascending: true });
+
+        if (allParticipants) {
+          set({ participants: allParticipants });
+
+          const { currentParticipant } = get();
+          const me = allParticipants.find((p) => p.id === currentParticipant?.id);
+          if (me) get().setCurrentParticipant(me);
+        }
+      });
+
       // Listen to reactions
       realtime.broadcast.on('song_reaction', async (data) => {
         console.log('[Store] Reaction broadcast received:', data);
@@ -416,6 +681,18 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         if (data) set({ songs: data });
       });
 
+      // Listen to round changes (host editing the round list)
+      realtime.postgres.onRounds(sessionId, async (change) => {
+        console.log('[Store] Rounds changed:', change.eventType);
+        const { data } = await supabase
+          .from('rounds')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('position', { ascending: true });
+
+        if (data) set({ rounds: data });
+      });
+
       // Listen to score changes (backup for broadcasts)
       // This ensures scores are persisted even if broadcast fails
       realtime.postgres.onScores(sessionId, async (change) => {
@@ -429,6 +706,11 @@ export const useSessionStore = create<SessionState>((set, get) => ({
             set({ scores: [...scores, change.new] });
           }
         }
+
+        if (change.eventType === 'UPDATE' && change.new) {
+          const updated = change.new;
+          set({ scores: scores.map((s) => (s.id === updated.id ? updated : s)) });
+        }
       });
 
       // Listen to skip vote changes
@@ -443,6 +725,51 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         if (data) set({ skipVotes: data });
       });
 
+      // Listen to force plays (cooldowns)
+      realtime.postgres.onForcePlays(sessionId, async (change) => {
+        console.log('[Store] Force plays changed:', change.eventType);
+        const { data } = await supabase
+          .from('force_plays')
+          .select('*')
+          .eq('session_id', sessionId);
+
+        if (data) set({ forcePlays: data });
+      });
+
+      // Listen to perk purchases (extra slots and tokens change the limits)
+      realtime.postgres.onPerkPurchases(sessionId, async (change) => {
+        console.log('[Store] Perk purchases changed:', change.eventType);
+        const { data } = await supabase
+          .from('perk_purchases')
+          .select('*')
+          .eq('session_id', sessionId);
+
+        if (data) set({ perkPurchases: data });
+      });
+
+      // Listen to playback history (written by the server on every song change)
+      realtime.postgres.onPlaybackEvents(sessionId, async (change) => {
+        console.log('[Store] Playback events changed:', change.eventType);
+        const { data } = await supabase
+          .from('playback_events')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('started_at', { ascending: true });
+
+        if (data) set({ playbackEvents: data });
+      });
+
+      // Listen to ballots (borda results update as they come in)
+      realtime.postgres.onBallots(sessionId, async (change) => {
+        console.log('[Store] Ballots changed:', change.eventType);
+        const { data } = await supabase
+          .from('ballots')
+          .select('*')
+          .eq('session_id', sessionId);
+
+        if (data) set({ ballots: data });
+      });
+
       set({ realtime });
       console.log('[Store] Realtime subscriptions set up successfully');
     } catch (error) {
@@ -460,7 +787,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   },
 
   updateSession: async (updates) => {
-    const { session, realtime } = get();
+    const { session } = get();
     if (!session) return;
 
     // Always update last_activity_at when session is updated
@@ -487,79 +814,266 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     if (data) {
       console.log('[Store] Session updated locally:', data);
       set({ session: data });
+    }
+  },
 
-      if (realtime) {
-        // If session started, broadcast to all users
-        if (updates.status === 'playing' && session.status === 'waiting') {
-          const { songs } = get();
-          const firstSong = songs[0];
-          if (firstSong) {
-            await realtime.broadcast.send('session_started', {
-              session_id: session.id,
-              host_id: session.host_id,
-              first_song_id: firstSong.id,
-              timestamp: Date.now(),
-            });
-            console.log('[Store] Session start broadcasted to all users');
-          }
-        }
+  transitionSession: async (action, options = {}) => {
+    const { session, currentParticipant } = get();
+    if (!session || !currentParticipant) return;
 
-        // If session ended, broadcast to all users and reload all data
-        if (updates.status === 'finished') {
-          // Reload participants, songs, and scores to ensure final results are accurate
-          const { data: participants } = await supabase
-            .from('participants')
-            .select('*')
-            .eq('session_id', session.id)
-            .order('joined_at', { ascending: true });
+    // The server validates who may trigger each transition and applies it
+    const response = await fetch(`/api/sessions/${session.id}/transition`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        action,
+        participantId: currentParticipant.id,
+        expectedIndex: session.current_song_index,
+        reason: options.reason,
+      }),
+    });
 
-          const { data: songs } = await supabase
-            .from('songs')
-            .select('*')
-            .eq('session_id', session.id)
-            .order('position', { ascending: true });
+    const result = await response.json();
 
-          const { data: scores } = await supabase
-            .from('scores')
-            .select('*')
-            .eq('session_id', session.id);
+    if (!response.ok) {
+      console.error(`Error applying session transition "${action}":`, result.error);
+      throw new Error(result.error || 'Failed to update session');
+    }
 
-          console.log('[Store] Reloaded final data - Participants:', participants?.length, 'Songs:', songs?.length, 'Scores:', scores?.length);
+    const updated = result.session as Session;
+    console.log(`[Store] Session transition "${action}" applied:`, updated);
+    set({ session: updated });
 
-          set({
-            participants: participants || [],
-            songs: songs || [],
-            scores: scores || [],
-          });
+    const { realtime } = get();
+    if (!realtime) return;
+
+    // If session started, broadcast to all users
+    if (session.status === 'waiting' && updated.status === 'playing') {
+      const { songs } = get();
+      const firstSong = songs[0];
+      if (firstSong) {
+        await realtime.broadcast.send('session_started', {
+          session_id: session.id,
+          host_id: session.host_id,
+          first_song_id: firstSong.id,
+          timestamp: Date.now(),
+        });
+        console.log('[Store] Session start broadcasted to all users');
+      }
+    }
 
-          await realtime.broadcast.send('session_ended', {
-            session_id: session.id,
-            host_id: session.host_id,
-            timestamp: Date.now(),
-          });
-          console.log('[Store] Session end broadcasted to all users');
-        }
+    // If session ended, broadcast to all users and reload all data
+    if (session.status !== 'finished' && updated.status === 'finished') {
+      // Reload participants, songs, and scores to ensure final results are accurate
+      const { data: participants } = await supabase
+        .from('participants')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('joined_at', { ascending: true });
 
-        // If song changed, broadcast to all users for instant sync
-        if (updates.current_song_index !== undefined && updates.current_song_index !== null) {
-          const { songs } = get();
-          const currentSong = songs[updates.current_song_index];
-          if (currentSong) {
-            await realtime.broadcast.send('song_changed', {
-              session_id: session.id,
-              song_id: currentSong.id,
-              song_index: updates.current_song_index,
-              started_at: updates.current_song_started_at || new Date().toISOString(),
-              host_id: session.host_id,
-              timestamp: Date.now(),
-            });
-            console.log('[Store] Song change broadcasted to all users');
-          }
-        }
+      const { data: songs } = await supabase
+        .from('songs')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('position', { ascending: true });
+
+      const { data: scores } = await supabase
+        .from('scores')
+        .select('*')
+        .eq('session_id', session.id);
+
+      console.log('[Store] Reloaded final data - Participants:', participants?.length, 'Songs:', songs?.length, 'Scores:', scores?.length);
+
+      set({
+        participants: participants || [],
+        songs: songs || [],
+        scores: scores || [],
+      });
+
+      await realtime.broadcast.send('session_ended', {
+        session_id: session.id,
+        host_id: session.host_id,
+        timestamp: Date.now(),
+      });
+      console.log('[Store] Session end broadcasted to all users');
+      return;
+    }
+
+    // If song changed, broadcast to all users for instant sync
+    if (
+      updated.status === 'playing' &&
+      updated.current_song_index !== null &&
+      updated.current_song_started_at !== session.current_song_started_at
+    ) {
+      const { songs } = get();
+      const currentSong = songs[updated.current_song_index];
+      if (currentSong) {
+        await realtime.broadcast.send('song_changed', {
+          session_id: session.id,
+          song_id: currentSong.id,
+          song_index: updated.current_song_index,
+          started_at: updated.current_song_started_at || new Date().toISOString(),
+          host_id: session.host_id,
+          timestamp: Date.now(),
+        });
+        console.log('[Store] Song change broadcasted to all users');
       }
     }
   },
 
+  controlPlayback: async (action, position) => {
+    const { session, currentParticipant, songs } = get();
+    if (!session || !currentParticipant) return;
+
+    // The server checks that the caller is the host and keeps the timing
+    const response = await fetch(`/api/sessions/${session.id}/playback`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        action,
+        participantId: currentParticipant.id,
+        position,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error(`Error applying playback action "${action}":`, result.error);
+      throw new Error(result.error || 'Failed to control playback');
+    }
+
+    const updated = result.session as Session;
+    console.log(`[Store] Playback action "${action}" applied:`, updated);
+    set({ session: updated });
+
+    const { realtime } = get();
+    const currentSong = updated.current_song_index !== null ? songs[updated.current_song_index] : undefined;
+    if (!realtime || !currentSong || !updated.current_song_started_at) return;
+
+    const base = {
+      session_id: session.id,
+      song_id: currentSong.id,
+      started_at: updated.current_song_started_at,
+      position_offset: updated.position_offset,
+      host_id: currentParticipant.id,
+      timestamp: Date.now(),
+    };
+
+    if (action === 'pause' && updated.paused_at) {
+      await realtime.broadcast.send('playback_paused', { ...base, paused_at: updated.paused_at });
+    } else if (action === 'resume') {
+      await realtime.broadcast.send('playback_resumed', base);
+    } else if (action === 'seek') {
+      await realtime.broadcast.send('playback_seeked', {
+        ...base,
+        paused_at: updated.paused_at,
+        position: getPlaybackPosition(updated) ?? 0,
+      });
+    }
+    console.log(`[Store] Playback action "${action}" broadcasted to all users`);
+  },
+
+  transferHost: async (newHostId, reason = 'transfer') => {
+    const { session, participants, currentParticipant } = get();
+    if (!session || !currentParticipant) return;
+
+    const previousHost = participants.find((p) => p.is_host);
+
+    // expectedHostId lets the server reject stale migrations (someone else already took over)
+    const response = await fetch(`/api/sessions/${session.id}/host`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        participantId: currentParticipant.id,
+        newHostId,
+        expectedHostId: previousHost?.id ?? null,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Error transferring host:', result.error);
+      throw new Error(result.error || 'Failed to transfer host');
+    }
+
+    set({ session: result.session as Session });
+
+    // Reload participants so is_host flags are up to date
+    const { data: allParticipants } = await supabase
+      .from('participants')
+      .select('*')
+      .eq('session_id', session.id)
+      .order('joined_at', { ascending: true });
+
+    if (!allParticipants) return;
+
+    set({ participants: allParticipants });
+    const me = allParticipants.find((p) => p.id === currentParticipant.id);
+    if (me) get().setCurrentParticipant(me);
+
+    // Only announce if the handoff actually happened (migration may have lost the race)
+    const newHost = allParticipants.find((p) => p.id === newHostId);
+    const { realtime } = get();
+    if (realtime && newHost?.is_host) {
+      await realtime.broadcast.send('host_changed', {
+        session_id: session.id,
+        previous_host_id: previousHost?.id ?? null,
+        new_host_id: newHost.id,
+        new_host_name: newHost.user_name || 'Unknown',
+        reason,
+        timestamp: Date.now(),
+      });
+      console.log(`[Store] Host ${reason} broadcasted to all users`);
+    }
+  },
+
+  sendHostHeartbeat: async () => {
+    const { session, currentParticipant } = get();
+    if (!session || !currentParticipant?.is_host) return;
+
+    // Keeps transfer_host() from letting anyone else take over while we're here
+    const response = await fetch(`/api/sessions/${session.id}/heartbeat`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({ participantId: currentParticipant.id }),
+    });
+
+    if (!response.ok) {
+      const result = await response.json();
+      console.error('Error sending host heartbeat:', result.error);
+    }
+  },
+
+  updateSettings: async (updates) => {
+    const { session, currentParticipant } = get();
+    if (!session || !currentParticipant) return;
+
+    // Merge into the existing settings so other keys are preserved
+    const settings = { ...getSessionSettings(session.settings), ...updates };
+
+    // Settings drive limits the database enforces, so only the host may change them
+    const response = await fetch(`/api/sessions/${session.id}/settings`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        participantId: currentParticipant.id,
+        settings: toSettingsJson(settings),
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Error updating settings:', result.error);
+      throw new Error(result.error || 'Failed to update settings');
+    }
+
+    set({ session: result.session as Session });
+    console.log('[Store] Session settings updated:', updates);
+  },
+
   toggleInfiniteMode: async () => {
     const { session } = get();
     if (!session) return;
@@ -587,7 +1101,41 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   },
 
   addSong: async (song) => {
-    const { realtime, currentParticipant, awardKarma } = get();
+    const { realtime, currentParticipant, rounds, songs, perkPurchases } = get();
+
+    if (!isMusicSource(song.source)) {
+      throw new Error(`Unsupported music source: ${song.source}`);
+    }
+
+    // Per-session quota incl. bought extra slots (also enforced by the enforce_song_quota trigger)
+    const settings = getSessionSettings(get().session?.settings);
+    if (getRemainingSongCount(settings, songs, song.added_by, perkPurchases) === 0) {
+      const quota = settings.songsPerParticipant + countPerks(perkPurchases, song.added_by, 'extra_slot');
+      throw new Error(`You can only add ${quota} songs to this session`);
+    }
+
+    // Likely duplicates (another upload or source of a queued song) when the host blocks them
+    const duplicate = settings.blockDuplicateSongs ? songs.find((s) => isSameSong(song, s)) : undefined;
+    if (duplicate) {
+      throw new Error(`"${duplicate.title}" by ${duplicate.artist} is already in the queue`);
+    }
+
+    // Rounds: enforce the round's quota and keep rounds that already played closed
+    const round = song.round_id ? rounds.find((r) => r.id === song.round_id) : undefined;
+    if (rounds.length > 0 && !round) {
+      throw new Error('Pick a round for this song');
+    }
+    if (round) {
+      const { session } = get();
+      if (countRoundSongs(songs, round.id, song.added_by) >= round.songs_per_participant) {
+        throw new Error(
+          `You already added ${round.songs_per_participant} ${round.songs_per_participant === 1 ? 'song' : 'songs'} to "${round.name}"`
+        );
+      }
+      if (session && isRoundPlayed(round, songs, session.current_song_index)) {
+        throw new Error(`"${round.name}" has already been played`);
+      }
+    }
 
     // eslint-disable-next-line @typescript-eslint/ban-ts-comment
     // @ts-ignore - Supabase types issue
@@ -595,13 +1143,12 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
     if (error) {
       console.error('Error adding song:', error);
+      // Quota violations carry a readable message from the trigger
+      if (error.code === '23514') throw new Error(error.message);
       throw error;
     }
 
-    // Award karma for adding a song
-    if (song.added_by) {
-      await awardKarma(song.added_by, 2, `Added song "${song.title}"`);
-    }
+    // Karma for adding a song is awarded by the award_song_karma trigger
 
     // Manually reload songs to update UI immediately
     // (in case realtime subscription is slow or not working)
@@ -617,13 +1164,21 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         console.log('[Store] Manually reloaded songs after insert:', allSongs.length);
         set({ songs: allSongs });
 
+        // New songs are appended - move them to the end of their round
+        const ordered = orderSongsByRound(allSongs, rounds);
+        if (ordered.some((s, index) => s.id !== allSongs[index].id)) {
+          await get().reorderSongs(ordered);
+        }
+
         // Broadcast song addition to all users for INSTANT updates!
         if (realtime && currentParticipant && data) {
+          const { blindMode } = getSessionSettings(session.settings);
           await realtime.broadcast.send('song_added', {
             song_id: data.id,
             title: data.title,
             artist: data.artist,
-            added_by: currentParticipant.user_name || 'Unknown',
+            // Blind mode: don't leak the submitter before the song is scored
+            added_by: blindMode ? HIDDEN_SUBMITTER_NAME : currentParticipant.user_name || 'Unknown',
             timestamp: Date.now(),
           });
           console.log('[Store] Song addition broadcasted to all users');
@@ -632,6 +1187,121 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     }
   },
 
+  importSongs: async (source: MusicSource, trackIds: string[], roundId?: string) => {
+    const { session, currentParticipant, rounds } = get();
+    if (!session || !currentParticipant) return { added: 0, skipped: 0 };
+
+    if (rounds.length > 0 && !roundId) {
+      throw new Error('Pick a round for these songs');
+    }
+
+    // Server re-checks durations and quotas and inserts the batch in one transaction
+    const response = await fetch('/api/songs/import-playlist', {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        sessionId: session.id,
+        participantId: currentParticipant.id,
+        roundId: roundId ?? null,
+        source,
+        trackIds,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Error importing songs:', result.error);
+      throw new Error(result.error || 'Failed to add songs');
+    }
+
+    const added = result.songs as Song[];
+    console.log(`[Store] Imported ${added.length} songs (${result.skipped} skipped)`);
+
+    if (added.length === 0) return { added: 0, skipped: result.skipped };
+
+    const { data: allSongs } = await supabase
+      .from('songs')
+      .select('*')
+      .eq('session_id', session.id)
+      .order('position', { ascending: true });
+
+    if (allSongs) {
+      set({ songs: allSongs });
+
+      // New songs are appended - move them to the end of their round
+      const ordered = orderSongsByRound(allSongs, rounds);
+      if (ordered.some((s, index) => s.id !== allSongs[index].id)) {
+        await get().reorderSongs(ordered);
+      }
+    }
+
+    // One broadcast is enough - receivers reload the whole queue
+    const { realtime } = get();
+    if (realtime) {
+      const last = added[added.length - 1];
+      const { blindMode } = getSessionSettings(session.settings);
+      await realtime.broadcast.send('song_added', {
+        song_id: last.id,
+        title: added.length === 1 ? last.title : `${added.length} songs`,
+        artist: last.artist,
+        // Blind mode: don't leak the submitter before the song is scored
+        added_by: blindMode ? HIDDEN_SUBMITTER_NAME : currentParticipant.user_name || 'Unknown',
+        timestamp: Date.now(),
+      });
+      console.log('[Store] Song import broadcasted to all users');
+    }
+
+    return { added: added.length, skipped: result.skipped };
+  },
+
+  autofillQueue: async () => {
+    const { session, currentParticipant } = get();
+    if (!session || !currentParticipant) return 0;
+
+    // Server picks the songs and adds them for the DJ participant
+    const response = await fetch(`/api/sessions/${session.id}/autofill`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({ participantId: currentParticipant.id }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Error filling queue:', result.error);
+      throw new Error(result.error || 'Failed to fill the queue');
+    }
+
+    const added = result.songs as Song[];
+    if (added.length === 0) return 0;
+
+    console.log(`[Store] Infinite mode added ${added.length} songs`);
+
+    const { data: allSongs } = await supabase
+      .from('songs')
+      .select('*')
+      .eq('session_id', session.id)
+      .order('position', { ascending: true });
+
+    if (allSongs) set({ songs: allSongs });
+
+    const { realtime } = get();
+    if (realtime) {
+      const last = added[added.length - 1];
+      await realtime.broadcast.send('song_added', {
+        song_id: last.id,
+        title: added.length === 1 ? last.title : `${added.length} songs`,
+        artist: last.artist,
+        added_by: DJ_NAME,
+        timestamp: Date.now(),
+      });
+      console.log('[Store] Infinite mode songs broadcasted to all users');
+    }
+
+    return added.length;
+  },
+
   removeSong: async (songId: string) => {
     const { error } = await supabase.from('songs').delete().eq('id', songId);
 
@@ -694,12 +1364,9 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       return;
     }
 
-    // Fisher-Yates shuffle algorithm
-    const shuffled = [...songs];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
+    // Rounds stay in order - only songs inside a round get shuffled
+    const { rounds } = get();
+    const shuffled = shuffleSongsByRound(songs, rounds);
 
     // Use reorderSongs to update positions
     const reorderSongs = get().reorderSongs;
@@ -708,8 +1375,100 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     console.log('[Store] Queue shuffled');
   },
 
+  addRound: async (round) => {
+    const { session, rounds } = get();
+    if (!session) return;
+
+    const position = rounds.length > 0 ? Math.max(...rounds.map((r) => r.position)) + 1 : 0;
+
+    const { error } = await supabase
+      .from('rounds')
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore - Supabase types issue
+      .insert([{ ...round, session_id: session.id, position }]);
+
+    if (error) {
+      console.error('Error adding round:', error);
+      throw error;
+    }
+
+    const { data } = await supabase
+      .from('rounds')
+      .select('*')
+      .eq('session_id', session.id)
+      .order('position', { ascending: true });
+
+    if (data) {
+      set({ rounds: data });
+    }
+  },
+
+  removeRound: async (roundId: string) => {
+    const { session } = get();
+    if (!session) return;
+
+    // Songs in the round are kept (round_id is set to NULL)
+    const { error } = await supabase.from('rounds').delete().eq('id', roundId);
+
+    if (error) {
+      console.error('Error removing round:', error);
+      throw error;
+    }
+
+    const { data } = await supabase
+      .from('rounds')
+      .select('*')
+      .eq('session_id', session.id)
+      .order('position', { ascending: true });
+
+    if (data) {
+      set({
+        rounds: data,
+        songs: get().songs.map((s) => (s.round_id === roundId ? { ...s, round_id: null } : s)),
+      });
+    }
+  },
+
   addScore: async (score) => {
-    const { realtime, currentParticipant, scores, songs, awardKarma } = get();
+    const { realtime, currentParticipant, scores } = get();
+
+    // Changing an existing rating (allowed until the voting window closes)
+    const existing = scores.find(
+      (s) => s.song_id === score.song_id && s.participant_id === score.participant_id
+    );
+    if (existing) {
+      const { error } = await supabase
+        .from('scores')
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore - Supabase types issue
+        .update({ rating: score.rating })
+        .eq('id', existing.id);
+
+      if (error) {
+        console.error('Error updating score:', error);
+        // Voting window violations carry a readable message from the trigger
+        if (error.code === '55000') throw new Error(error.message);
+        throw error;
+      }
+
+      set({
+        scores: get().scores.map((s) => (s.id === existing.id ? { ...s, rating: score.rating } : s)),
+      });
+
+      // No karma for changing a vote - only the first vote counts
+      if (realtime && currentParticipant) {
+        await realtime.broadcast.send('score_added', {
+          score_id: existing.id,
+          song_id: existing.song_id,
+          participant_id: existing.participant_id,
+          participant_name: currentParticipant.user_name || 'Unknown',
+          rating: score.rating,
+          timestamp: Date.now(),
+        });
+        console.log('[Store] Score change broadcasted to all users');
+      }
+      return;
+    }
 
     const { error, data } = await supabase
       .from('scores')
@@ -721,6 +1480,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
     if (error) {
       console.error('Error adding score:', error);
+      if (error.code === '55000') throw new Error(error.message);
       throw error;
     }
 
@@ -731,17 +1491,8 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     if (scoreData) {
       set({ scores: [...scores, scoreData] });
 
-      // Award karma for voting
-      await awardKarma(scoreData.participant_id, 1, 'Voted on a song');
-
-      // Award bonus karma to song creator if they got a high rating (4-5 stars)
-      if (scoreData.rating >= 4) {
-        const song = songs.find(s => s.id === scoreData.song_id);
-        if (song && song.added_by !== scoreData.participant_id) {
-          const karmaBonus = scoreData.rating === 5 ? 3 : 2;
-          await awardKarma(song.added_by, karmaBonus, `Song "${song.title}" received ${scoreData.rating} stars`);
-        }
-      }
+      // Karma for the vote (and the 4-5 star bonus for the song's owner)
+      // is awarded by the award_score_karma trigger
 
       // Broadcast the score to all other users for INSTANT updates!
       if (realtime && currentParticipant) {
@@ -758,6 +1509,34 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     }
   },
 
+  submitBallot: async (ranking) => {
+    const { session, currentParticipant, ballots } = get();
+    if (!session || !currentParticipant) return;
+
+    const { data, error } = await supabase
+      .from('ballots')
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore - Supabase types issue
+      .upsert(
+        [{ session_id: session.id, participant_id: currentParticipant.id, ranking }],
+        { onConflict: 'session_id,participant_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error submitting ballot:', error);
+      // Invalid rankings carry a readable message from the trigger
+      if (error.code === '22023') throw new Error(error.message);
+      throw error;
+    }
+
+    const ballot = data as Ballot;
+    set({
+      ballots: [...ballots.filter((b) => b.participant_id !== ballot.participant_id), ballot],
+    });
+  },
+
   addSkipVote: async (songId: string) => {
     const { session, currentParticipant, realtime } = get();
     if (!session || !currentParticipant) return;
@@ -1026,94 +1805,244 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     }
   },
 
-  forcePlaySong: async (songId: string, participantId: string) => {
-    const { session, songs } = get();
-    if (!session) return;
+  forcePlaySong: async (songId: string, mode: ForcePlayMode = 'now') => {
+    const { session, songs, currentParticipant } = get();
+    if (!session || !currentParticipant) return;
 
-    // Find the song position
     const song = songs.find((s) => s.id === songId);
     if (!song) return;
 
-    // Record the force play
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore - Supabase types issue
-    await supabase.from('force_plays').insert([
-      {
+    // Server checks ownership, tokens and cooldown, then moves the song up
+    const response = await fetch(`/api/sessions/${session.id}/force-play`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        participantId: currentParticipant.id,
+        songId,
+        mode,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Error using force play:', result.error);
+      throw new Error(result.error || 'Failed to force play song');
+    }
+
+    const updated = result.session as Session;
+
+    // Reload the reordered queue and force plays (starts the cooldown)
+    const { data: allSongs } = await supabase
+      .from('songs')
+      .select('*')
+      .eq('session_id', session.id)
+      .order('position', { ascending: true });
+
+    const { data: allForcePlays } = await supabase
+      .from('force_plays')
+      .select('*')
+      .eq('session_id', session.id);
+
+    const notice: BroadcastEvents['force_play_used'] = {
+      session_id: session.id,
+      participant_id: currentParticipant.id,
+      participant_name: currentParticipant.user_name || 'Unknown',
+      song_id: song.id,
+      song_title: song.title,
+      mode,
+      timestamp: Date.now(),
+    };
+
+    set({
+      session: updated,
+      songs: allSongs || songs,
+      forcePlays: allForcePlays || get().forcePlays,
+      lastForcePlay: notice,
+    });
+    console.log(`[Store] Force play (${mode}) used on "${song.title}"`);
+
+    const { realtime } = get();
+    if (!realtime) return;
+
+    await realtime.broadcast.send('force_play_used', notice);
+    console.log('[Store] Force play broadcasted to all users');
+
+    if (mode === 'now' && updated.current_song_index !== null) {
+      await realtime.broadcast.send('song_changed', {
         session_id: session.id,
-        participant_id: participantId,
-        song_id: songId,
-      },
-    ]);
+        song_id: song.id,
+        song_index: updated.current_song_index,
+        started_at: updated.current_song_started_at || new Date().toISOString(),
+        host_id: session.host_id,
+        timestamp: Date.now(),
+      });
+    }
+  },
+
+  buyPerk: async (perk: PerkType, targetId?: string) => {
+    const { session, currentParticipant, chatMessages } = get();
+    if (!session || !currentParticipant) return;
 
-    // Update current song index to the forced song
-    await get().updateSession({
-      current_song_index: song.position,
-      current_song_started_at: new Date().toISOString(),
+    // Server checks the balance, applies the perk and records the spend
+    const response = await fetch(`/api/sessions/${session.id}/perks`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        participantId: currentParticipant.id,
+        perk,
+        targetId,
+      }),
     });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      console.error('Error buying perk:', result.error);
+      throw new Error(result.error || 'Failed to buy perk');
+    }
+
+    const { data: allPerkPurchases } = await supabase
+      .from('perk_purchases')
+      .select('*')
+      .eq('session_id', session.id);
+
+    if (allPerkPurchases) set({ perkPurchases: allPerkPurchases });
+
+    if (perk === 'veto') {
+      const { data: allSongs } = await supabase
+        .from('songs')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('position', { ascending: true });
+
+      if (allSongs) set({ songs: allSongs });
+    }
+
+    const pinnedSongId =
+      perk === 'pin_chat' ? chatMessages.find((m) => m.id === targetId)?.song_id ?? null : null;
+
+    if (pinnedSongId) {
+      await get().loadChatMessages(pinnedSongId);
+    }
+
+    console.log(`[Store] Bought perk ${perk}`);
+
+    const { realtime } = get();
+    if (!realtime) return;
+
+    await realtime.broadcast.send('perk_bought', {
+      session_id: session.id,
+      participant_id: currentParticipant.id,
+      participant_name: currentParticipant.user_name || 'Unknown',
+      perk,
+      target_id: targetId ?? null,
+      song_id: pinnedSongId,
+      timestamp: Date.now(),
+    });
+    console.log('[Store] Perk purchase broadcasted to all users');
   },
 
   nextSong: async () => {
-    const { session, songs } = get();
+    const { session } = get();
     if (!session || session.current_song_index === null) return;
 
-    const nextIndex = session.current_song_index + 1;
+    const { songs, rounds } = get();
+    const previousRound = getRoundAtIndex(songs, rounds, session.current_song_index);
 
-    if (nextIndex >= songs.length) {
-      // End of session
-      await get().updateSession({ status: 'finished' });
-    } else {
-      await get().updateSession({
-        current_song_index: nextIndex,
-        current_song_started_at: new Date().toISOString(),
+    // Server moves to the next song, or finishes the session after the last one
+    await get().transitionSession('advance');
+
+    // Announce when the queue crossed into a new round
+    // (only the client whose advance went through sees the index change here)
+    const { session: updated, realtime } = get();
+    if (!realtime || updated?.status !== 'playing') return;
+    if (updated.current_song_index === session.current_song_index) return;
+
+    const round = getRoundAtIndex(get().songs, rounds, updated.current_song_index);
+    if (round && round.id !== previousRound?.id) {
+      await realtime.broadcast.send('round_started', {
+        session_id: session.id,
+        round_id: round.id,
+        round_name: round.name,
+        prompt: round.prompt,
+        timestamp: Date.now(),
       });
+      console.log(`[Store] Round "${round.name}" start broadcasted to all users`);
     }
   },
 
-  awardKarma: async (participantId: string, amount: number, reason: string) => {
-    const { session, participants } = get();
-    if (!session) return;
+  rewindSong: async (action, reason) => {
+    const { session } = get();
+    if (!session || session.current_song_index === null) return;
 
-    try {
-      // 1. Add karma history entry
-      const { error: historyError } = await supabase
-        .from('karma_history')
-        .insert({
-          participant_id: participantId,
-          session_id: session.id,
-          amount,
-          reason,
-        });
+    // Server rewinds (host only) and keeps the song's scores, reactions and chat
+    await get().transitionSession(action, { reason });
 
-      if (historyError) {
-        console.error('Error adding karma history:', historyError);
-        return;
-      }
+    // Its old skip votes were cleared with the rewind
+    const { session: updated, songs } = get();
+    const song = updated && updated.current_song_index !== null ? songs[updated.current_song_index] : undefined;
+    if (song) {
+      set({ skipVotes: get().skipVotes.filter((v) => v.song_id !== song.id) });
+    }
+  },
 
-      // 2. Update participant's total karma
-      const participant = participants.find(p => p.id === participantId);
-      if (!participant) return;
+  reportUnplayableSong: async (songId, reason, errorCode) => {
+    const { session, currentParticipant, realtime, unplayableReports } = get();
+    if (!session || !currentParticipant) return;
 
-      const newKarma = (participant.karma || 0) + amount;
+    const report: BroadcastEvents['song_unplayable'] = {
+      session_id: session.id,
+      song_id: songId,
+      participant_id: currentParticipant.id,
+      participant_name: currentParticipant.user_name || 'Unknown',
+      error_code: errorCode ?? null,
+      reason,
+      timestamp: Date.now(),
+    };
 
-      const { error: updateError } = await supabase
-        .from('participants')
-        .update({ karma: newKarma })
-        .eq('id', participantId);
+    const known = unplayableReports.some(
+      (r) => r.song_id === songId && r.participant_id === currentParticipant.id
+    );
+    if (known) return;
 
-      if (updateError) {
-        console.error('Error updating participant karma:', updateError);
-        return;
-      }
+    set({ unplayableReports: [...unplayableReports, report] });
+
+    if (realtime) {
+      await realtime.broadcast.send('song_unplayable', report);
+      console.log('[Store] Unplayable song broadcasted to all users');
+    }
+
+    // A listener's player can fail on its own (region, browser) - the room only
+    // moves on when the host's player fails too
+    if (!currentParticipant.is_host) return;
+
+    const response = await fetch(`/api/sessions/${session.id}/unplayable`, {
+      method: 'POST',
+      headers: participantHeaders(),
+      body: JSON.stringify({
+        participantId: currentParticipant.id,
+        songId,
+        reason,
+      }),
+    });
 
-      // 3. Update local state
-      const updatedParticipants = participants.map(p =>
-        p.id === participantId ? { ...p, karma: newKarma } : p
-      );
-      set({ participants: updatedParticipants });
+    const result = await response.json();
 
-      console.log(`[Store] Awarded ${amount} karma to participant ${participantId}: ${reason}`);
-    } catch (error) {
-      console.error('Error awarding karma:', error);
+    if (!response.ok) {
+      console.error('Error marking song as unplayable:', result.error);
+      throw new Error(result.error || 'Failed to mark song as unplayable');
+    }
+
+    const updated = result.song as Song;
+    set({ songs: get().songs.map((s) => (s.id === updated.id ? updated : s)) });
+    console.log('[Store] Song marked as unplayable:', updated.title);
+
+    // Skip it if it's still the song playing
+    const { session: current, songs } = get();
+    const playing = current && current.current_song_index !== null ? songs[current.current_song_index] : undefined;
+    if (current?.status === 'playing' && playing?.id === songId) {
+      await get().nextSong();
     }
   },
 
@@ -1123,8 +2052,15 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       session: null,
       participants: [],
       songs: [],
+      rounds: [],
       scores: [],
       skipVotes: [],
+      forcePlays: [],
+      lastForcePlay: null,
+      unplayableReports: [],
+      ballots: [],
+      perkPurchases: [],
+      playbackEvents: [],
       reactions: [],
       chatMessages: [],
       currentParticipant: null,
@@ -0,0 +1,20 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+
+/**
+ * Server-only Supabase client using the service role key.
+ * Created lazily so route handlers don't touch env vars at build time.
+ * Never import this from client components.
+ */
+export function getSupabaseAdmin() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+}
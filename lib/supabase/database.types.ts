@@ -90,12 +90,52 @@ export type Database = {
           },
         ]
       }
+      ballots: {
+        Row: {
+          created_at: string | null
+          id: string
+          participant_id: string
+          ranking: string[]
+          session_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          participant_id: string
+          ranking: string[]
+          session_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          participant_id?: string
+          ranking?: string[]
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ballots_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "participants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ballots_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_messages: {
         Row: {
           created_at: string | null
           id: string
           message: string
           participant_id: string
+          pinned_at: string | null
           session_id: string
           song_id: string
         }
@@ -104,6 +144,7 @@ export type Database = {
           id?: string
           message: string
           participant_id: string
+          pinned_at?: string | null
           session_id: string
           song_id: string
         }
@@ -112,6 +153,7 @@ export type Database = {
           id?: string
           message?: string
           participant_id?: string
+          pinned_at?: string | null
           session_id?: string
           song_id?: string
         }
@@ -142,6 +184,7 @@ export type Database = {
       force_plays: {
         Row: {
           id: string
+          mode: string
           participant_id: string
           session_id: string
           song_id: string
@@ -149,6 +192,7 @@ export type Database = {
         }
         Insert: {
           id?: string
+          mode?: string
           participant_id: string
           session_id: string
           song_id: string
@@ -156,6 +200,7 @@ export type Database = {
         }
         Update: {
           id?: string
+          mode?: string
           participant_id?: string
           session_id?: string
           song_id?: string
@@ -286,6 +331,7 @@ export type Database = {
       karma_history: {
         Row: {
           amount: number
+          award_key: string | null
           created_at: string | null
           id: string
           participant_id: string
@@ -294,6 +340,7 @@ export type Database = {
         }
         Insert: {
           amount: number
+          award_key?: string | null
           created_at?: string | null
           id?: string
           participant_id: string
@@ -302,6 +349,7 @@ export type Database = {
         }
         Update: {
           amount?: number
+          award_key?: string | null
           created_at?: string | null
           id?: string
           participant_id?: string
@@ -325,13 +373,41 @@ export type Database = {
           },
         ]
       }
+      participant_secrets: {
+        Row: {
+          created_at: string | null
+          participant_id: string
+          secret_hash: string
+        }
+        Insert: {
+          created_at?: string | null
+          participant_id: string
+          secret_hash: string
+        }
+        Update: {
+          created_at?: string | null
+          participant_id?: string
+          secret_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "participant_secrets_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: true
+            referencedRelation: "participants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       participants: {
         Row: {
           avatar_url: string | null
           id: string
+          is_dj: boolean
           is_host: boolean | null
           joined_at: string | null
           karma: number | null
+          last_seen_at: string | null
           session_id: string
           user_id: string | null
           user_name: string | null
@@ -339,9 +415,11 @@ export type Database = {
         Insert: {
           avatar_url?: string | null
           id?: string
+          is_dj?: boolean
           is_host?: boolean | null
           joined_at?: string | null
           karma?: number | null
+          last_seen_at?: string | null
           session_id: string
           user_id?: string | null
           user_name?: string | null
@@ -349,9 +427,11 @@ export type Database = {
         Update: {
           avatar_url?: string | null
           id?: string
+          is_dj?: boolean
           is_host?: boolean | null
           joined_at?: string | null
           karma?: number | null
+          last_seen_at?: string | null
           session_id?: string
           user_id?: string | null
           user_name?: string | null
@@ -373,6 +453,105 @@ export type Database = {
           },
         ]
       }
+      perk_purchases: {
+        Row: {
+          cost: number
+          created_at: string | null
+          id: string
+          participant_id: string
+          perk: string
+          session_id: string
+          target_id: string | null
+        }
+        Insert: {
+          cost: number
+          created_at?: string | null
+          id?: string
+          participant_id: string
+          perk: string
+          session_id: string
+          target_id?: string | null
+        }
+        Update: {
+          cost?: number
+          created_at?: string | null
+          id?: string
+          participant_id?: string
+          perk?: string
+          session_id?: string
+          target_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "perk_purchases_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "participants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "perk_purchases_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      playback_events: {
+        Row: {
+          created_at: string | null
+          end_reason: string | null
+          ended_at: string | null
+          id: string
+          played_seconds: number | null
+          session_id: string
+          song_id: string
+          song_index: number
+          start_reason: string
+          started_at: string
+        }
+        Insert: {
+          created_at?: string | null
+          end_reason?: string | null
+          ended_at?: string | null
+          id?: string
+          played_seconds?: number | null
+          session_id: string
+          song_id: string
+          song_index: number
+          start_reason: string
+          started_at: string
+        }
+        Update: {
+          created_at?: string | null
+          end_reason?: string | null
+          ended_at?: string | null
+          id?: string
+          played_seconds?: number | null
+          session_id?: string
+          song_id?: string
+          song_index?: number
+          start_reason?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playback_events_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "playback_events_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reactions: {
         Row: {
           created_at: string | null
@@ -422,6 +601,47 @@ export type Database = {
           },
         ]
       }
+      rounds: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          ordering: string
+          position: number
+          prompt: string | null
+          session_id: string
+          songs_per_participant: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          ordering?: string
+          position: number
+          prompt?: string | null
+          session_id: string
+          songs_per_participant?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          ordering?: string
+          position?: number
+          prompt?: string | null
+          session_id?: string
+          songs_per_participant?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rounds_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scores: {
         Row: {
           created_at: string | null
@@ -518,12 +738,15 @@ export type Database = {
           current_song_index: number | null
           current_song_started_at: string | null
           expires_at: string | null
+          finished_at: string | null
           host_id: string
           id: string
           infinite_mode: boolean | null
           last_activity_at: string | null
           min_queue_size: number | null
           name: string
+          paused_at: string | null
+          position_offset: number
           session_code: string
           settings: Json | null
           status: string | null
@@ -534,12 +757,15 @@ export type Database = {
           current_song_index?: number | null
           current_song_started_at?: string | null
           expires_at?: string | null
+          finished_at?: string | null
           host_id: string
           id?: string
           infinite_mode?: boolean | null
           last_activity_at?: string | null
           min_queue_size?: number | null
           name: string
+          paused_at?: string | null
+          position_offset?: number
           session_code: string
           settings?: Json | null
           status?: string | null
@@ -550,12 +776,15 @@ export type Database = {
           current_song_index?: number | null
           current_song_started_at?: string | null
           expires_at?: string | null
+          finished_at?: string | null
           host_id?: string
           id?: string
           infinite_mode?: boolean | null
           last_activity_at?: string | null
           min_queue_size?: number | null
           name?: string
+          paused_at?: string | null
+          position_offset?: number
           session_code?: string
           settings?: Json | null
           status?: string | null
@@ -609,6 +838,61 @@ export type Database = {
           },
         ]
       }
+      song_replays: {
+        Row: {
+          action: string
+          created_at: string | null
+          from_index: number | null
+          id: string
+          participant_id: string | null
+          reason: string | null
+          session_id: string
+          song_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          from_index?: number | null
+          id?: string
+          participant_id?: string | null
+          reason?: string | null
+          session_id: string
+          song_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          from_index?: number | null
+          id?: string
+          participant_id?: string | null
+          reason?: string | null
+          session_id?: string
+          song_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "song_replays_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "participants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "song_replays_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "song_replays_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       songs: {
         Row: {
           added_by: string
@@ -618,10 +902,14 @@ export type Database = {
           duration: number
           id: string
           position: number
+          raw_title: string | null
+          round_id: string | null
           session_id: string
           source: string
           source_id: string
+          status: string
           title: string
+          unplayable_reason: string | null
         }
         Insert: {
           added_by: string
@@ -631,10 +919,14 @@ export type Database = {
           duration: number
           id?: string
           position: number
+          raw_title?: string | null
+          round_id?: string | null
           session_id: string
           source: string
           source_id: string
+          status?: string
           title: string
+          unplayable_reason?: string | null
         }
         Update: {
           added_by?: string
@@ -644,10 +936,14 @@ export type Database = {
           duration?: number
           id?: string
           position?: number
+          raw_title?: string | null
+          round_id?: string | null
           session_id?: string
           source?: string
           source_id?: string
+          status?: string
           title?: string
+          unplayable_reason?: string | null
         }
         Relationships: [
           {
@@ -657,6 +953,13 @@ export type Database = {
             referencedRelation: "participants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "songs_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "rounds"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "songs_session_id_fkey"
             columns: ["session_id"]
@@ -734,12 +1037,324 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      session_leaderboard: {
+        Row: {
+          average_score: number | null
+          avatar_url: string | null
+          bayesian_score: number | null
+          normalized_score: number | null
+          participant_id: string | null
+          scoring_mode: string | null
+          session_id: string | null
+          songs_added: number | null
+          total_votes_received: number | null
+          user_name: string | null
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          average_score: number | null
+          image: string | null
+          member_since: string | null
+          name: string | null
+          sessions_played: number | null
+          songs_added: number | null
+          total_karma: number | null
+          user_id: string | null
+          votes_received: number | null
+          wins: number | null
+        }
+        Relationships: []
+      }
+      user_session_stats: {
+        Row: {
+          average_score: number | null
+          is_host: boolean | null
+          karma: number | null
+          participant_id: string | null
+          place: number | null
+          played_at: string | null
+          session_id: string | null
+          session_name: string | null
+          session_status: string | null
+          songs_added: number | null
+          total_votes_received: number | null
+          user_id: string | null
+          won: boolean | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      advance_due_sessions: { Args: never; Returns: number }
+      add_songs: {
+        Args: {
+          p_participant_id: string
+          p_round_id?: string
+          p_session_id: string
+          p_songs: Json
+        }
+        Returns: {
+          added_by: string
+          album_art: string | null
+          artist: string
+          created_at: string | null
+          duration: number
+          id: string
+          position: number
+          raw_title: string | null
+          round_id: string | null
+          session_id: string
+          source: string
+          source_id: string
+          status: string
+          title: string
+          unplayable_reason: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "songs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      autofill_queue: {
+        Args: {
+          p_session_id: string
+          p_songs: Json
+        }
+        Returns: {
+          added_by: string
+          album_art: string | null
+          artist: string
+          created_at: string | null
+          duration: number
+          id: string
+          position: number
+          raw_title: string | null
+          round_id: string | null
+          session_id: string
+          source: string
+          source_id: string
+          status: string
+          title: string
+          unplayable_reason: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "songs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      award_karma: {
+        Args: {
+          p_amount: number
+          p_award_key?: string
+          p_participant_id: string
+          p_reason: string
+        }
+        Returns: number
+      }
+      buy_perk: {
+        Args: {
+          p_participant_id: string
+          p_perk: string
+          p_session_id: string
+          p_target_id?: string
+        }
+        Returns: {
+          cost: number
+          created_at: string | null
+          id: string
+          participant_id: string
+          perk: string
+          session_id: string
+          target_id: string | null
+        }
+      }
       cleanup_expired_sessions: { Args: never; Returns: number }
       count_active_sessions: { Args: never; Returns: number }
       generate_session_code: { Args: never; Returns: string }
+      perk_cost: { Args: { p_perk: string }; Returns: number }
+      control_playback: {
+        Args: {
+          p_action: string
+          p_participant_id: string
+          p_position?: number
+          p_session_id: string
+        }
+        Returns: {
+          created_at: string | null
+          current_song_index: number | null
+          current_song_started_at: string | null
+          expires_at: string | null
+          finished_at: string | null
+          host_id: string
+          id: string
+          infinite_mode: boolean | null
+          last_activity_at: string | null
+          min_queue_size: number | null
+          name: string
+          paused_at: string | null
+          position_offset: number
+          session_code: string
+          settings: Json | null
+          status: string | null
+          updated_at: string | null
+        }
+      }
+      is_dj_participant: {
+        Args: { p_participant_id: string }
+        Returns: boolean
+      }
+      mark_song_unplayable: {
+        Args: {
+          p_participant_id: string
+          p_reason?: string
+          p_session_id: string
+          p_song_id: string
+        }
+        Returns: {
+          added_by: string
+          album_art: string | null
+          artist: string
+          created_at: string | null
+          duration: number
+          id: string
+          position: number
+          raw_title: string | null
+          round_id: string | null
+          session_id: string
+          source: string
+          source_id: string
+          status: string
+          title: string
+          unplayable_reason: string | null
+        }
+      }
+      perk_count: {
+        Args: { p_participant_id: string; p_perk: string }
+        Returns: number
+      }
+      reconcile_karma: { Args: { p_session_id?: string }; Returns: number }
+      server_now: { Args: never; Returns: number }
+      touch_participant: {
+        Args: {
+          p_participant_id: string
+          p_session_id: string
+        }
+        Returns: string
+      }
+      transfer_host: {
+        Args: {
+          p_expected_host_id?: string
+          p_new_host_id: string
+          p_participant_id: string
+          p_session_id: string
+        }
+        Returns: {
+          created_at: string | null
+          current_song_index: number | null
+          current_song_started_at: string | null
+          expires_at: string | null
+          finished_at: string | null
+          host_id: string
+          id: string
+          infinite_mode: boolean | null
+          last_activity_at: string | null
+          min_queue_size: number | null
+          name: string
+          paused_at: string | null
+          position_offset: number
+          session_code: string
+          settings: Json | null
+          status: string | null
+          updated_at: string | null
+        }
+      }
+      transition_session: {
+        Args: {
+          p_action: string
+          p_expected_index?: number
+          p_participant_id: string
+          p_reason?: string
+          p_session_id: string
+        }
+        Returns: {
+          created_at: string | null
+          current_song_index: number | null
+          current_song_started_at: string | null
+          expires_at: string | null
+          finished_at: string | null
+          host_id: string
+          id: string
+          infinite_mode: boolean | null
+          last_activity_at: string | null
+          min_queue_size: number | null
+          name: string
+          paused_at: string | null
+          position_offset: number
+          session_code: string
+          settings: Json | null
+          status: string | null
+          updated_at: string | null
+        }
+      }
+      update_session_settings: {
+        Args: {
+          p_participant_id: string
+          p_session_id: string
+          p_settings: Json
+        }
+        Returns: {
+          created_at: string | null
+          current_song_index: number | null
+          current_song_started_at: string | null
+          expires_at: string | null
+          finished_at: string | null
+          host_id: string
+          id: string
+          infinite_mode: boolean | null
+          last_activity_at: string | null
+          min_queue_size: number | null
+          name: string
+          paused_at: string | null
+          position_offset: number
+          session_code: string
+          settings: Json | null
+          status: string | null
+          updated_at: string | null
+        }
+      }
+      use_force_play: {
+        Args: {
+          p_mode: string
+          p_participant_id: string
+          p_session_id: string
+          p_song_id: string
+        }
+        Returns: {
+          created_at: string | null
+          current_song_index: number | null
+          current_song_started_at: string | null
+          expires_at: string | null
+          finished_at: string | null
+          host_id: string
+          id: string
+          infinite_mode: boolean | null
+          last_activity_at: string | null
+          min_queue_size: number | null
+          name: string
+          paused_at: string | null
+          position_offset: number
+          session_code: string
+          settings: Json | null
+          status: string | null
+          updated_at: string | null
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,16 @@
+/**
+ * Maps the Postgres error codes raised by our database functions
+ * and triggers (transition_session, transfer_host, enforce_song_quota, ...) to HTTP statuses.
+ * Anything unknown is treated as a server error.
+ */
+const STATUS_BY_PG_CODE: Record<string, number> = {
+  P0002: 404, // session, participant or song not found
+  '42501': 403, // not allowed (not host / not a participant)
+  '55000': 409, // invalid state for this action
+  '22023': 400, // invalid argument
+  '23514': 409, // limit reached (song quota, ...)
+};
+
+export function httpStatusForPgError(code: string | undefined): number {
+  return (code && STATUS_BY_PG_CODE[code]) || 500;
+}
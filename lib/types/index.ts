@@ -10,7 +10,7 @@ export interface Song {
   artist: string;
   albumArt?: string;
   duration: number;
-  source: 'spotify' | 'youtube';
+  source: 'spotify' | 'youtube' | 'soundcloud';
   sourceId: string;
   addedBy: string;
 }
@@ -39,10 +39,18 @@ export interface SessionSettings {
   maxParticipants: number;
   allowForcePlay: boolean;
   forcePlayCooldown: number; // seconds
+  forcePlayTokens: number; // force plays each participant can use per session
   votingDuration: number; // seconds
   songsPerParticipant: number;
+  blindMode: boolean; // hide who added each song until it has been scored
+  scoringMode: ScoringMode; // formula used for the results (see lib/session/scoring.ts)
+  downweightFlaggedVotes: boolean; // count votes flagged by the fairness check at reduced weight
+  blockDuplicateSongs: boolean; // reject likely duplicates (see lib/music/duplicates.ts) instead of warning
 }
 
+// How results are computed - must match session_settings_are_valid() in the database
+export type ScoringMode = 'average' | 'bayesian' | 'normalized' | 'borda';
+
 export interface ForcePlayAction {
   userId: string;
   songId: string;
@@ -54,3 +62,26 @@ export interface SessionState {
   currentUser: User | null;
   isHost: boolean;
 }
+
+// Lifecycle transitions validated server-side by transition_session()
+export type SessionTransitionAction = 'start' | 'advance' | 'finish' | 'previous' | 'replay';
+
+// Host playback controls validated server-side by control_playback()
+export type PlaybackAction = 'pause' | 'resume' | 'seek';
+
+// Why a song started and stopped, recorded in playback_events by record_playback_event()
+export type PlaybackStartReason = 'start' | 'advance' | 'force_play' | 'previous' | 'replay';
+export type PlaybackEndReason =
+  | 'finished'
+  | 'skipped'
+  | 'unplayable'
+  | 'force_played'
+  | 'previous'
+  | 'replay'
+  | 'session_ended';
+
+// How a force play token is spent (see use_force_play())
+export type ForcePlayMode = 'next' | 'now';
+
+// Perks bought with karma (see buy_perk())
+export type PerkType = 'extra_slot' | 'force_play_token' | 'veto' | 'pin_chat';
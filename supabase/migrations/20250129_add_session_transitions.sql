@@ -0,0 +1,244 @@
+-- Server-authoritative session lifecycle
+-- Moves the waiting → playing → finished transitions and song advancement
+-- into Postgres so clients can no longer write lifecycle columns directly
+
+-- Guard: lifecycle columns can only change inside the transition functions below
+CREATE OR REPLACE FUNCTION guard_session_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_transition', true), '') <> 'on' AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.current_song_index IS DISTINCT FROM OLD.current_song_index
+    OR NEW.current_song_started_at IS DISTINCT FROM OLD.current_song_started_at
+  ) THEN
+    RAISE EXCEPTION 'Session lifecycle can only be changed through transition_session()'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_session_lifecycle ON sessions;
+CREATE TRIGGER guard_session_lifecycle
+  BEFORE UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_lifecycle();
+
+-- Returns the song at a queue index (songs ordered by position, same as the client)
+CREATE OR REPLACE FUNCTION session_song_at(p_session_id UUID, p_index INTEGER)
+RETURNS songs AS $$
+  SELECT *
+  FROM songs
+  WHERE session_id = p_session_id
+  ORDER BY position ASC, created_at ASC
+  OFFSET GREATEST(p_index, 0)
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Whether the current song has run its full duration on the server clock
+CREATE OR REPLACE FUNCTION session_song_is_due(p_session sessions, p_tolerance INTERVAL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_song songs;
+BEGIN
+  IF p_session.status <> 'playing' OR p_session.current_song_started_at IS NULL THEN
+    RETURN false;
+  END IF;
+
+  current_song := session_song_at(p_session.id, p_session.current_song_index);
+
+  -- The current song was removed: nothing left to wait for
+  IF current_song.id IS NULL THEN
+    RETURN true;
+  END IF;
+
+  RETURN p_session.current_song_started_at
+    + make_interval(secs => current_song.duration)
+    - p_tolerance <= NOW();
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Moves a playing session to its next song, or finishes it after the last one
+CREATE OR REPLACE FUNCTION advance_session_song(p_session sessions)
+RETURNS sessions AS $$
+DECLARE
+  song_count INTEGER;
+  next_index INTEGER;
+  result sessions;
+BEGIN
+  PERFORM set_config('beat_battle.allow_transition', 'on', true);
+
+  SELECT COUNT(*) INTO song_count FROM songs WHERE session_id = p_session.id;
+  next_index := COALESCE(p_session.current_song_index, -1) + 1;
+
+  IF next_index >= song_count THEN
+    UPDATE sessions
+    SET status = 'finished',
+        last_activity_at = NOW()
+    WHERE id = p_session.id
+    RETURNING * INTO result;
+  ELSE
+    UPDATE sessions
+    SET current_song_index = next_index,
+        current_song_started_at = NOW(),
+        last_activity_at = NOW()
+    WHERE id = p_session.id
+    RETURNING * INTO result;
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Single entry point for lifecycle changes requested by a participant
+--   start      - host only, waiting → playing on the first song
+--   advance    - host any time; others once the song is due or the skip threshold is met
+--   finish     - host only, ends the session
+-- p_expected_index makes 'advance' idempotent: if the session already moved past
+-- that index (another client got there first) the current row is returned unchanged.
+CREATE OR REPLACE FUNCTION transition_session(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_action TEXT,
+  p_expected_index INTEGER DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  p participants;
+  result sessions;
+  song_count INTEGER;
+  participant_count INTEGER;
+  skip_count INTEGER;
+  current_song songs;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO p FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  CASE p_action
+    WHEN 'start' THEN
+      IF NOT COALESCE(p.is_host, false) THEN
+        RAISE EXCEPTION 'Only the host can start the session' USING ERRCODE = '42501';
+      END IF;
+      IF s.status <> 'waiting' THEN
+        RAISE EXCEPTION 'Session has already started' USING ERRCODE = '55000';
+      END IF;
+
+      SELECT COUNT(*) INTO song_count FROM songs WHERE session_id = p_session_id;
+      IF song_count = 0 THEN
+        RAISE EXCEPTION 'Add at least one song before starting' USING ERRCODE = '55000';
+      END IF;
+
+      PERFORM set_config('beat_battle.allow_transition', 'on', true);
+      UPDATE sessions
+      SET status = 'playing',
+          current_song_index = 0,
+          current_song_started_at = NOW(),
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+      PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+    WHEN 'advance' THEN
+      IF s.status <> 'playing' THEN
+        RETURN s;
+      END IF;
+      IF p_expected_index IS NOT NULL AND p_expected_index IS DISTINCT FROM s.current_song_index THEN
+        RETURN s;
+      END IF;
+
+      IF NOT COALESCE(p.is_host, false) AND NOT session_song_is_due(s, INTERVAL '5 seconds') THEN
+        current_song := session_song_at(p_session_id, s.current_song_index);
+
+        SELECT COUNT(*) INTO participant_count FROM participants WHERE session_id = p_session_id;
+        SELECT COUNT(*) INTO skip_count
+        FROM skip_votes
+        WHERE session_id = p_session_id AND song_id = current_song.id;
+
+        IF skip_count = 0 OR skip_count < CEIL(participant_count * 0.5) THEN
+          RAISE EXCEPTION 'The current song has not finished yet' USING ERRCODE = '55000';
+        END IF;
+      END IF;
+
+      result := advance_session_song(s);
+
+    WHEN 'finish' THEN
+      IF NOT COALESCE(p.is_host, false) THEN
+        RAISE EXCEPTION 'Only the host can finish the session' USING ERRCODE = '42501';
+      END IF;
+      IF s.status = 'finished' THEN
+        RETURN s;
+      END IF;
+
+      PERFORM set_config('beat_battle.allow_transition', 'on', true);
+      UPDATE sessions
+      SET status = 'finished',
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+      PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+    ELSE
+      RAISE EXCEPTION 'Unknown transition: %', p_action USING ERRCODE = '22023';
+  END CASE;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Server clock: advance every playing session whose current song has ended.
+-- Gives clients a short grace period to advance on their own first.
+CREATE OR REPLACE FUNCTION advance_due_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  s sessions;
+  advanced_count INTEGER := 0;
+BEGIN
+  FOR s IN
+    SELECT * FROM sessions WHERE status = 'playing' FOR UPDATE SKIP LOCKED
+  LOOP
+    IF session_song_is_due(s, INTERVAL '-10 seconds') THEN
+      PERFORM advance_session_song(s);
+      advanced_count := advanced_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN advanced_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Expired sessions are finished by the cleanup job, which also needs to pass the guard
+DROP FUNCTION IF EXISTS cleanup_expired_sessions();
+CREATE OR REPLACE FUNCTION cleanup_expired_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  affected_count INTEGER;
+BEGIN
+  PERFORM set_config('beat_battle.allow_transition', 'on', true);
+
+  UPDATE sessions
+  SET status = 'finished'
+  WHERE expires_at < NOW()
+    AND status != 'finished';
+
+  GET DIAGNOSTICS affected_count = ROW_COUNT;
+
+  PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+  RETURN affected_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON FUNCTION transition_session IS 'Validates and applies session lifecycle transitions (start, advance, finish)';
+COMMENT ON FUNCTION advance_due_sessions IS 'Advances playing sessions whose current song has ended on the server clock';
@@ -0,0 +1,74 @@
+-- Host handoff and automatic host migration
+-- The host can hand the crown to another participant, and when the host
+-- disconnects the earliest-joined online participant claims it
+
+-- Transfer host to another participant of the session
+--   - the current host can transfer to anyone in the session
+--   - anyone else can only claim it for themselves, and only while
+--     p_expected_host_id is still the host (compare-and-swap, so two
+--     clients electing at the same time can't both win)
+CREATE OR REPLACE FUNCTION transfer_host(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_new_host_id UUID,
+  p_expected_host_id UUID DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  caller participants;
+  current_host_id UUID;
+  result sessions;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO caller FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM participants WHERE id = p_new_host_id AND session_id = p_session_id) THEN
+    RAISE EXCEPTION 'New host is not a participant of this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT id INTO current_host_id
+  FROM participants
+  WHERE session_id = p_session_id AND is_host = true
+  ORDER BY joined_at ASC
+  LIMIT 1;
+
+  IF current_host_id IS NOT DISTINCT FROM p_new_host_id THEN
+    RETURN s;
+  END IF;
+
+  IF NOT COALESCE(caller.is_host, false) THEN
+    IF p_new_host_id <> p_participant_id THEN
+      RAISE EXCEPTION 'Only the host can hand over the session' USING ERRCODE = '42501';
+    END IF;
+
+    -- Someone else already took over: nothing to do
+    IF current_host_id IS DISTINCT FROM p_expected_host_id THEN
+      RETURN s;
+    END IF;
+  END IF;
+
+  UPDATE participants
+  SET is_host = (id = p_new_host_id)
+  WHERE session_id = p_session_id
+    AND (is_host = true OR id = p_new_host_id);
+
+  UPDATE sessions
+  SET host_id = p_new_host_id,
+      last_activity_at = NOW()
+  WHERE id = p_session_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comment
+COMMENT ON FUNCTION transfer_host IS 'Hands the host role to another participant (explicit transfer or migration when the host disconnects)';
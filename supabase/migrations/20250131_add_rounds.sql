@@ -0,0 +1,36 @@
+-- Themed rounds
+-- A session can be split into rounds ("90s one-hit wonders", "songs for a road trip"),
+-- each with its own prompt, per-participant song quota and ordering
+
+CREATE TABLE IF NOT EXISTS rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  prompt TEXT,
+  songs_per_participant INTEGER NOT NULL DEFAULT 2 CHECK (songs_per_participant > 0),
+  ordering VARCHAR(20) NOT NULL DEFAULT 'shuffle' CHECK (ordering IN ('shuffle', 'added')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Songs belong to a round (NULL for sessions without rounds)
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES rounds(id) ON DELETE SET NULL;
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_rounds_session_position ON rounds(session_id, position);
+CREATE INDEX IF NOT EXISTS idx_songs_round_id ON songs(round_id);
+
+-- Enable RLS (permissive, same as the other session tables)
+ALTER TABLE rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on rounds" ON rounds
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Enable realtime for rounds
+ALTER PUBLICATION supabase_realtime ADD TABLE public.rounds;
+
+-- Add comments
+COMMENT ON TABLE rounds IS 'Themed rounds within a session, played in position order';
+COMMENT ON COLUMN rounds.songs_per_participant IS 'How many songs each participant may add to this round';
+COMMENT ON COLUMN rounds.ordering IS 'shuffle: songs are shuffled when the round starts, added: songs play in the order they were added';
+COMMENT ON COLUMN songs.round_id IS 'Round this song was submitted to. NULL when the session has no rounds.';
@@ -0,0 +1,151 @@
+-- Enforce session settings
+-- songsPerParticipant, allowForcePlay and forcePlayCooldown were stored in
+-- sessions.settings but never checked. They are now enforced by the database,
+-- so every client (and every code path) plays by the same rules.
+
+-- Read an integer setting, falling back to the default for older sessions
+CREATE OR REPLACE FUNCTION session_setting_int(p_settings JSONB, p_key TEXT, p_default INTEGER)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_settings -> p_key) = 'number' THEN (p_settings ->> p_key)::NUMERIC::INTEGER
+    ELSE p_default
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Read a boolean setting, falling back to the default for older sessions
+CREATE OR REPLACE FUNCTION session_setting_bool(p_settings JSONB, p_key TEXT, p_default BOOLEAN)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_settings -> p_key) = 'boolean' THEN (p_settings ->> p_key)::BOOLEAN
+    ELSE p_default
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Shape check for sessions.settings: known keys must have the right type and a sane range
+CREATE OR REPLACE FUNCTION session_settings_are_valid(p_settings JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT p_settings IS NULL OR (
+    jsonb_typeof(p_settings) = 'object'
+    AND (NOT p_settings ? 'maxParticipants'
+      OR (jsonb_typeof(p_settings -> 'maxParticipants') = 'number'
+        AND session_setting_int(p_settings, 'maxParticipants', 0) BETWEEN 2 AND 50))
+    AND (NOT p_settings ? 'songsPerParticipant'
+      OR (jsonb_typeof(p_settings -> 'songsPerParticipant') = 'number'
+        AND session_setting_int(p_settings, 'songsPerParticipant', 0) BETWEEN 1 AND 50))
+    AND (NOT p_settings ? 'forcePlayCooldown'
+      OR (jsonb_typeof(p_settings -> 'forcePlayCooldown') = 'number'
+        AND session_setting_int(p_settings, 'forcePlayCooldown', -1) BETWEEN 0 AND 3600))
+    AND (NOT p_settings ? 'votingDuration'
+      OR (jsonb_typeof(p_settings -> 'votingDuration') = 'number'
+        AND session_setting_int(p_settings, 'votingDuration', 0) BETWEEN 5 AND 600))
+    AND (NOT p_settings ? 'allowForcePlay'
+      OR jsonb_typeof(p_settings -> 'allowForcePlay') = 'boolean')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_settings_valid;
+ALTER TABLE sessions ADD CONSTRAINT sessions_settings_valid
+  CHECK (session_settings_are_valid(settings));
+
+-- Song quota: each participant may add songsPerParticipant songs per session,
+-- and at most songs_per_participant songs to a themed round
+CREATE OR REPLACE FUNCTION enforce_song_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  quota INTEGER;
+  added_count INTEGER;
+  round_quota INTEGER;
+BEGIN
+  -- Lock the session so two concurrent inserts can't both take the last slot
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  quota := session_setting_int(s.settings, 'songsPerParticipant', 5);
+
+  SELECT COUNT(*) INTO added_count
+  FROM songs
+  WHERE session_id = NEW.session_id AND added_by = NEW.added_by;
+
+  IF added_count >= quota THEN
+    RAISE EXCEPTION 'You can only add % songs to this session', quota
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.round_id IS NOT NULL THEN
+    SELECT songs_per_participant INTO round_quota FROM rounds WHERE id = NEW.round_id;
+
+    SELECT COUNT(*) INTO added_count
+    FROM songs
+    WHERE round_id = NEW.round_id AND added_by = NEW.added_by;
+
+    IF round_quota IS NOT NULL AND added_count >= round_quota THEN
+      RAISE EXCEPTION 'You can only add % songs to this round', round_quota
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_song_quota ON songs;
+CREATE TRIGGER enforce_song_quota
+  BEFORE INSERT ON songs
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_song_quota();
+
+-- Force play rules: disabled sessions reject it, and each participant
+-- has to wait forcePlayCooldown seconds between force plays.
+-- transition_session('force_play') inserts into force_plays before jumping,
+-- so raising here aborts the whole transition.
+CREATE OR REPLACE FUNCTION enforce_force_play_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  cooldown INTEGER;
+  last_force_play TIMESTAMPTZ;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT session_setting_bool(s.settings, 'allowForcePlay', true) THEN
+    RAISE EXCEPTION 'Force play is disabled in this session' USING ERRCODE = '42501';
+  END IF;
+
+  cooldown := session_setting_int(s.settings, 'forcePlayCooldown', 300);
+
+  SELECT MAX(timestamp) INTO last_force_play
+  FROM force_plays
+  WHERE session_id = NEW.session_id AND participant_id = NEW.participant_id;
+
+  IF last_force_play IS NOT NULL AND last_force_play + make_interval(secs => cooldown) > NOW() THEN
+    remaining := CEIL(EXTRACT(EPOCH FROM (last_force_play + make_interval(secs => cooldown) - NOW())));
+    RAISE EXCEPTION 'Force play is on cooldown for % more seconds', remaining
+      USING ERRCODE = '55000';
+  END IF;
+
+  NEW.timestamp := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_force_play_rules ON force_plays;
+CREATE TRIGGER enforce_force_play_rules
+  BEFORE INSERT ON force_plays
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_force_play_rules();
+
+CREATE INDEX IF NOT EXISTS idx_songs_session_added_by ON songs(session_id, added_by);
+
+-- Clients show the cooldown countdown from force_plays
+ALTER PUBLICATION supabase_realtime ADD TABLE public.force_plays;
+
+-- Add comments
+COMMENT ON FUNCTION enforce_song_quota IS 'Rejects songs beyond settings.songsPerParticipant or the round quota';
+COMMENT ON FUNCTION enforce_force_play_rules IS 'Rejects force plays when settings.allowForcePlay is off or the participant is on cooldown';
@@ -0,0 +1,179 @@
+-- Force play power card
+-- Each participant gets settings.forcePlayTokens force plays per session and
+-- can use one to move their own upcoming song to play next, or right now
+
+-- Record how each force play was used (shown in the session results)
+ALTER TABLE force_plays ADD COLUMN IF NOT EXISTS mode VARCHAR(10) NOT NULL DEFAULT 'now'
+  CHECK (mode IN ('now', 'next'));
+
+-- Settings check now also covers forcePlayTokens
+CREATE OR REPLACE FUNCTION session_settings_are_valid(p_settings JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT p_settings IS NULL OR (
+    jsonb_typeof(p_settings) = 'object'
+    AND (NOT p_settings ? 'maxParticipants'
+      OR (jsonb_typeof(p_settings -> 'maxParticipants') = 'number'
+        AND session_setting_int(p_settings, 'maxParticipants', 0) BETWEEN 2 AND 50))
+    AND (NOT p_settings ? 'songsPerParticipant'
+      OR (jsonb_typeof(p_settings -> 'songsPerParticipant') = 'number'
+        AND session_setting_int(p_settings, 'songsPerParticipant', 0) BETWEEN 1 AND 50))
+    AND (NOT p_settings ? 'forcePlayCooldown'
+      OR (jsonb_typeof(p_settings -> 'forcePlayCooldown') = 'number'
+        AND session_setting_int(p_settings, 'forcePlayCooldown', -1) BETWEEN 0 AND 3600))
+    AND (NOT p_settings ? 'forcePlayTokens'
+      OR (jsonb_typeof(p_settings -> 'forcePlayTokens') = 'number'
+        AND session_setting_int(p_settings, 'forcePlayTokens', -1) BETWEEN 0 AND 10))
+    AND (NOT p_settings ? 'votingDuration'
+      OR (jsonb_typeof(p_settings -> 'votingDuration') = 'number'
+        AND session_setting_int(p_settings, 'votingDuration', 0) BETWEEN 5 AND 600))
+    AND (NOT p_settings ? 'allowForcePlay'
+      OR jsonb_typeof(p_settings -> 'allowForcePlay') = 'boolean')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Force play rules: enabled, tokens left, and not on cooldown
+CREATE OR REPLACE FUNCTION enforce_force_play_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  cooldown INTEGER;
+  tokens INTEGER;
+  used_count INTEGER;
+  last_force_play TIMESTAMPTZ;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT session_setting_bool(s.settings, 'allowForcePlay', true) THEN
+    RAISE EXCEPTION 'Force play is disabled in this session' USING ERRCODE = '42501';
+  END IF;
+
+  cooldown := session_setting_int(s.settings, 'forcePlayCooldown', 300);
+  tokens := session_setting_int(s.settings, 'forcePlayTokens', 1);
+
+  SELECT COUNT(*), MAX(timestamp) INTO used_count, last_force_play
+  FROM force_plays
+  WHERE session_id = NEW.session_id AND participant_id = NEW.participant_id;
+
+  IF used_count >= tokens THEN
+    RAISE EXCEPTION 'No force plays left' USING ERRCODE = '23514';
+  END IF;
+
+  IF last_force_play IS NOT NULL AND last_force_play + make_interval(secs => cooldown) > NOW() THEN
+    remaining := CEIL(EXTRACT(EPOCH FROM (last_force_play + make_interval(secs => cooldown) - NOW())));
+    RAISE EXCEPTION 'Force play is on cooldown for % more seconds', remaining
+      USING ERRCODE = '55000';
+  END IF;
+
+  NEW.timestamp := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Use a force play on one of your own upcoming songs
+--   next - the song moves to right after the current song
+--   now  - the song moves there and starts immediately
+-- Songs in between keep their order (nothing is skipped). With themed rounds,
+-- only songs from the current round can be pulled forward.
+CREATE OR REPLACE FUNCTION use_force_play(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_song_id UUID,
+  p_mode TEXT
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  target songs;
+  current_song songs;
+  target_index INTEGER;
+  result sessions;
+BEGIN
+  IF p_mode NOT IN ('now', 'next') THEN
+    RAISE EXCEPTION 'Unknown force play mode: %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM participants WHERE id = p_participant_id AND session_id = p_session_id) THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF s.status <> 'playing' THEN
+    RAISE EXCEPTION 'Session is not playing' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO target FROM songs WHERE id = p_song_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found in this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target.added_by <> p_participant_id THEN
+    RAISE EXCEPTION 'You can only force play your own songs' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT ordered.idx INTO target_index
+  FROM (
+    SELECT id, (ROW_NUMBER() OVER (ORDER BY position ASC, created_at ASC) - 1)::INTEGER AS idx
+    FROM songs
+    WHERE session_id = p_session_id
+  ) ordered
+  WHERE ordered.id = p_song_id;
+
+  IF target_index <= s.current_song_index THEN
+    RAISE EXCEPTION 'This song has already played' USING ERRCODE = '55000';
+  END IF;
+
+  current_song := session_song_at(p_session_id, s.current_song_index);
+  IF current_song.round_id IS DISTINCT FROM target.round_id THEN
+    RAISE EXCEPTION 'You can only force play songs from the current round' USING ERRCODE = '55000';
+  END IF;
+
+  -- Spends a token (enforce_force_play_rules checks tokens and cooldown)
+  INSERT INTO force_plays (session_id, participant_id, song_id, mode)
+  VALUES (p_session_id, p_participant_id, p_song_id, p_mode);
+
+  -- Rewrite positions with the song pulled forward to right after the current one
+  WITH ordered AS (
+    SELECT id, (ROW_NUMBER() OVER (ORDER BY position ASC, created_at ASC) - 1)::INTEGER AS idx
+    FROM songs
+    WHERE session_id = p_session_id
+  )
+  UPDATE songs
+  SET position = CASE
+    WHEN ordered.id = p_song_id THEN s.current_song_index + 1
+    WHEN ordered.idx > s.current_song_index AND ordered.idx < target_index THEN ordered.idx + 1
+    ELSE ordered.idx
+  END
+  FROM ordered
+  WHERE songs.id = ordered.id;
+
+  IF p_mode = 'now' THEN
+    PERFORM set_config('beat_battle.allow_transition', 'on', true);
+    UPDATE sessions
+    SET current_song_index = s.current_song_index + 1,
+        current_song_started_at = NOW(),
+        last_activity_at = NOW()
+    WHERE id = p_session_id
+    RETURNING * INTO result;
+    PERFORM set_config('beat_battle.allow_transition', 'off', true);
+  ELSE
+    UPDATE sessions
+    SET last_activity_at = NOW()
+    WHERE id = p_session_id
+    RETURNING * INTO result;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON COLUMN force_plays.mode IS 'now: the song started immediately, next: the song was moved to play next';
+COMMENT ON FUNCTION use_force_play IS 'Spends a force play token to move the caller''s own song to play next or now';
@@ -0,0 +1,76 @@
+-- Voting window
+-- Votes on a song are accepted during the last settings.votingDuration seconds
+-- of the song, can be changed until the window closes, and stay open for a
+-- short grace period after the next song starts (for songs that end early).
+-- Must match lib/session/voting.ts.
+
+-- Seconds a song stays votable after the next song has started
+CREATE OR REPLACE FUNCTION voting_grace_seconds()
+RETURNS INTEGER AS $$
+  SELECT 15;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_voting_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  voting_duration INTEGER;
+  song_index INTEGER;
+  song songs;
+  opens_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF s.status <> 'playing' OR s.current_song_started_at IS NULL THEN
+    RAISE EXCEPTION 'Voting is closed' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT ordered.idx INTO song_index
+  FROM (
+    SELECT id, (ROW_NUMBER() OVER (ORDER BY position ASC, created_at ASC) - 1)::INTEGER AS idx
+    FROM songs
+    WHERE session_id = NEW.session_id
+  ) ordered
+  WHERE ordered.id = NEW.song_id;
+
+  IF song_index IS NULL THEN
+    RAISE EXCEPTION 'Song not found in this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Previous song: grace period after song_changed
+  IF song_index = s.current_song_index - 1 THEN
+    IF NOW() > s.current_song_started_at + make_interval(secs => voting_grace_seconds()) THEN
+      RAISE EXCEPTION 'Voting is closed for this song' USING ERRCODE = '55000';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF song_index <> s.current_song_index THEN
+    RAISE EXCEPTION 'Voting is closed for this song' USING ERRCODE = '55000';
+  END IF;
+
+  -- Current song: the window opens votingDuration seconds before the song ends
+  SELECT * INTO song FROM songs WHERE id = NEW.song_id;
+  voting_duration := session_setting_int(s.settings, 'votingDuration', 30);
+  opens_at := s.current_song_started_at
+    + make_interval(secs => GREATEST(song.duration - voting_duration, 0));
+
+  IF NOW() < opens_at THEN
+    RAISE EXCEPTION 'Voting has not opened yet' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_voting_window ON scores;
+CREATE TRIGGER enforce_voting_window
+  BEFORE INSERT OR UPDATE OF rating ON scores
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_voting_window();
+
+-- Add comments
+COMMENT ON FUNCTION enforce_voting_window IS 'Accepts votes only inside the song''s voting window or the grace period after it';
@@ -0,0 +1,140 @@
+-- Scoring modes
+-- The host picks how results are computed (settings.scoringMode):
+--   average    - plain average of star ratings
+--   bayesian   - average pulled towards a prior, so few votes count less
+--   normalized - each voter's ratings rescaled to their own mean and spread
+--   borda      - end-of-session ballots ranking the top songs
+-- Scores are computed in lib/session/scoring.ts; this migration validates the
+-- setting and stores the Borda ballots.
+
+CREATE TABLE IF NOT EXISTS ballots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  ranking UUID[] NOT NULL CHECK (cardinality(ranking) BETWEEN 1 AND 3),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(session_id, participant_id)
+);
+
+-- A ballot ranks distinct songs of the session, never your own
+CREATE OR REPLACE FUNCTION validate_ballot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT COUNT(DISTINCT song_id) FROM unnest(NEW.ranking) AS song_id) <> cardinality(NEW.ranking) THEN
+    RAISE EXCEPTION 'A song can only be ranked once' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(NEW.ranking) AS ranked(song_id)
+    LEFT JOIN songs ON songs.id = ranked.song_id AND songs.session_id = NEW.session_id
+    WHERE songs.id IS NULL OR songs.added_by = NEW.participant_id
+  ) THEN
+    RAISE EXCEPTION 'Ballots can only rank other participants'' songs from this session'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_ballot ON ballots;
+CREATE TRIGGER validate_ballot
+  BEFORE INSERT OR UPDATE ON ballots
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_ballot();
+
+-- Settings check now also covers scoringMode
+CREATE OR REPLACE FUNCTION session_settings_are_valid(p_settings JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT p_settings IS NULL OR (
+    jsonb_typeof(p_settings) = 'object'
+    AND (NOT p_settings ? 'maxParticipants'
+      OR (jsonb_typeof(p_settings -> 'maxParticipants') = 'number'
+        AND session_setting_int(p_settings, 'maxParticipants', 0) BETWEEN 2 AND 50))
+    AND (NOT p_settings ? 'songsPerParticipant'
+      OR (jsonb_typeof(p_settings -> 'songsPerParticipant') = 'number'
+        AND session_setting_int(p_settings, 'songsPerParticipant', 0) BETWEEN 1 AND 50))
+    AND (NOT p_settings ? 'forcePlayCooldown'
+      OR (jsonb_typeof(p_settings -> 'forcePlayCooldown') = 'number'
+        AND session_setting_int(p_settings, 'forcePlayCooldown', -1) BETWEEN 0 AND 3600))
+    AND (NOT p_settings ? 'forcePlayTokens'
+      OR (jsonb_typeof(p_settings -> 'forcePlayTokens') = 'number'
+        AND session_setting_int(p_settings, 'forcePlayTokens', -1) BETWEEN 0 AND 10))
+    AND (NOT p_settings ? 'votingDuration'
+      OR (jsonb_typeof(p_settings -> 'votingDuration') = 'number'
+        AND session_setting_int(p_settings, 'votingDuration', 0) BETWEEN 5 AND 600))
+    AND (NOT p_settings ? 'allowForcePlay'
+      OR jsonb_typeof(p_settings -> 'allowForcePlay') = 'boolean')
+    AND (NOT p_settings ? 'scoringMode'
+      OR p_settings ->> 'scoringMode' IN ('average', 'bayesian', 'normalized', 'borda'))
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Leaderboard view with the star-based modes (borda needs the ballots and is
+-- computed client-side). Self-votes are excluded, as before.
+--   bayesian:   (C * 3 + sum of ratings) / (C + votes), C = max(2, votes per rated song)
+--   normalized: average of (rating - voter mean) / voter standard deviation
+DROP VIEW IF EXISTS session_leaderboard;
+CREATE VIEW session_leaderboard AS
+WITH votes AS (
+  SELECT scores.session_id, scores.participant_id AS voter_id, scores.song_id, scores.rating, songs.added_by
+  FROM scores
+  JOIN songs ON songs.id = scores.song_id
+  WHERE scores.participant_id <> songs.added_by
+),
+voter_stats AS (
+  SELECT voter_id, AVG(rating) AS mean, STDDEV_POP(rating) AS spread
+  FROM votes
+  GROUP BY voter_id
+),
+session_stats AS (
+  SELECT session_id, GREATEST(COUNT(*)::NUMERIC / COUNT(DISTINCT song_id), 2) AS prior_weight
+  FROM votes
+  GROUP BY session_id
+),
+received AS (
+  SELECT
+    votes.added_by AS participant_id,
+    COUNT(*) AS total_votes,
+    SUM(votes.rating) AS rating_sum,
+    AVG(votes.rating) AS average_score,
+    AVG(CASE WHEN voter_stats.spread > 0
+      THEN (votes.rating - voter_stats.mean) / voter_stats.spread
+      ELSE 0 END) AS normalized_score
+  FROM votes
+  JOIN voter_stats ON voter_stats.voter_id = votes.voter_id
+  GROUP BY votes.added_by
+)
+SELECT
+  p.session_id,
+  p.id as participant_id,
+  p.user_name,
+  p.avatar_url,
+  (SELECT COUNT(*) FROM songs WHERE songs.added_by = p.id) as songs_added,
+  COALESCE(r.average_score, 0) as average_score,
+  COALESCE(r.total_votes, 0) as total_votes_received,
+  COALESCE((ss.prior_weight * 3 + r.rating_sum) / (ss.prior_weight + r.total_votes), 0) as bayesian_score,
+  COALESCE(r.normalized_score, 0) as normalized_score,
+  COALESCE(s.settings ->> 'scoringMode', 'average') as scoring_mode
+FROM participants p
+JOIN sessions s ON s.id = p.session_id
+LEFT JOIN received r ON r.participant_id = p.id
+LEFT JOIN session_stats ss ON ss.session_id = p.session_id
+ORDER BY average_score DESC;
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_ballots_session_id ON ballots(session_id);
+
+-- Enable RLS (permissive, same as the other session tables)
+ALTER TABLE ballots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ballots" ON ballots
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Enable realtime for ballots (results update as ballots come in)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ballots;
+
+-- Add comments
+COMMENT ON TABLE ballots IS 'End-of-session ranked ballots used by the borda scoring mode';
+COMMENT ON COLUMN ballots.ranking IS 'Song ids, best first (up to 3)';
@@ -0,0 +1,66 @@
+-- User profiles
+-- participants.user_id (added with Better Auth) links a session participant to
+-- an account. Karma and results stay per participant; these views add them up
+-- per user for the /profile/[id] page.
+
+-- Karma on the participant row only covers that session
+COMMENT ON COLUMN participants.karma IS 'Karma earned by the participant in this session (totals per user in user_profiles)';
+
+-- One row per session an account took part in, with its place on the leaderboard.
+-- Place uses the session's scoring mode (borda needs the ballots, so it is ranked by average here).
+CREATE OR REPLACE VIEW user_session_stats AS
+WITH ranked AS (
+  SELECT
+    l.*,
+    RANK() OVER (
+      PARTITION BY l.session_id
+      ORDER BY CASE l.scoring_mode
+        WHEN 'bayesian' THEN l.bayesian_score
+        WHEN 'normalized' THEN l.normalized_score
+        ELSE l.average_score
+      END DESC
+    ) AS place
+  FROM session_leaderboard l
+)
+SELECT
+  p.user_id,
+  p.id as participant_id,
+  s.id as session_id,
+  s.name as session_name,
+  s.status as session_status,
+  s.created_at as played_at,
+  p.is_host,
+  COALESCE(p.karma, 0) as karma,
+  r.songs_added,
+  r.average_score,
+  r.total_votes_received,
+  r.place,
+  (s.status = 'finished' AND r.place = 1 AND r.total_votes_received > 0) as won
+FROM participants p
+JOIN sessions s ON s.id = p.session_id
+JOIN ranked r ON r.participant_id = p.id
+WHERE p.user_id IS NOT NULL;
+
+-- Lifetime totals per account (no email - profiles are public)
+CREATE OR REPLACE VIEW user_profiles AS
+SELECT
+  u.id as user_id,
+  u.name,
+  u.image,
+  u."createdAt" as member_since,
+  COUNT(st.participant_id) as sessions_played,
+  COUNT(*) FILTER (WHERE st.won) as wins,
+  COALESCE(SUM(st.karma), 0) as total_karma,
+  COALESCE(SUM(st.songs_added), 0) as songs_added,
+  COALESCE(SUM(st.total_votes_received), 0) as votes_received,
+  COALESCE(
+    SUM(st.average_score * st.total_votes_received) / NULLIF(SUM(st.total_votes_received), 0),
+    0
+  ) as average_score
+FROM "user" u
+LEFT JOIN user_session_stats st ON st.user_id = u.id
+GROUP BY u.id, u.name, u.image, u."createdAt";
+
+-- Add comments
+COMMENT ON VIEW user_session_stats IS 'Per-session results of participants linked to an account';
+COMMENT ON VIEW user_profiles IS 'Karma, wins, songs added and average score per account across all sessions';
@@ -0,0 +1,159 @@
+-- Karma ledger
+-- Karma is awarded server-side only: award_karma() records the karma_history
+-- entry and increments participants.karma in one transaction, and triggers on
+-- songs/scores call it. Clients can no longer write karma or ledger rows
+-- directly. reconcile_karma() rebuilds the totals from karma_history.
+
+-- Karma columns and ledger rows can only be written through award_karma()
+CREATE OR REPLACE FUNCTION guard_karma()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_karma', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'karma_history' THEN
+    RAISE EXCEPTION 'Karma can only be awarded by the server' USING ERRCODE = '42501';
+  END IF;
+
+  -- participants: new rows start at 0, updates keep the current total
+  IF TG_OP = 'INSERT' THEN
+    NEW.karma := 0;
+  ELSIF NEW.karma IS DISTINCT FROM OLD.karma THEN
+    RAISE EXCEPTION 'Karma can only be awarded by the server' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_participant_karma ON participants;
+CREATE TRIGGER guard_participant_karma
+  BEFORE INSERT OR UPDATE OF karma ON participants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_karma();
+
+DROP TRIGGER IF EXISTS guard_karma_history ON karma_history;
+CREATE TRIGGER guard_karma_history
+  BEFORE INSERT OR UPDATE ON karma_history
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_karma();
+
+-- Clients can't delete ledger rows either. Revoked rather than guarded by the
+-- trigger: rows still go when their session or participant is deleted (cascade)
+REVOKE DELETE ON karma_history FROM anon, authenticated;
+
+-- Record a ledger entry and add it to the participant's total (returns the new total)
+CREATE OR REPLACE FUNCTION award_karma(
+  p_participant_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  new_total INTEGER;
+  participant_session UUID;
+BEGIN
+  SELECT session_id INTO participant_session FROM participants WHERE id = p_participant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Participant not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_karma', 'on', true);
+
+  INSERT INTO karma_history (participant_id, session_id, amount, reason)
+  VALUES (p_participant_id, participant_session, p_amount, p_reason);
+
+  -- Single UPDATE increments under the row lock, so concurrent awards add up
+  UPDATE participants
+  SET karma = COALESCE(karma, 0) + p_amount
+  WHERE id = p_participant_id
+  RETURNING karma INTO new_total;
+
+  PERFORM set_config('beat_battle.allow_karma', 'off', true);
+
+  RETURN new_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- +2 for adding a song
+CREATE OR REPLACE FUNCTION award_song_karma()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM award_karma(NEW.added_by, 2, format('Added song "%s"', NEW.title));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS award_song_karma ON songs;
+CREATE TRIGGER award_song_karma
+  AFTER INSERT ON songs
+  FOR EACH ROW
+  EXECUTE FUNCTION award_song_karma();
+
+-- +1 for voting, +2/+3 to the song's owner for a 4/5-star rating (first vote only)
+CREATE OR REPLACE FUNCTION award_score_karma()
+RETURNS TRIGGER AS $$
+DECLARE
+  song songs;
+BEGIN
+  PERFORM award_karma(NEW.participant_id, 1, 'Voted on a song');
+
+  IF NEW.rating >= 4 THEN
+    SELECT * INTO song FROM songs WHERE id = NEW.song_id;
+    IF FOUND AND song.added_by <> NEW.participant_id THEN
+      PERFORM award_karma(
+        song.added_by,
+        CASE WHEN NEW.rating = 5 THEN 3 ELSE 2 END,
+        format('Song "%s" received %s stars', song.title, NEW.rating)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS award_score_karma ON scores;
+CREATE TRIGGER award_score_karma
+  AFTER INSERT ON scores
+  FOR EACH ROW
+  EXECUTE FUNCTION award_score_karma();
+
+-- Rebuild participants.karma from the ledger (one session, or all when NULL).
+-- Returns the number of participants whose total was corrected.
+CREATE OR REPLACE FUNCTION reconcile_karma(p_session_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  fixed_count INTEGER;
+BEGIN
+  PERFORM set_config('beat_battle.allow_karma', 'on', true);
+
+  WITH totals AS (
+    SELECT p.id, COALESCE(SUM(kh.amount), 0)::INTEGER AS total
+    FROM participants p
+    LEFT JOIN karma_history kh ON kh.participant_id = p.id
+    WHERE p_session_id IS NULL OR p.session_id = p_session_id
+    GROUP BY p.id
+  )
+  UPDATE participants
+  SET karma = totals.total
+  FROM totals
+  WHERE participants.id = totals.id
+    AND participants.karma IS DISTINCT FROM totals.total;
+
+  GET DIAGNOSTICS fixed_count = ROW_COUNT;
+
+  PERFORM set_config('beat_battle.allow_karma', 'off', true);
+
+  RETURN fixed_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the triggers above (SECURITY DEFINER) and the service role may award or reconcile
+REVOKE EXECUTE ON FUNCTION award_karma(UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_karma(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON FUNCTION award_karma IS 'Records a karma_history entry and increments participants.karma atomically';
+COMMENT ON FUNCTION reconcile_karma IS 'Rebuilds participants.karma from karma_history; returns the number of corrected rows';
@@ -0,0 +1,296 @@
+-- Perk shop
+-- Participants spend karma on perks:
+--   extra_slot       - one more song than settings.songsPerParticipant
+--   force_play_token - one more force play than settings.forcePlayTokens
+--   veto             - remove someone else's upcoming song from the queue
+--   pin_chat         - pin a chat message on top of the song's chat
+-- buy_perk() checks the balance, applies the perk and records the spend as a
+-- negative karma_history entry through award_karma(), all in one transaction.
+-- Costs must match lib/session/perks.ts.
+
+CREATE TABLE IF NOT EXISTS perk_purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  perk TEXT NOT NULL CHECK (perk IN ('extra_slot', 'force_play_token', 'veto', 'pin_chat')),
+  cost INTEGER NOT NULL CHECK (cost > 0),
+  target_id UUID, -- vetoed song / pinned chat message
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMPTZ;
+
+-- Perks can only be bought (and messages pinned) through buy_perk()
+CREATE OR REPLACE FUNCTION guard_perks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_perk', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'perk_purchases' THEN
+    RAISE EXCEPTION 'Perks can only be bought through buy_perk()' USING ERRCODE = '42501';
+  END IF;
+
+  -- chat_messages
+  IF TG_OP = 'INSERT' THEN
+    NEW.pinned_at := NULL;
+  ELSIF NEW.pinned_at IS DISTINCT FROM OLD.pinned_at THEN
+    RAISE EXCEPTION 'Pinning a message is a perk' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_perk_purchases ON perk_purchases;
+CREATE TRIGGER guard_perk_purchases
+  BEFORE INSERT OR UPDATE ON perk_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_perks();
+
+DROP TRIGGER IF EXISTS guard_chat_pins ON chat_messages;
+CREATE TRIGGER guard_chat_pins
+  BEFORE INSERT OR UPDATE OF pinned_at ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_perks();
+
+-- Karma price of a perk (NULL = unknown perk)
+CREATE OR REPLACE FUNCTION perk_cost(p_perk TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_perk
+    WHEN 'extra_slot' THEN 10
+    WHEN 'force_play_token' THEN 15
+    WHEN 'veto' THEN 20
+    WHEN 'pin_chat' THEN 5
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- How many of a perk a participant has bought
+CREATE OR REPLACE FUNCTION perk_count(p_participant_id UUID, p_perk TEXT)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER FROM perk_purchases
+  WHERE participant_id = p_participant_id AND perk = p_perk;
+$$ LANGUAGE sql STABLE;
+
+-- Song quota now includes bought extra slots
+CREATE OR REPLACE FUNCTION enforce_song_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  quota INTEGER;
+  added_count INTEGER;
+  round_quota INTEGER;
+BEGIN
+  -- Lock the session so two concurrent inserts can't both take the last slot
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  quota := session_setting_int(s.settings, 'songsPerParticipant', 5)
+    + perk_count(NEW.added_by, 'extra_slot');
+
+  SELECT COUNT(*) INTO added_count
+  FROM songs
+  WHERE session_id = NEW.session_id AND added_by = NEW.added_by;
+
+  IF added_count >= quota THEN
+    RAISE EXCEPTION 'You can only add % songs to this session', quota
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.round_id IS NOT NULL THEN
+    SELECT songs_per_participant INTO round_quota FROM rounds WHERE id = NEW.round_id;
+
+    SELECT COUNT(*) INTO added_count
+    FROM songs
+    WHERE round_id = NEW.round_id AND added_by = NEW.added_by;
+
+    IF round_quota IS NOT NULL AND added_count >= round_quota THEN
+      RAISE EXCEPTION 'You can only add % songs to this round', round_quota
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Force play tokens now include bought tokens
+CREATE OR REPLACE FUNCTION enforce_force_play_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  cooldown INTEGER;
+  tokens INTEGER;
+  used_count INTEGER;
+  last_force_play TIMESTAMPTZ;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT session_setting_bool(s.settings, 'allowForcePlay', true) THEN
+    RAISE EXCEPTION 'Force play is disabled in this session' USING ERRCODE = '42501';
+  END IF;
+
+  cooldown := session_setting_int(s.settings, 'forcePlayCooldown', 300);
+  tokens := session_setting_int(s.settings, 'forcePlayTokens', 1)
+    + perk_count(NEW.participant_id, 'force_play_token');
+
+  SELECT COUNT(*), MAX(timestamp) INTO used_count, last_force_play
+  FROM force_plays
+  WHERE session_id = NEW.session_id AND participant_id = NEW.participant_id;
+
+  IF used_count >= tokens THEN
+    RAISE EXCEPTION 'No force plays left' USING ERRCODE = '23514';
+  END IF;
+
+  IF last_force_play IS NOT NULL AND last_force_play + make_interval(secs => cooldown) > NOW() THEN
+    remaining := CEIL(EXTRACT(EPOCH FROM (last_force_play + make_interval(secs => cooldown) - NOW())));
+    RAISE EXCEPTION 'Force play is on cooldown for % more seconds', remaining
+      USING ERRCODE = '55000';
+  END IF;
+
+  NEW.timestamp := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Buy a perk with karma
+CREATE OR REPLACE FUNCTION buy_perk(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_perk TEXT,
+  p_target_id UUID DEFAULT NULL
+)
+RETURNS perk_purchases AS $$
+DECLARE
+  s sessions;
+  buyer participants;
+  cost INTEGER;
+  target_song songs;
+  target_index INTEGER;
+  target_message chat_messages;
+  result perk_purchases;
+BEGIN
+  cost := perk_cost(p_perk);
+  IF cost IS NULL THEN
+    RAISE EXCEPTION 'Unknown perk' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO s FROM sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF s.status = 'finished' THEN
+    RAISE EXCEPTION 'The session has ended' USING ERRCODE = '55000';
+  END IF;
+
+  -- Lock the buyer so two purchases can't spend the same karma
+  SELECT * INTO buyer
+  FROM participants
+  WHERE id = p_participant_id AND session_id = p_session_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(buyer.karma, 0) < cost THEN
+    RAISE EXCEPTION 'Not enough karma (costs %)', cost USING ERRCODE = '23514';
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_perk', 'on', true);
+
+  CASE p_perk
+    WHEN 'force_play_token' THEN
+      IF NOT session_setting_bool(s.settings, 'allowForcePlay', true) THEN
+        RAISE EXCEPTION 'Force play is disabled in this session' USING ERRCODE = '42501';
+      END IF;
+
+    WHEN 'veto' THEN
+      SELECT * INTO target_song FROM songs WHERE id = p_target_id AND session_id = p_session_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Song not found in this session' USING ERRCODE = 'P0002';
+      END IF;
+
+      IF target_song.added_by = p_participant_id THEN
+        RAISE EXCEPTION 'Remove your own songs instead of vetoing them' USING ERRCODE = '22023';
+      END IF;
+
+      SELECT ordered.idx INTO target_index
+      FROM (
+        SELECT id, (ROW_NUMBER() OVER (ORDER BY position ASC, created_at ASC) - 1)::INTEGER AS idx
+        FROM songs
+        WHERE session_id = p_session_id
+      ) ordered
+      WHERE ordered.id = p_target_id;
+
+      IF s.status = 'playing' AND target_index <= s.current_song_index THEN
+        RAISE EXCEPTION 'Only upcoming songs can be vetoed' USING ERRCODE = '55000';
+      END IF;
+
+      -- Later songs shift down by one; the current song keeps its index
+      DELETE FROM songs WHERE id = p_target_id;
+
+    WHEN 'pin_chat' THEN
+      SELECT * INTO target_message
+      FROM chat_messages
+      WHERE id = p_target_id AND session_id = p_session_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Message not found in this session' USING ERRCODE = 'P0002';
+      END IF;
+
+      -- One pinned message per song chat
+      UPDATE chat_messages
+      SET pinned_at = NULL
+      WHERE song_id = target_message.song_id AND pinned_at IS NOT NULL;
+
+      UPDATE chat_messages SET pinned_at = NOW() WHERE id = p_target_id;
+
+    ELSE
+      NULL; -- extra_slot: counted by enforce_song_quota()
+  END CASE;
+
+  INSERT INTO perk_purchases (session_id, participant_id, perk, cost, target_id)
+  VALUES (p_session_id, p_participant_id, p_perk, cost, p_target_id)
+  RETURNING * INTO result;
+
+  PERFORM set_config('beat_battle.allow_perk', 'off', true);
+
+  PERFORM award_karma(
+    p_participant_id,
+    -cost,
+    'Bought perk: ' || CASE p_perk
+      WHEN 'extra_slot' THEN 'Extra song slot'
+      WHEN 'force_play_token' THEN 'Force play token'
+      WHEN 'veto' THEN format('Veto "%s"', target_song.title)
+      WHEN 'pin_chat' THEN 'Pinned chat message'
+    END
+  );
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_perk_purchases_session_id ON perk_purchases(session_id);
+CREATE INDEX IF NOT EXISTS idx_perk_purchases_participant ON perk_purchases(participant_id, perk);
+
+-- Enable RLS (permissive, same as the other session tables)
+ALTER TABLE perk_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on perk_purchases" ON perk_purchases
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Enable realtime for perk purchases
+ALTER PUBLICATION supabase_realtime ADD TABLE public.perk_purchases;
+
+-- Add comments
+COMMENT ON TABLE perk_purchases IS 'Perks bought with karma (the spend is in karma_history)';
+COMMENT ON COLUMN chat_messages.pinned_at IS 'Set when a participant pins the message with the pin_chat perk';
+COMMENT ON FUNCTION buy_perk IS 'Spends karma on a perk and applies it atomically';
@@ -0,0 +1,10 @@
+-- SoundCloud as a music source
+-- songs.source is checked against the sources in lib/music/sources.ts.
+-- SoundCloud songs store the numeric track ID in source_id.
+
+ALTER TABLE songs DROP CONSTRAINT IF EXISTS songs_source_check;
+ALTER TABLE songs ADD CONSTRAINT songs_source_check
+  CHECK (source IN ('youtube', 'spotify', 'soundcloud'));
+
+-- Add comments
+COMMENT ON COLUMN songs.source_id IS 'YouTube video ID, Spotify track ID or SoundCloud track ID';
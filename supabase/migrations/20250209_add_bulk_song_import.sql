@@ -0,0 +1,94 @@
+-- Bulk song import
+-- add_songs() inserts a batch of songs (e.g. picked from a playlist) in one
+-- transaction with consecutive positions. The whole batch is rejected when it
+-- would exceed the participant's quota or contains a song longer than
+-- MAX_SONG_DURATION (lib/session/limits.ts); enforce_song_quota() still
+-- checks every row, including round quotas.
+
+CREATE OR REPLACE FUNCTION add_songs(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_songs JSONB, -- [{ title, artist, album_art, duration, source, source_id }]
+  p_round_id UUID DEFAULT NULL
+)
+RETURNS SETOF songs AS $$
+DECLARE
+  s sessions;
+  song_count INTEGER;
+  quota INTEGER;
+  added_count INTEGER;
+  next_position INTEGER;
+BEGIN
+  IF jsonb_typeof(p_songs) IS DISTINCT FROM 'array' OR jsonb_array_length(p_songs) = 0 THEN
+    RAISE EXCEPTION 'No songs to add' USING ERRCODE = '22023';
+  END IF;
+
+  song_count := jsonb_array_length(p_songs);
+
+  -- Lock the session so concurrent adds get distinct positions and quota counts
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF s.status = 'finished' THEN
+    RAISE EXCEPTION 'The session has ended' USING ERRCODE = '55000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM participants WHERE id = p_participant_id AND session_id = p_session_id
+  ) THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_round_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM rounds WHERE id = p_round_id AND session_id = p_session_id
+  ) THEN
+    RAISE EXCEPTION 'Round not found in this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_songs) AS e
+    WHERE (e->>'duration')::INTEGER > 360
+  ) THEN
+    RAISE EXCEPTION 'Songs longer than 6 minutes can''t be added' USING ERRCODE = '22023';
+  END IF;
+
+  -- Check the whole batch up front so it fails with one clear message
+  quota := session_setting_int(s.settings, 'songsPerParticipant', 5)
+    + perk_count(p_participant_id, 'extra_slot');
+
+  SELECT COUNT(*) INTO added_count
+  FROM songs
+  WHERE session_id = p_session_id AND added_by = p_participant_id;
+
+  IF added_count + song_count > quota THEN
+    RAISE EXCEPTION 'You can only add % more songs to this session', GREATEST(quota - added_count, 0)
+      USING ERRCODE = '23514';
+  END IF;
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO next_position
+  FROM songs
+  WHERE session_id = p_session_id;
+
+  RETURN QUERY
+  INSERT INTO songs (session_id, title, artist, album_art, duration, source, source_id, added_by, position, round_id)
+  SELECT
+    p_session_id,
+    e->>'title',
+    e->>'artist',
+    e->>'album_art',
+    (e->>'duration')::INTEGER,
+    e->>'source',
+    e->>'source_id',
+    p_participant_id,
+    next_position + (ord - 1)::INTEGER,
+    p_round_id
+  FROM jsonb_array_elements(p_songs) WITH ORDINALITY AS t(e, ord)
+  ORDER BY ord
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON FUNCTION add_songs IS 'Adds a batch of songs for one participant in a single transaction';
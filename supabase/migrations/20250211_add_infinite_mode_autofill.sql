@@ -0,0 +1,206 @@
+-- Infinite mode auto-fill
+-- When sessions.infinite_mode is on and fewer than min_queue_size songs are left
+-- after the current one, the server picks songs (lib/music/autofill.ts) and
+-- autofill_queue() inserts them for the session's system "DJ" participant.
+-- DJ songs don't count toward quotas, earn no karma and are left out of the
+-- competition (lib/session/dj.ts).
+
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS is_dj BOOLEAN NOT NULL DEFAULT false;
+
+-- The DJ never hosts
+ALTER TABLE participants DROP CONSTRAINT IF EXISTS participants_dj_not_host;
+ALTER TABLE participants ADD CONSTRAINT participants_dj_not_host
+  CHECK (NOT (is_dj AND COALESCE(is_host, false)));
+
+-- One DJ per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_participants_dj ON participants(session_id) WHERE is_dj;
+
+-- Only autofill_queue() creates the DJ (same guard pattern as karma)
+CREATE OR REPLACE FUNCTION guard_dj_participant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_dj AND current_setting('beat_battle.allow_dj', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'The DJ participant is managed by the server' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_dj_participant ON participants;
+CREATE TRIGGER guard_dj_participant
+  BEFORE INSERT OR UPDATE OF is_dj ON participants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_dj_participant();
+
+CREATE OR REPLACE FUNCTION is_dj_participant(p_participant_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((SELECT is_dj FROM participants WHERE id = p_participant_id), false);
+$$ LANGUAGE sql STABLE;
+
+-- Song quota: the DJ has none
+CREATE OR REPLACE FUNCTION enforce_song_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  quota INTEGER;
+  added_count INTEGER;
+  round_quota INTEGER;
+BEGIN
+  IF is_dj_participant(NEW.added_by) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the session so two concurrent inserts can't both take the last slot
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  quota := session_setting_int(s.settings, 'songsPerParticipant', 5)
+    + perk_count(NEW.added_by, 'extra_slot');
+
+  SELECT COUNT(*) INTO added_count
+  FROM songs
+  WHERE session_id = NEW.session_id AND added_by = NEW.added_by;
+
+  IF added_count >= quota THEN
+    RAISE EXCEPTION 'You can only add % songs to this session', quota
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.round_id IS NOT NULL THEN
+    SELECT songs_per_participant INTO round_quota FROM rounds WHERE id = NEW.round_id;
+
+    SELECT COUNT(*) INTO added_count
+    FROM songs
+    WHERE round_id = NEW.round_id AND added_by = NEW.added_by;
+
+    IF round_quota IS NOT NULL AND added_count >= round_quota THEN
+      RAISE EXCEPTION 'You can only add % songs to this round', round_quota
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- +2 for adding a song (not for the DJ)
+CREATE OR REPLACE FUNCTION award_song_karma()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_dj_participant(NEW.added_by) THEN
+    PERFORM award_karma(NEW.added_by, 2, format('Added song "%s"', NEW.title));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- +1 for voting, +2/+3 to the song's owner for a 4/5-star rating (first vote only).
+-- DJ songs are outside the competition, so votes on them earn nothing.
+CREATE OR REPLACE FUNCTION award_score_karma()
+RETURNS TRIGGER AS $$
+DECLARE
+  song songs;
+BEGIN
+  SELECT * INTO song FROM songs WHERE id = NEW.song_id;
+  IF FOUND AND is_dj_participant(song.added_by) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM award_karma(NEW.participant_id, 1, 'Voted on a song');
+
+  IF NEW.rating >= 4 AND song.id IS NOT NULL AND song.added_by <> NEW.participant_id THEN
+    PERFORM award_karma(
+      song.added_by,
+      CASE WHEN NEW.rating = 5 THEN 3 ELSE 2 END,
+      format('Song "%s" received %s stars', song.title, NEW.rating)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Top the queue up to min_queue_size songs after the current one.
+-- p_songs is the server's pick in preference order ([{ title, artist, raw_title,
+-- album_art, duration, source, source_id }]); only as many as are missing are
+-- inserted, skipping songs already in the session, so concurrent calls can't overfill.
+CREATE OR REPLACE FUNCTION autofill_queue(
+  p_session_id UUID,
+  p_songs JSONB
+)
+RETURNS SETOF songs AS $$
+DECLARE
+  s sessions;
+  song_count INTEGER;
+  needed INTEGER;
+  dj_id UUID;
+  next_position INTEGER;
+BEGIN
+  IF jsonb_typeof(p_songs) <> 'array' THEN
+    RAISE EXCEPTION 'p_songs must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT COALESCE(s.infinite_mode, false) OR s.status <> 'playing' THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO song_count FROM songs WHERE session_id = p_session_id;
+  needed := COALESCE(s.min_queue_size, 3) - (song_count - COALESCE(s.current_song_index, 0) - 1);
+
+  IF needed <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO dj_id FROM participants WHERE session_id = p_session_id AND is_dj;
+
+  IF dj_id IS NULL THEN
+    PERFORM set_config('beat_battle.allow_dj', 'on', true);
+    INSERT INTO participants (session_id, user_name, is_host, is_dj)
+    VALUES (p_session_id, 'DJ', false, true)
+    RETURNING id INTO dj_id;
+    PERFORM set_config('beat_battle.allow_dj', 'off', true);
+  END IF;
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO next_position
+  FROM songs
+  WHERE session_id = p_session_id;
+
+  RETURN QUERY
+  INSERT INTO songs (session_id, title, artist, raw_title, album_art, duration, source, source_id, added_by, position)
+  SELECT
+    p_session_id,
+    e->>'title',
+    e->>'artist',
+    e->>'raw_title',
+    e->>'album_art',
+    (e->>'duration')::INTEGER,
+    e->>'source',
+    e->>'source_id',
+    dj_id,
+    next_position + (ROW_NUMBER() OVER (ORDER BY ord))::INTEGER - 1
+  FROM jsonb_array_elements(p_songs) WITH ORDINALITY AS t(e, ord)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM songs existing
+    WHERE existing.session_id = p_session_id
+      AND existing.source = e->>'source'
+      AND existing.source_id = e->>'source_id'
+  )
+  ORDER BY ord
+  LIMIT needed
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trusts its input - only the server (service role) may call it
+REVOKE EXECUTE ON FUNCTION autofill_queue(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON COLUMN participants.is_dj IS 'System participant that owns infinite mode songs; excluded from scoring and karma';
+COMMENT ON FUNCTION autofill_queue IS 'Adds DJ songs until min_queue_size songs are left after the current one';
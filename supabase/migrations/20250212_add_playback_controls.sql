@@ -0,0 +1,229 @@
+-- Pause, resume and seek for the whole room
+-- The playback position of the current song is
+--   (COALESCE(paused_at, NOW()) - current_song_started_at) + position_offset
+-- so pausing freezes it, resuming moves position_offset back by the paused time
+-- and seeking sets position_offset to land on the requested position.
+-- Both columns reset whenever a new song starts. Must match lib/session/playback.ts.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS position_offset DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Guard: playback columns are lifecycle columns too (changed by control_playback())
+CREATE OR REPLACE FUNCTION guard_session_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_transition', true), '') <> 'on' AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.current_song_index IS DISTINCT FROM OLD.current_song_index
+    OR NEW.current_song_started_at IS DISTINCT FROM OLD.current_song_started_at
+    OR NEW.paused_at IS DISTINCT FROM OLD.paused_at
+    OR NEW.position_offset IS DISTINCT FROM OLD.position_offset
+  ) THEN
+    RAISE EXCEPTION 'Session lifecycle can only be changed through transition_session()'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A new song always starts playing from its beginning
+CREATE OR REPLACE FUNCTION reset_session_playback()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.current_song_started_at IS DISTINCT FROM OLD.current_song_started_at THEN
+    NEW.paused_at := NULL;
+    NEW.position_offset := 0;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_session_playback ON sessions;
+CREATE TRIGGER reset_session_playback
+  BEFORE UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_session_playback();
+
+-- Seconds into the current song on the server clock
+CREATE OR REPLACE FUNCTION session_playback_position(p_session sessions)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT EXTRACT(EPOCH FROM COALESCE(p_session.paused_at, NOW()) - p_session.current_song_started_at)
+    + p_session.position_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Whether the current song has played its full duration (never while paused)
+CREATE OR REPLACE FUNCTION session_song_is_due(p_session sessions, p_tolerance INTERVAL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_song songs;
+BEGIN
+  IF p_session.status <> 'playing' OR p_session.current_song_started_at IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF p_session.paused_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  current_song := session_song_at(p_session.id, p_session.current_song_index);
+
+  -- The current song was removed: nothing left to wait for
+  IF current_song.id IS NULL THEN
+    RETURN true;
+  END IF;
+
+  RETURN session_playback_position(p_session)
+    >= current_song.duration - EXTRACT(EPOCH FROM p_tolerance);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Voting window: measured in playback position, so pausing doesn't open it early
+CREATE OR REPLACE FUNCTION enforce_voting_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  voting_duration INTEGER;
+  song_index INTEGER;
+  song songs;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF s.status <> 'playing' OR s.current_song_started_at IS NULL THEN
+    RAISE EXCEPTION 'Voting is closed' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT ordered.idx INTO song_index
+  FROM (
+    SELECT id, (ROW_NUMBER() OVER (ORDER BY position ASC, created_at ASC) - 1)::INTEGER AS idx
+    FROM songs
+    WHERE session_id = NEW.session_id
+  ) ordered
+  WHERE ordered.id = NEW.song_id;
+
+  IF song_index IS NULL THEN
+    RAISE EXCEPTION 'Song not found in this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Previous song: grace period after song_changed
+  IF song_index = s.current_song_index - 1 THEN
+    IF NOW() > s.current_song_started_at + make_interval(secs => voting_grace_seconds()) THEN
+      RAISE EXCEPTION 'Voting is closed for this song' USING ERRCODE = '55000';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF song_index <> s.current_song_index THEN
+    RAISE EXCEPTION 'Voting is closed for this song' USING ERRCODE = '55000';
+  END IF;
+
+  -- Current song: the window opens votingDuration seconds before the song ends
+  SELECT * INTO song FROM songs WHERE id = NEW.song_id;
+  voting_duration := session_setting_int(s.settings, 'votingDuration', 30);
+
+  IF session_playback_position(s) < GREATEST(song.duration - voting_duration, 0) THEN
+    RAISE EXCEPTION 'Voting has not opened yet' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Host playback controls for the current song
+--   pause  - freeze the position
+--   resume - continue from the frozen position
+--   seek   - jump to p_position seconds (kept paused if paused)
+-- Pausing a paused or resuming a playing session returns it unchanged.
+CREATE OR REPLACE FUNCTION control_playback(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_action TEXT,
+  p_position DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  p participants;
+  result sessions;
+  current_song songs;
+  target_position DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO p FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT COALESCE(p.is_host, false) THEN
+    RAISE EXCEPTION 'Only the host can control playback' USING ERRCODE = '42501';
+  END IF;
+
+  IF s.status <> 'playing' OR s.current_song_started_at IS NULL THEN
+    RAISE EXCEPTION 'Session is not playing' USING ERRCODE = '55000';
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_transition', 'on', true);
+
+  CASE p_action
+    WHEN 'pause' THEN
+      IF s.paused_at IS NOT NULL THEN
+        PERFORM set_config('beat_battle.allow_transition', 'off', true);
+        RETURN s;
+      END IF;
+
+      UPDATE sessions
+      SET paused_at = NOW(),
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+
+    WHEN 'resume' THEN
+      IF s.paused_at IS NULL THEN
+        PERFORM set_config('beat_battle.allow_transition', 'off', true);
+        RETURN s;
+      END IF;
+
+      UPDATE sessions
+      SET position_offset = s.position_offset - EXTRACT(EPOCH FROM NOW() - s.paused_at),
+          paused_at = NULL,
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+
+    WHEN 'seek' THEN
+      IF p_position IS NULL THEN
+        RAISE EXCEPTION 'A position is required to seek' USING ERRCODE = '22023';
+      END IF;
+
+      current_song := session_song_at(p_session_id, s.current_song_index);
+      target_position := LEAST(GREATEST(p_position, 0), GREATEST(COALESCE(current_song.duration, 0), 0));
+
+      UPDATE sessions
+      SET position_offset = target_position
+            - EXTRACT(EPOCH FROM COALESCE(s.paused_at, NOW()) - s.current_song_started_at),
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown playback action: %', p_action USING ERRCODE = '22023';
+  END CASE;
+
+  PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON COLUMN sessions.paused_at IS 'When the host paused the current song (NULL while playing)';
+COMMENT ON COLUMN sessions.position_offset IS 'Seconds added to the time since current_song_started_at to get the playback position (pauses and seeks)';
+COMMENT ON FUNCTION control_playback IS 'Host pause, resume and seek of the current song';
@@ -0,0 +1,199 @@
+-- Previous song and replay
+-- The host can go back to the previous song or restart the current one, e.g. when
+-- someone missed it or the video failed. The song keeps its scores, reactions and
+-- chat; each rewind is recorded in song_replays with who did it and why.
+
+CREATE TABLE IF NOT EXISTS song_replays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  song_id UUID NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('previous', 'replay')),
+  reason TEXT CHECK (char_length(reason) <= 200),
+  from_index INTEGER, -- current_song_index before the rewind
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Replays can only be recorded through transition_session()
+CREATE OR REPLACE FUNCTION guard_song_replays()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_transition', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Replays can only be recorded through transition_session()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_song_replays ON song_replays;
+CREATE TRIGGER guard_song_replays
+  BEFORE INSERT OR UPDATE ON song_replays
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_song_replays();
+
+-- transition_session() gains p_reason, so the old signature has to go
+DROP FUNCTION IF EXISTS transition_session(UUID, UUID, TEXT, INTEGER);
+
+-- Single entry point for lifecycle changes requested by a participant
+--   start      - host only, waiting → playing on the first song
+--   advance    - host any time; others once the song is due or the skip threshold is met
+--   finish     - host only, ends the session
+--   previous   - host only, goes back to the song before the current one
+--   replay     - host only, restarts the current song
+-- previous/replay keep the song's scores, reactions and chat, clear its skip votes
+-- and record p_reason in song_replays.
+-- p_expected_index makes 'advance', 'previous' and 'replay' idempotent: if the session
+-- already moved past that index (another client got there first, or a double click)
+-- the current row is returned unchanged.
+CREATE OR REPLACE FUNCTION transition_session(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_action TEXT,
+  p_expected_index INTEGER DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  p participants;
+  result sessions;
+  song_count INTEGER;
+  participant_count INTEGER;
+  skip_count INTEGER;
+  current_song songs;
+  target_index INTEGER;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO p FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  CASE p_action
+    WHEN 'start' THEN
+      IF NOT COALESCE(p.is_host, false) THEN
+        RAISE EXCEPTION 'Only the host can start the session' USING ERRCODE = '42501';
+      END IF;
+      IF s.status <> 'waiting' THEN
+        RAISE EXCEPTION 'Session has already started' USING ERRCODE = '55000';
+      END IF;
+
+      SELECT COUNT(*) INTO song_count FROM songs WHERE session_id = p_session_id;
+      IF song_count = 0 THEN
+        RAISE EXCEPTION 'Add at least one song before starting' USING ERRCODE = '55000';
+      END IF;
+
+      PERFORM set_config('beat_battle.allow_transition', 'on', true);
+      UPDATE sessions
+      SET status = 'playing',
+          current_song_index = 0,
+          current_song_started_at = NOW(),
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+      PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+    WHEN 'advance' THEN
+      IF s.status <> 'playing' THEN
+        RETURN s;
+      END IF;
+      IF p_expected_index IS NOT NULL AND p_expected_index IS DISTINCT FROM s.current_song_index THEN
+        RETURN s;
+      END IF;
+
+      IF NOT COALESCE(p.is_host, false) AND NOT session_song_is_due(s, INTERVAL '5 seconds') THEN
+        current_song := session_song_at(p_session_id, s.current_song_index);
+
+        -- The infinite mode DJ doesn't vote (same threshold as useSkipVoting)
+        SELECT COUNT(*) INTO participant_count FROM participants WHERE session_id = p_session_id AND NOT is_dj;
+        SELECT COUNT(*) INTO skip_count
+        FROM skip_votes
+        WHERE session_id = p_session_id AND song_id = current_song.id;
+
+        IF skip_count = 0 OR skip_count < CEIL(participant_count * 0.5) THEN
+          RAISE EXCEPTION 'The current song has not finished yet' USING ERRCODE = '55000';
+        END IF;
+      END IF;
+
+      result := advance_session_song(s);
+
+    WHEN 'finish' THEN
+      IF NOT COALESCE(p.is_host, false) THEN
+        RAISE EXCEPTION 'Only the host can finish the session' USING ERRCODE = '42501';
+      END IF;
+      IF s.status = 'finished' THEN
+        RETURN s;
+      END IF;
+
+      PERFORM set_config('beat_battle.allow_transition', 'on', true);
+      UPDATE sessions
+      SET status = 'finished',
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+      PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+    WHEN 'previous', 'replay' THEN
+      IF NOT COALESCE(p.is_host, false) THEN
+        RAISE EXCEPTION 'Only the host can go back to a song' USING ERRCODE = '42501';
+      END IF;
+      IF s.status <> 'playing' THEN
+        RAISE EXCEPTION 'Session is not playing' USING ERRCODE = '55000';
+      END IF;
+      IF p_expected_index IS NOT NULL AND p_expected_index IS DISTINCT FROM s.current_song_index THEN
+        RETURN s;
+      END IF;
+
+      target_index := COALESCE(s.current_song_index, 0) - CASE WHEN p_action = 'previous' THEN 1 ELSE 0 END;
+      IF target_index < 0 THEN
+        RAISE EXCEPTION 'There is no previous song' USING ERRCODE = '55000';
+      END IF;
+
+      current_song := session_song_at(p_session_id, target_index);
+      IF current_song.id IS NULL THEN
+        RAISE EXCEPTION 'Song not found in this session' USING ERRCODE = 'P0002';
+      END IF;
+
+      -- Old skip votes would end the replay right away
+      DELETE FROM skip_votes WHERE session_id = p_session_id AND song_id = current_song.id;
+
+      PERFORM set_config('beat_battle.allow_transition', 'on', true);
+      INSERT INTO song_replays (session_id, song_id, participant_id, action, reason, from_index)
+      VALUES (p_session_id, current_song.id, p_participant_id, p_action, NULLIF(btrim(p_reason), ''), s.current_song_index);
+
+      UPDATE sessions
+      SET current_song_index = target_index,
+          current_song_started_at = NOW(),
+          last_activity_at = NOW()
+      WHERE id = p_session_id
+      RETURNING * INTO result;
+      PERFORM set_config('beat_battle.allow_transition', 'off', true);
+
+    ELSE
+      RAISE EXCEPTION 'Unknown transition: %', p_action USING ERRCODE = '22023';
+  END CASE;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_song_replays_session_id ON song_replays(session_id);
+
+-- Enable RLS (permissive, same as the other session tables)
+ALTER TABLE song_replays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on song_replays" ON song_replays
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Enable realtime for replays
+ALTER PUBLICATION supabase_realtime ADD TABLE public.song_replays;
+
+-- Add comments
+COMMENT ON TABLE song_replays IS 'Songs the host went back to (previous) or restarted (replay), with who and why';
+COMMENT ON FUNCTION transition_session IS 'Validates and applies session lifecycle transitions (start, advance, finish, previous, replay)';
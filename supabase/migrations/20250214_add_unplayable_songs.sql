@@ -0,0 +1,215 @@
+-- Unplayable songs
+-- When the host's player can't play a song (deleted, private, region-blocked or
+-- embedding disabled), mark_song_unplayable() flags it and the host's client
+-- moves on. Unplayable songs don't count toward the song quota, so the
+-- participant who added it can pick a replacement.
+
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'ok'
+  CHECK (status IN ('ok', 'unplayable'));
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS unplayable_reason TEXT;
+
+-- Only mark_song_unplayable() changes a song's status (same guard pattern as karma)
+CREATE OR REPLACE FUNCTION guard_song_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_song_status', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'ok';
+    NEW.unplayable_reason := NULL;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status OR NEW.unplayable_reason IS DISTINCT FROM OLD.unplayable_reason THEN
+    RAISE EXCEPTION 'Song status can only be changed through mark_song_unplayable()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_song_status ON songs;
+CREATE TRIGGER guard_song_status
+  BEFORE INSERT OR UPDATE OF status, unplayable_reason ON songs
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_song_status();
+
+-- Song quota: unplayable songs don't count
+CREATE OR REPLACE FUNCTION enforce_song_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  quota INTEGER;
+  added_count INTEGER;
+  round_quota INTEGER;
+BEGIN
+  IF is_dj_participant(NEW.added_by) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the session so two concurrent inserts can't both take the last slot
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  quota := session_setting_int(s.settings, 'songsPerParticipant', 5)
+    + perk_count(NEW.added_by, 'extra_slot');
+
+  SELECT COUNT(*) INTO added_count
+  FROM songs
+  WHERE session_id = NEW.session_id AND added_by = NEW.added_by AND status <> 'unplayable';
+
+  IF added_count >= quota THEN
+    RAISE EXCEPTION 'You can only add % songs to this session', quota
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.round_id IS NOT NULL THEN
+    SELECT songs_per_participant INTO round_quota FROM rounds WHERE id = NEW.round_id;
+
+    SELECT COUNT(*) INTO added_count
+    FROM songs
+    WHERE round_id = NEW.round_id AND added_by = NEW.added_by AND status <> 'unplayable';
+
+    IF round_quota IS NOT NULL AND added_count >= round_quota THEN
+      RAISE EXCEPTION 'You can only add % songs to this round', round_quota
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- add_songs(): same quota rule for the up-front batch check
+CREATE OR REPLACE FUNCTION add_songs(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_songs JSONB, -- [{ title, artist, raw_title, album_art, duration, source, source_id }]
+  p_round_id UUID DEFAULT NULL
+)
+RETURNS SETOF songs AS $$
+DECLARE
+  s sessions;
+  song_count INTEGER;
+  quota INTEGER;
+  added_count INTEGER;
+  next_position INTEGER;
+BEGIN
+  IF jsonb_typeof(p_songs) IS DISTINCT FROM 'array' OR jsonb_array_length(p_songs) = 0 THEN
+    RAISE EXCEPTION 'No songs to add' USING ERRCODE = '22023';
+  END IF;
+
+  song_count := jsonb_array_length(p_songs);
+
+  -- Lock the session so concurrent adds get distinct positions and quota counts
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF s.status = 'finished' THEN
+    RAISE EXCEPTION 'The session has ended' USING ERRCODE = '55000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM participants WHERE id = p_participant_id AND session_id = p_session_id
+  ) THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_round_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM rounds WHERE id = p_round_id AND session_id = p_session_id
+  ) THEN
+    RAISE EXCEPTION 'Round not found in this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_songs) AS e
+    WHERE (e->>'duration')::INTEGER > 360
+  ) THEN
+    RAISE EXCEPTION 'Songs longer than 6 minutes can''t be added' USING ERRCODE = '22023';
+  END IF;
+
+  -- Check the whole batch up front so it fails with one clear message
+  quota := session_setting_int(s.settings, 'songsPerParticipant', 5)
+    + perk_count(p_participant_id, 'extra_slot');
+
+  SELECT COUNT(*) INTO added_count
+  FROM songs
+  WHERE session_id = p_session_id AND added_by = p_participant_id AND status <> 'unplayable';
+
+  IF added_count + song_count > quota THEN
+    RAISE EXCEPTION 'You can only add % more songs to this session', GREATEST(quota - added_count, 0)
+      USING ERRCODE = '23514';
+  END IF;
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO next_position
+  FROM songs
+  WHERE session_id = p_session_id;
+
+  RETURN QUERY
+  INSERT INTO songs (session_id, title, artist, raw_title, album_art, duration, source, source_id, added_by, position, round_id)
+  SELECT
+    p_session_id,
+    e->>'title',
+    e->>'artist',
+    e->>'raw_title',
+    e->>'album_art',
+    (e->>'duration')::INTEGER,
+    e->>'source',
+    e->>'source_id',
+    p_participant_id,
+    next_position + (ord - 1)::INTEGER,
+    p_round_id
+  FROM jsonb_array_elements(p_songs) WITH ORDINALITY AS t(e, ord)
+  ORDER BY ord
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Flag a song the host's player couldn't play (host only).
+-- Idempotent: an already unplayable song is returned unchanged.
+CREATE OR REPLACE FUNCTION mark_song_unplayable(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_song_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS songs AS $$
+DECLARE
+  song songs;
+  result songs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM participants
+    WHERE id = p_participant_id AND session_id = p_session_id AND COALESCE(is_host, false)
+  ) THEN
+    RAISE EXCEPTION 'Only the host can mark a song as unplayable' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO song FROM songs WHERE id = p_song_id AND session_id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song not found in this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF song.status = 'unplayable' THEN
+    RETURN song;
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_song_status', 'on', true);
+  UPDATE songs
+  SET status = 'unplayable',
+      unplayable_reason = left(p_reason, 200)
+  WHERE id = p_song_id
+  RETURNING * INTO result;
+  PERFORM set_config('beat_battle.allow_song_status', 'off', true);
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON COLUMN songs.status IS 'ok, or unplayable when the host''s player could not play it (doesn''t count toward the quota)';
+COMMENT ON COLUMN songs.unplayable_reason IS 'Why the player could not play the song (e.g. embedding disabled)';
+COMMENT ON FUNCTION mark_song_unplayable IS 'Flags a song the host''s player could not play';
@@ -0,0 +1,148 @@
+-- Playback history
+-- current_song_index only says where the session is now. playback_events keeps one
+-- row per song that actually played: when it started, how far it got and why it
+-- started and stopped. Rows are written by a trigger on sessions, so every path
+-- that moves the session (transition_session(), use_force_play(),
+-- advance_due_sessions(), cleanup_expired_sessions()) is recorded the same way.
+
+CREATE TABLE IF NOT EXISTS playback_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  song_id UUID NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+  song_index INTEGER NOT NULL, -- current_song_index while it played
+  start_reason TEXT NOT NULL CHECK (start_reason IN ('start', 'advance', 'force_play', 'previous', 'replay')),
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ, -- NULL while playing
+  played_seconds DOUBLE PRECISION, -- playback position when it ended (pauses and seeks included)
+  end_reason TEXT CHECK (end_reason IN (
+    'finished', 'skipped', 'unplayable', 'force_played', 'previous', 'replay', 'session_ended'
+  )),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Events can only be written by record_playback_event() during a transition
+CREATE OR REPLACE FUNCTION guard_playback_events()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_transition', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Playback events can only be recorded through transition_session()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_playback_events ON playback_events;
+CREATE TRIGGER guard_playback_events
+  BEFORE INSERT OR UPDATE ON playback_events
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_playback_events();
+
+-- Nor deleted by clients. Revoked rather than guarded by the trigger: events
+-- still go when their session or song is deleted (cascade)
+REVOKE DELETE ON playback_events FROM anon, authenticated;
+
+-- Close the song that was playing and open the one that starts.
+-- What moved the session is read from the rows the transition wrote in the same
+-- transaction (NOW() is the transaction start time):
+--   force_plays row for the new song   -> force_play
+--   song_replays row                   -> previous / replay
+--   otherwise                          -> start / advance
+-- An advance ends the song as 'finished' when it had played its full duration,
+-- 'unplayable' when the host's player failed on it, and 'skipped' otherwise.
+CREATE OR REPLACE FUNCTION record_playback_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  change TEXT;
+  open_event playback_events;
+  ended_song songs;
+  next_song songs;
+  stop_reason TEXT;
+BEGIN
+  IF NEW.current_song_started_at IS NOT DISTINCT FROM OLD.current_song_started_at
+    AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  next_song := session_song_at(NEW.id, NEW.current_song_index);
+
+  IF NEW.status = 'finished' THEN
+    change := 'finish';
+  ELSIF OLD.current_song_started_at IS NULL THEN
+    change := 'start';
+  ELSIF EXISTS (
+    SELECT 1 FROM force_plays
+    WHERE session_id = NEW.id AND song_id = next_song.id AND force_plays.timestamp = NOW()
+  ) THEN
+    change := 'force_play';
+  ELSE
+    SELECT action INTO change
+    FROM song_replays
+    WHERE session_id = NEW.id AND created_at = NOW()
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    change := COALESCE(change, 'advance');
+  END IF;
+
+  SELECT * INTO open_event
+  FROM playback_events
+  WHERE session_id = NEW.id AND ended_at IS NULL
+  ORDER BY started_at DESC
+  LIMIT 1;
+
+  IF open_event.id IS NOT NULL THEN
+    SELECT * INTO ended_song FROM songs WHERE id = open_event.song_id;
+
+    IF ended_song.status = 'unplayable' THEN
+      stop_reason := 'unplayable';
+    ELSIF session_song_is_due(OLD, INTERVAL '5 seconds') THEN
+      stop_reason := 'finished';
+    ELSE
+      stop_reason := CASE change
+        WHEN 'finish' THEN 'session_ended'
+        WHEN 'force_play' THEN 'force_played'
+        WHEN 'previous' THEN 'previous'
+        WHEN 'replay' THEN 'replay'
+        ELSE 'skipped'
+      END;
+    END IF;
+
+    UPDATE playback_events
+    SET ended_at = NOW(),
+        played_seconds = LEAST(GREATEST(session_playback_position(OLD), 0), ended_song.duration),
+        end_reason = stop_reason
+    WHERE id = open_event.id;
+  END IF;
+
+  IF NEW.status = 'playing' AND NEW.current_song_started_at IS NOT NULL AND next_song.id IS NOT NULL THEN
+    INSERT INTO playback_events (session_id, song_id, song_index, start_reason, started_at)
+    VALUES (NEW.id, next_song.id, NEW.current_song_index, change, NEW.current_song_started_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_playback_event ON sessions;
+CREATE TRIGGER record_playback_event
+  AFTER UPDATE OF status, current_song_index, current_song_started_at ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_playback_event();
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_playback_events_session_id ON playback_events(session_id);
+
+-- Enable RLS (permissive, same as the other session tables)
+ALTER TABLE playback_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on playback_events" ON playback_events
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Enable realtime for the history
+ALTER PUBLICATION supabase_realtime ADD TABLE public.playback_events;
+
+-- Add comments
+COMMENT ON TABLE playback_events IS 'One row per song that played: start, end, how far it got and why it started and stopped';
+COMMENT ON COLUMN playback_events.played_seconds IS 'Playback position when the song ended (NULL while playing)';
+COMMENT ON FUNCTION record_playback_event IS 'Writes playback_events when the session moves to another song or finishes';
@@ -0,0 +1,124 @@
+-- Participant secrets
+-- Participant ids are public (permissive RLS and realtime), so knowing one is not
+-- proof of being that participant. Each participant gets a random secret when it
+-- joins; the API routes check it before calling the host and participant RPCs, and
+-- those RPCs can no longer be called with the anon key. Only the hash is stored.
+
+CREATE TABLE IF NOT EXISTS participant_secrets (
+  participant_id UUID PRIMARY KEY REFERENCES participants(id) ON DELETE CASCADE,
+  secret_hash TEXT NOT NULL, -- sha256 hex of the secret
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- RLS without policies: only the service role (API routes) can read or write secrets
+ALTER TABLE participant_secrets ENABLE ROW LEVEL SECURITY;
+
+-- The host flag can only be set on the session's host when it joins, and only
+-- changed through transfer_host()
+CREATE OR REPLACE FUNCTION guard_participant_host()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_host_transfer', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.is_host, false) AND NOT EXISTS (
+      SELECT 1 FROM sessions WHERE id = NEW.session_id AND host_id = NEW.id
+    ) THEN
+      RAISE EXCEPTION 'Only the session host can join as host' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.is_host IS DISTINCT FROM OLD.is_host THEN
+    RAISE EXCEPTION 'The host can only change through transfer_host()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_participant_host ON participants;
+CREATE TRIGGER guard_participant_host
+  BEFORE INSERT OR UPDATE OF is_host ON participants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_participant_host();
+
+-- Same as before, with the host flag update allowed through the guard
+CREATE OR REPLACE FUNCTION transfer_host(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_new_host_id UUID,
+  p_expected_host_id UUID DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  caller participants;
+  current_host_id UUID;
+  result sessions;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO caller FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM participants WHERE id = p_new_host_id AND session_id = p_session_id) THEN
+    RAISE EXCEPTION 'New host is not a participant of this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT id INTO current_host_id
+  FROM participants
+  WHERE session_id = p_session_id AND is_host = true
+  ORDER BY joined_at ASC
+  LIMIT 1;
+
+  IF current_host_id IS NOT DISTINCT FROM p_new_host_id THEN
+    RETURN s;
+  END IF;
+
+  IF NOT COALESCE(caller.is_host, false) THEN
+    IF p_new_host_id <> p_participant_id THEN
+      RAISE EXCEPTION 'Only the host can hand over the session' USING ERRCODE = '42501';
+    END IF;
+
+    -- Someone else already took over: nothing to do
+    IF current_host_id IS DISTINCT FROM p_expected_host_id THEN
+      RETURN s;
+    END IF;
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_host_transfer', 'on', true);
+
+  UPDATE participants
+  SET is_host = (id = p_new_host_id)
+  WHERE session_id = p_session_id
+    AND (is_host = true OR id = p_new_host_id);
+
+  PERFORM set_config('beat_battle.allow_host_transfer', 'off', true);
+
+  UPDATE sessions
+  SET host_id = p_new_host_id,
+      last_activity_at = NOW()
+  WHERE id = p_session_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- These trust p_participant_id, so only the API routes (service role) may call
+-- them, after checking the participant's secret
+REVOKE EXECUTE ON FUNCTION transition_session(UUID, UUID, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION control_playback(UUID, UUID, TEXT, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION transfer_host(UUID, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION use_force_play(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION buy_perk(UUID, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_song_unplayable(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON TABLE participant_secrets IS 'Hash of the secret each participant proves its identity with to the API routes';
+COMMENT ON FUNCTION guard_participant_host IS 'Keeps participants.is_host from being set or changed outside transfer_host()';
@@ -0,0 +1,142 @@
+-- Host heartbeat
+-- Host migration used to trust the client's claim that the host was offline, so
+-- any participant could take the host role at any time. The host's client now
+-- sends a heartbeat (touch_participant()) and transfer_host() only lets someone
+-- else claim the role once the host's last_seen_at has gone stale.
+
+ALTER TABLE participants
+ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ DEFAULT NOW();
+
+-- last_seen_at can only be moved by touch_participant() (new rows start at NOW())
+CREATE OR REPLACE FUNCTION guard_participant_last_seen()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_heartbeat', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.last_seen_at := NOW();
+  ELSIF NEW.last_seen_at IS DISTINCT FROM OLD.last_seen_at THEN
+    RAISE EXCEPTION 'last_seen_at can only be set through touch_participant()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_participant_last_seen ON participants;
+CREATE TRIGGER guard_participant_last_seen
+  BEFORE INSERT OR UPDATE OF last_seen_at ON participants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_participant_last_seen();
+
+-- Record that a participant is still around
+CREATE OR REPLACE FUNCTION touch_participant(
+  p_session_id UUID,
+  p_participant_id UUID
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  seen_at TIMESTAMPTZ;
+BEGIN
+  PERFORM set_config('beat_battle.allow_heartbeat', 'on', true);
+
+  UPDATE participants
+  SET last_seen_at = NOW()
+  WHERE id = p_participant_id AND session_id = p_session_id
+  RETURNING last_seen_at INTO seen_at;
+
+  PERFORM set_config('beat_battle.allow_heartbeat', 'off', true);
+
+  IF seen_at IS NULL THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN seen_at;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Transfer host to another participant of the session
+--   - the current host can transfer to anyone in the session
+--   - anyone else can only claim it for themselves, only while
+--     p_expected_host_id is still the host (compare-and-swap, so two
+--     clients electing at the same time can't both win) and only once the
+--     host has missed its heartbeats for 15 seconds
+CREATE OR REPLACE FUNCTION transfer_host(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_new_host_id UUID,
+  p_expected_host_id UUID DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  caller participants;
+  current_host participants;
+  result sessions;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO caller FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM participants WHERE id = p_new_host_id AND session_id = p_session_id) THEN
+    RAISE EXCEPTION 'New host is not a participant of this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO current_host
+  FROM participants
+  WHERE session_id = p_session_id AND is_host = true
+  ORDER BY joined_at ASC
+  LIMIT 1;
+
+  IF current_host.id IS NOT DISTINCT FROM p_new_host_id THEN
+    RETURN s;
+  END IF;
+
+  IF NOT COALESCE(caller.is_host, false) THEN
+    IF p_new_host_id <> p_participant_id THEN
+      RAISE EXCEPTION 'Only the host can hand over the session' USING ERRCODE = '42501';
+    END IF;
+
+    -- Someone else already took over: nothing to do
+    IF current_host.id IS DISTINCT FROM p_expected_host_id THEN
+      RETURN s;
+    END IF;
+
+    IF current_host.last_seen_at > NOW() - INTERVAL '15 seconds' THEN
+      RAISE EXCEPTION 'The host is still active' USING ERRCODE = '55000';
+    END IF;
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_host_transfer', 'on', true);
+
+  UPDATE participants
+  SET is_host = (id = p_new_host_id)
+  WHERE session_id = p_session_id
+    AND (is_host = true OR id = p_new_host_id);
+
+  PERFORM set_config('beat_battle.allow_host_transfer', 'off', true);
+
+  UPDATE sessions
+  SET host_id = p_new_host_id,
+      last_activity_at = NOW()
+  WHERE id = p_session_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trusts p_participant_id: only the heartbeat route (service role) may call it
+REVOKE EXECUTE ON FUNCTION touch_participant(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON COLUMN participants.last_seen_at IS 'Last heartbeat from the participant''s client (sent while it is the host)';
+COMMENT ON FUNCTION touch_participant IS 'Records a heartbeat for a participant; returns the new last_seen_at';
@@ -0,0 +1,13 @@
+-- Database clock for client clock sync
+-- Session timestamps (current_song_started_at, paused_at, ...) come from NOW() in
+-- the database, so clients sync against the database clock rather than the
+-- clock of whichever server instance answers /api/time.
+
+CREATE OR REPLACE FUNCTION server_now()
+RETURNS DOUBLE PRECISION AS $$
+  -- clock_timestamp(), not NOW(): the actual time, not the transaction start
+  SELECT EXTRACT(EPOCH FROM clock_timestamp()) * 1000;
+$$ LANGUAGE sql VOLATILE;
+
+-- Add comments
+COMMENT ON FUNCTION server_now IS 'Current database time in ms since the epoch (clock sync)';
@@ -0,0 +1,124 @@
+-- Stop karma farming
+-- Songs and scores award karma on INSERT, and clients can still delete both, so
+-- deleting and re-adding a song or a vote paid out again. Awards now carry a key
+-- that is unique per participant, so the same song or vote only pays once, and
+-- removing a song takes back the karma it earned its adder.
+
+ALTER TABLE karma_history
+ADD COLUMN IF NOT EXISTS award_key TEXT; -- NULL for awards that may repeat (perk spends, ...)
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_karma_history_award_key ON karma_history(participant_id, award_key);
+
+-- Same as before, plus p_award_key: an award whose key was already recorded for
+-- the participant is skipped (returns the unchanged total)
+DROP FUNCTION IF EXISTS award_karma(UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION award_karma(
+  p_participant_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT,
+  p_award_key TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  new_total INTEGER;
+  participant_session UUID;
+  recorded INTEGER;
+BEGIN
+  SELECT session_id INTO participant_session FROM participants WHERE id = p_participant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Participant not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_karma', 'on', true);
+
+  INSERT INTO karma_history (participant_id, session_id, amount, reason, award_key)
+  VALUES (p_participant_id, participant_session, p_amount, p_reason, p_award_key)
+  ON CONFLICT (participant_id, award_key) DO NOTHING;
+
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+
+  IF recorded = 0 THEN
+    SELECT karma INTO new_total FROM participants WHERE id = p_participant_id;
+  ELSE
+    -- Single UPDATE increments under the row lock, so concurrent awards add up
+    UPDATE participants
+    SET karma = COALESCE(karma, 0) + p_amount
+    WHERE id = p_participant_id
+    RETURNING karma INTO new_total;
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_karma', 'off', true);
+
+  RETURN new_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- +2 for adding a song (not for the DJ), once per song
+CREATE OR REPLACE FUNCTION award_song_karma()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_dj_participant(NEW.added_by) THEN
+    PERFORM award_karma(NEW.added_by, 2, format('Added song "%s"', NEW.title), 'song:' || NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -2 when a song that earned karma is removed. Skipped when the song goes
+-- because its participant or session is being deleted.
+CREATE OR REPLACE FUNCTION revoke_song_karma()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM sessions WHERE id = OLD.session_id)
+    AND EXISTS (
+      SELECT 1 FROM karma_history
+      WHERE participant_id = OLD.added_by AND award_key = 'song:' || OLD.id
+    ) THEN
+    PERFORM award_karma(OLD.added_by, -2, format('Removed song "%s"', OLD.title), 'song_removed:' || OLD.id);
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS revoke_song_karma ON songs;
+CREATE TRIGGER revoke_song_karma
+  AFTER DELETE ON songs
+  FOR EACH ROW
+  EXECUTE FUNCTION revoke_song_karma();
+
+-- +1 for voting, +2/+3 to the song's owner for a 4/5-star rating (first vote only,
+-- a deleted and re-cast vote doesn't pay again).
+-- DJ songs are outside the competition, so votes on them earn nothing.
+CREATE OR REPLACE FUNCTION award_score_karma()
+RETURNS TRIGGER AS $$
+DECLARE
+  song songs;
+BEGIN
+  SELECT * INTO song FROM songs WHERE id = NEW.song_id;
+  IF FOUND AND is_dj_participant(song.added_by) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM award_karma(NEW.participant_id, 1, 'Voted on a song', 'vote:' || NEW.song_id);
+
+  IF NEW.rating >= 4 AND song.id IS NOT NULL AND song.added_by <> NEW.participant_id THEN
+    PERFORM award_karma(
+      song.added_by,
+      CASE WHEN NEW.rating = 5 THEN 3 ELSE 2 END,
+      format('Song "%s" received %s stars', song.title, NEW.rating),
+      'rated:' || NEW.song_id || ':' || NEW.participant_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the triggers above (SECURITY DEFINER) and the service role may award
+REVOKE EXECUTE ON FUNCTION award_karma(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON COLUMN karma_history.award_key IS 'What the award was for (song:<id>, vote:<song id>, ...); each key pays a participant once';
+COMMENT ON FUNCTION award_karma IS 'Records a karma_history entry and increments participants.karma atomically (once per award key)';
+COMMENT ON FUNCTION revoke_song_karma IS 'Takes back the karma for adding a song when the song is removed';
@@ -0,0 +1,7 @@
+-- Lock down force_plays
+-- The token count and cooldown are computed from force_plays rows, so a client
+-- that deleted or rewrote its own rows got its tokens back. Rows are written by
+-- use_force_play() and only go when their session, participant or song is
+-- deleted (cascade).
+
+REVOKE DELETE, UPDATE ON force_plays FROM anon, authenticated;
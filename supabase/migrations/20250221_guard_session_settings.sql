@@ -0,0 +1,69 @@
+-- Host-only session settings
+-- The song quota, voting window and force play rules are enforced from
+-- sessions.settings, but any client could rewrite settings with a plain UPDATE.
+-- Settings now only change through update_session_settings(), which checks the
+-- host (they are still set freely when the session is created).
+
+CREATE OR REPLACE FUNCTION guard_session_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_settings', true), '') <> 'on'
+    AND NEW.settings IS DISTINCT FROM OLD.settings THEN
+    RAISE EXCEPTION 'Session settings can only be changed through update_session_settings()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_session_settings ON sessions;
+CREATE TRIGGER guard_session_settings
+  BEFORE UPDATE OF settings ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_settings();
+
+-- Replace the session's settings (host only). The sessions_settings_valid
+-- constraint still checks the shape and ranges.
+CREATE OR REPLACE FUNCTION update_session_settings(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_settings JSONB
+)
+RETURNS sessions AS $$
+DECLARE
+  p participants;
+  result sessions;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM sessions WHERE id = p_session_id) THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO p FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT COALESCE(p.is_host, false) THEN
+    RAISE EXCEPTION 'Only the host can change session settings' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_settings', 'on', true);
+
+  UPDATE sessions
+  SET settings = p_settings,
+      last_activity_at = NOW()
+  WHERE id = p_session_id
+  RETURNING * INTO result;
+
+  PERFORM set_config('beat_battle.allow_settings', 'off', true);
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trusts p_participant_id: only the settings route (service role) may call it
+REVOKE EXECUTE ON FUNCTION update_session_settings(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON FUNCTION guard_session_settings IS 'Keeps sessions.settings from changing outside update_session_settings()';
+COMMENT ON FUNCTION update_session_settings IS 'Replaces the session settings (host only)';
@@ -0,0 +1,156 @@
+-- DJ songs only from autofill_queue()
+-- The song quota skipped every song whose added_by was the DJ, and added_by is
+-- written by clients, so anyone could add unlimited songs by naming the DJ (its
+-- id is in the participants list). Songs can now only be added for (or moved to)
+-- the DJ while autofill_queue() has set beat_battle.allow_dj_songs.
+
+CREATE OR REPLACE FUNCTION guard_dj_songs()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_dj_participant(NEW.added_by)
+    AND COALESCE(current_setting('beat_battle.allow_dj_songs', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'DJ songs are added by the server' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_dj_songs ON songs;
+CREATE TRIGGER guard_dj_songs
+  BEFORE INSERT OR UPDATE OF added_by ON songs
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_dj_songs();
+
+-- Song quota: the DJ has none, for the songs autofill_queue() adds
+CREATE OR REPLACE FUNCTION enforce_song_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  quota INTEGER;
+  added_count INTEGER;
+  round_quota INTEGER;
+BEGIN
+  IF is_dj_participant(NEW.added_by)
+    AND COALESCE(current_setting('beat_battle.allow_dj_songs', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the session so two concurrent inserts can't both take the last slot
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  quota := session_setting_int(s.settings, 'songsPerParticipant', 5)
+    + perk_count(NEW.added_by, 'extra_slot');
+
+  SELECT COUNT(*) INTO added_count
+  FROM songs
+  WHERE session_id = NEW.session_id AND added_by = NEW.added_by AND status <> 'unplayable';
+
+  IF added_count >= quota THEN
+    RAISE EXCEPTION 'You can only add % songs to this session', quota
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.round_id IS NOT NULL THEN
+    SELECT songs_per_participant INTO round_quota FROM rounds WHERE id = NEW.round_id;
+
+    SELECT COUNT(*) INTO added_count
+    FROM songs
+    WHERE round_id = NEW.round_id AND added_by = NEW.added_by AND status <> 'unplayable';
+
+    IF round_quota IS NOT NULL AND added_count >= round_quota THEN
+      RAISE EXCEPTION 'You can only add % songs to this round', round_quota
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Top the queue up to min_queue_size songs after the current one.
+-- p_songs is the server's pick in preference order ([{ title, artist, raw_title,
+-- album_art, duration, source, source_id }]); only as many as are missing are
+-- inserted, skipping songs already in the session, so concurrent calls can't overfill.
+-- beat_battle.allow_dj_songs lets the DJ's songs past guard_dj_songs.
+CREATE OR REPLACE FUNCTION autofill_queue(
+  p_session_id UUID,
+  p_songs JSONB
+)
+RETURNS SETOF songs AS $$
+DECLARE
+  s sessions;
+  song_count INTEGER;
+  needed INTEGER;
+  dj_id UUID;
+  next_position INTEGER;
+BEGIN
+  IF jsonb_typeof(p_songs) <> 'array' THEN
+    RAISE EXCEPTION 'p_songs must be an array' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT COALESCE(s.infinite_mode, false) OR s.status <> 'playing' THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO song_count FROM songs WHERE session_id = p_session_id;
+  needed := COALESCE(s.min_queue_size, 3) - (song_count - COALESCE(s.current_song_index, 0) - 1);
+
+  IF needed <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO dj_id FROM participants WHERE session_id = p_session_id AND is_dj;
+
+  IF dj_id IS NULL THEN
+    PERFORM set_config('beat_battle.allow_dj', 'on', true);
+    INSERT INTO participants (session_id, user_name, is_host, is_dj)
+    VALUES (p_session_id, 'DJ', false, true)
+    RETURNING id INTO dj_id;
+    PERFORM set_config('beat_battle.allow_dj', 'off', true);
+  END IF;
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO next_position
+  FROM songs
+  WHERE session_id = p_session_id;
+
+  PERFORM set_config('beat_battle.allow_dj_songs', 'on', true);
+
+  RETURN QUERY
+  INSERT INTO songs (session_id, title, artist, raw_title, album_art, duration, source, source_id, added_by, position)
+  SELECT
+    p_session_id,
+    e->>'title',
+    e->>'artist',
+    e->>'raw_title',
+    e->>'album_art',
+    (e->>'duration')::INTEGER,
+    e->>'source',
+    e->>'source_id',
+    dj_id,
+    next_position + (ROW_NUMBER() OVER (ORDER BY ord))::INTEGER - 1
+  FROM jsonb_array_elements(p_songs) WITH ORDINALITY AS t(e, ord)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM songs existing
+    WHERE existing.session_id = p_session_id
+      AND existing.source = e->>'source'
+      AND existing.source_id = e->>'source_id'
+  )
+  ORDER BY ord
+  LIMIT needed
+  RETURNING *;
+
+  PERFORM set_config('beat_battle.allow_dj_songs', 'off', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON FUNCTION guard_dj_songs IS 'Rejects songs added for the DJ outside autofill_queue()';
@@ -0,0 +1,128 @@
+-- Guard sessions.host_id
+-- guard_participant_host() let a participant join as host when sessions.host_id
+-- named it, but host_id itself could be rewritten by any client, so pointing it
+-- at a fresh participant row made that row the host. host_id now only changes
+-- through transfer_host() (it is still set when the session is created), and
+-- joining as host is only possible as the session's first participant.
+
+CREATE OR REPLACE FUNCTION guard_session_host()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_host_transfer', true), '') <> 'on'
+    AND NEW.host_id IS DISTINCT FROM OLD.host_id THEN
+    RAISE EXCEPTION 'The host can only change through transfer_host()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_session_host ON sessions;
+CREATE TRIGGER guard_session_host
+  BEFORE UPDATE OF host_id ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_host();
+
+-- The host flag can only be set on the session's host when it joins as the
+-- first participant, and only changed through transfer_host()
+CREATE OR REPLACE FUNCTION guard_participant_host()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('beat_battle.allow_host_transfer', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.is_host, false) AND (
+      NOT EXISTS (SELECT 1 FROM sessions WHERE id = NEW.session_id AND host_id = NEW.id)
+      OR EXISTS (SELECT 1 FROM participants WHERE session_id = NEW.session_id)
+    ) THEN
+      RAISE EXCEPTION 'Only the session host can join as host' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.is_host IS DISTINCT FROM OLD.is_host THEN
+    RAISE EXCEPTION 'The host can only change through transfer_host()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Transfer host to another participant of the session
+--   - the current host can transfer to anyone in the session
+--   - anyone else can only claim it for themselves, only while
+--     p_expected_host_id is still the host (compare-and-swap, so two
+--     clients electing at the same time can't both win) and only once the
+--     host has missed its heartbeats for 15 seconds
+CREATE OR REPLACE FUNCTION transfer_host(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_new_host_id UUID,
+  p_expected_host_id UUID DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+  s sessions;
+  caller participants;
+  current_host participants;
+  result sessions;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO caller FROM participants WHERE id = p_participant_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a participant of this session' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM participants WHERE id = p_new_host_id AND session_id = p_session_id) THEN
+    RAISE EXCEPTION 'New host is not a participant of this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO current_host
+  FROM participants
+  WHERE session_id = p_session_id AND is_host = true
+  ORDER BY joined_at ASC
+  LIMIT 1;
+
+  IF current_host.id IS NOT DISTINCT FROM p_new_host_id THEN
+    RETURN s;
+  END IF;
+
+  IF NOT COALESCE(caller.is_host, false) THEN
+    IF p_new_host_id <> p_participant_id THEN
+      RAISE EXCEPTION 'Only the host can hand over the session' USING ERRCODE = '42501';
+    END IF;
+
+    -- Someone else already took over: nothing to do
+    IF current_host.id IS DISTINCT FROM p_expected_host_id THEN
+      RETURN s;
+    END IF;
+
+    IF current_host.last_seen_at > NOW() - INTERVAL '15 seconds' THEN
+      RAISE EXCEPTION 'The host is still active' USING ERRCODE = '55000';
+    END IF;
+  END IF;
+
+  PERFORM set_config('beat_battle.allow_host_transfer', 'on', true);
+
+  UPDATE participants
+  SET is_host = (id = p_new_host_id)
+  WHERE session_id = p_session_id
+    AND (is_host = true OR id = p_new_host_id);
+
+  UPDATE sessions
+  SET host_id = p_new_host_id,
+      last_activity_at = NOW()
+  WHERE id = p_session_id
+  RETURNING * INTO result;
+
+  PERFORM set_config('beat_battle.allow_host_transfer', 'off', true);
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON FUNCTION guard_session_host IS 'Keeps sessions.host_id from changing outside transfer_host()';
@@ -0,0 +1,6 @@
+-- Lock down advance_due_sessions()
+-- Advancing every due session is the server clock's job (/api/sessions/tick,
+-- which runs with the service role). Clients advance their own session through
+-- transition_session().
+
+REVOKE EXECUTE ON FUNCTION advance_due_sessions() FROM PUBLIC, anon, authenticated;
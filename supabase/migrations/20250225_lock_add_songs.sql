@@ -0,0 +1,6 @@
+-- Lock down add_songs()
+-- Batches go through /api/songs/import-playlist, which checks the participant
+-- secret and looks the track metadata up again before calling add_songs().
+-- Called directly, a client could add songs as anyone with made-up metadata.
+
+REVOKE EXECUTE ON FUNCTION add_songs(UUID, UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
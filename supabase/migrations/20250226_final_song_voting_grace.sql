@@ -0,0 +1,98 @@
+-- Voting grace for the final song
+-- Every other song stays votable for voting_grace_seconds() after the next one
+-- starts, but the final song's votes were refused as soon as the session
+-- finished. Sessions now record when they finished, and the song playing at
+-- that point can be voted on until the same grace period has passed.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS finished_at TIMESTAMPTZ;
+
+-- finished_at is stamped here whenever a session finishes and can't be set otherwise
+CREATE OR REPLACE FUNCTION stamp_session_finished_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished' THEN
+    NEW.finished_at := NOW();
+  ELSE
+    NEW.finished_at := OLD.finished_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_session_finished_at ON sessions;
+CREATE TRIGGER stamp_session_finished_at
+  BEFORE UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_session_finished_at();
+
+-- Voting window: measured in playback position, so pausing doesn't open it early
+CREATE OR REPLACE FUNCTION enforce_voting_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  s sessions;
+  voting_duration INTEGER;
+  song_index INTEGER;
+  song songs;
+BEGIN
+  SELECT * INTO s FROM sessions WHERE id = NEW.session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF s.status = 'finished' THEN
+    IF s.finished_at IS NULL
+      OR s.current_song_started_at IS NULL
+      OR NOW() > s.finished_at + make_interval(secs => voting_grace_seconds()) THEN
+      RAISE EXCEPTION 'Voting is closed' USING ERRCODE = '55000';
+    END IF;
+  ELSIF s.status <> 'playing' OR s.current_song_started_at IS NULL THEN
+    RAISE EXCEPTION 'Voting is closed' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT ordered.idx INTO song_index
+  FROM (
+    SELECT id, (ROW_NUMBER() OVER (ORDER BY position ASC, created_at ASC) - 1)::INTEGER AS idx
+    FROM songs
+    WHERE session_id = NEW.session_id
+  ) ordered
+  WHERE ordered.id = NEW.song_id;
+
+  IF song_index IS NULL THEN
+    RAISE EXCEPTION 'Song not found in this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Final song: grace period after the session finished
+  IF s.status = 'finished' THEN
+    IF song_index <> s.current_song_index THEN
+      RAISE EXCEPTION 'Voting is closed for this song' USING ERRCODE = '55000';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Previous song: grace period after song_changed
+  IF song_index = s.current_song_index - 1 THEN
+    IF NOW() > s.current_song_started_at + make_interval(secs => voting_grace_seconds()) THEN
+      RAISE EXCEPTION 'Voting is closed for this song' USING ERRCODE = '55000';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF song_index <> s.current_song_index THEN
+    RAISE EXCEPTION 'Voting is closed for this song' USING ERRCODE = '55000';
+  END IF;
+
+  -- Current song: the window opens votingDuration seconds before the song ends
+  SELECT * INTO song FROM songs WHERE id = NEW.song_id;
+  voting_duration := session_setting_int(s.settings, 'votingDuration', 30);
+
+  IF session_playback_position(s) < GREATEST(song.duration - voting_duration, 0) THEN
+    RAISE EXCEPTION 'Voting has not opened yet' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON COLUMN sessions.finished_at IS 'When the session finished; the final song stays votable for voting_grace_seconds() after it';
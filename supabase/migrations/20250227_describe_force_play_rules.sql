@@ -0,0 +1,6 @@
+-- Describe enforce_force_play_rules() as it works now
+-- transition_session() no longer has a 'force_play' action: force plays go
+-- through use_force_play(), which records the force play in force_plays before
+-- the session moves, so raising in the trigger aborts the whole force play.
+
+COMMENT ON FUNCTION enforce_force_play_rules IS 'Rejects force plays when settings.allowForcePlay is off, the participant has no tokens left or is on cooldown. use_force_play() records the force play before moving the session, so raising here aborts the whole force play';
@@ -42,10 +42,11 @@ CREATE TABLE IF NOT EXISTS songs (
   session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
   title VARCHAR(255) NOT NULL,
   artist VARCHAR(255) NOT NULL,
+  raw_title TEXT, -- source title before artist/title were split out (YouTube)
   album_art TEXT,
   duration INTEGER NOT NULL, -- in seconds
-  source VARCHAR(20) NOT NULL CHECK (source IN ('spotify', 'youtube')),
-  source_id VARCHAR(255) NOT NULL, -- Spotify track ID or YouTube video ID
+  source VARCHAR(20) NOT NULL CHECK (source IN ('spotify', 'youtube', 'soundcloud')),
+  source_id VARCHAR(255) NOT NULL, -- Spotify track ID, YouTube video ID or SoundCloud track ID
   added_by UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
   position INTEGER NOT NULL,
   created_at TIMESTAMPTZ DEFAULT NOW()